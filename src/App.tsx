@@ -11,9 +11,14 @@ import CreateWill from "./pages/CreateWill";
 import CreateAudioWill from "./pages/CreateAudioWill";
 import CreateVideoWill from "./pages/CreateVideoWill";
 import CreateChatWill from "./pages/CreateChatWill";
+import CreateTextWill from "./pages/CreateTextWill";
+import WitnessSign from "./pages/WitnessSign";
 import AssetManagement from "./pages/AssetManagement";
 import Recipients from "./pages/Recipients";
+import RecipientDetail from "./pages/RecipientDetail";
 import ReviewWill from "./pages/ReviewWill";
+import Vault from "./pages/Vault";
+import VaultAccess from "./pages/VaultAccess";
 import Confirmation from "./pages/Confirmation";
 import Login from "./pages/Login";
 import ForgotPassword from "./pages/ForgotPassword";
@@ -34,13 +39,18 @@ const App = () => (
             <Route path="/login" element={<Login />} />
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/witness/:token" element={<WitnessSign />} />
+            <Route path="/vault/access" element={<VaultAccess />} />
             <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
             <Route path="/create" element={<ProtectedRoute><CreateWill /></ProtectedRoute>} />
             <Route path="/create/audio" element={<ProtectedRoute><CreateAudioWill /></ProtectedRoute>} />
             <Route path="/create/video" element={<ProtectedRoute><CreateVideoWill /></ProtectedRoute>} />
             <Route path="/create/chat" element={<ProtectedRoute><CreateChatWill /></ProtectedRoute>} />
+            <Route path="/create/text" element={<ProtectedRoute><CreateTextWill /></ProtectedRoute>} />
             <Route path="/assets" element={<ProtectedRoute><AssetManagement /></ProtectedRoute>} />
             <Route path="/recipients" element={<ProtectedRoute><Recipients /></ProtectedRoute>} />
+            <Route path="/recipients/:id" element={<ProtectedRoute><RecipientDetail /></ProtectedRoute>} />
+            <Route path="/vault" element={<ProtectedRoute><Vault /></ProtectedRoute>} />
             <Route path="/review" element={<ProtectedRoute><ReviewWill /></ProtectedRoute>} />
             <Route path="/confirmation" element={<ProtectedRoute><Confirmation /></ProtectedRoute>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
@@ -0,0 +1,70 @@
+import { ASSET_DETAIL_FIELDS, type AssetDetailField } from "@/lib/assetDetails";
+import type { AssetDetails } from "@/lib/validations";
+
+interface AssetDetailsFieldsProps {
+  category: string;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+// Form inputs for the structured fields of one asset category
+const AssetDetailsFields = ({ category, values, onChange }: AssetDetailsFieldsProps) => {
+  const fields = ASSET_DETAIL_FIELDS[category as keyof AssetDetails] || [];
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+  const renderInput = (field: AssetDetailField) => {
+    const value = values[field.key] || "";
+
+    if (field.type === "select") {
+      return (
+        <select value={value} onChange={(e) => setValue(field.key, e.target.value)} className="input-elevated">
+          <option value="">Not specified</option>
+          {field.options?.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    if (field.type === "textarea") {
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => setValue(field.key, e.target.value)}
+          placeholder={field.placeholder}
+          rows={2}
+          className="input-elevated resize-none"
+        />
+      );
+    }
+
+    return (
+      <input
+        type={field.type === "number" ? "text" : field.type}
+        inputMode={field.type === "number" ? "decimal" : undefined}
+        value={value}
+        onChange={(e) => setValue(field.key, e.target.value)}
+        placeholder={field.placeholder}
+        className="input-elevated"
+      />
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {fields.map((field) => (
+        <div key={field.key} className={field.type === "textarea" ? "col-span-2" : undefined}>
+          <label className="block text-sm font-medium text-foreground mb-2">{field.label}</label>
+          {renderInput(field)}
+          {field.hint && <p className="text-xs text-muted-foreground mt-1">{field.hint}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AssetDetailsFields;
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { Check, Download, File, Loader2, Pencil, Trash2, Upload, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { assetDocumentSchema, validateDocumentFile } from "@/lib/validations";
+
+export interface AssetDocument {
+  id: string;
+  asset_id: string;
+  name: string;
+  description: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  storage_path: string;
+  uploaded_at: string;
+}
+
+interface AssetDocumentsProps {
+  assetId: string;
+  userId: string;
+  documents: AssetDocument[];
+  onChange: (documents: AssetDocument[]) => void;
+}
+
+const STORAGE_BUCKET = "asset-documents";
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return null;
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Lists the documents attached to one asset and lets the owner upload, rename,
+// download and delete them. Files live in storage under `<user>/<asset>/`.
+const AssetDocuments = ({ assetId, userId, documents, onChange }: AssetDocumentsProps) => {
+  const [uploading, setUploading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: "", description: "" });
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const handleUpload = async (files: FileList) => {
+    const selected = Array.from(files);
+    for (const file of selected) {
+      const fileValidation = validateDocumentFile(file);
+      if (!fileValidation.valid) {
+        toast.error(`${file.name}: ${fileValidation.error}`);
+        return;
+      }
+    }
+
+    setUploading(true);
+    const uploaded: AssetDocument[] = [];
+    try {
+      for (const file of selected) {
+        const fileExt = file.name.split(".").pop();
+        const filePath = `${userId}/${assetId}/${crypto.randomUUID()}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage.from(STORAGE_BUCKET).upload(filePath, file);
+        if (uploadError) throw uploadError;
+
+        const { data, error: insertError } = await supabase
+          .from("asset_documents")
+          .insert({
+            asset_id: assetId,
+            user_id: userId,
+            name: file.name.slice(0, 255),
+            mime_type: file.type || null,
+            size_bytes: file.size,
+            storage_path: filePath,
+          })
+          .select("id, asset_id, name, description, mime_type, size_bytes, storage_path, uploaded_at")
+          .single();
+
+        if (insertError) {
+          // Don't leave an untracked file behind
+          await supabase.storage.from(STORAGE_BUCKET).remove([filePath]);
+          throw insertError;
+        }
+        uploaded.push(data);
+      }
+
+      toast.success(uploaded.length === 1 ? "Document uploaded" : `${uploaded.length} documents uploaded`);
+    } catch (error) {
+      console.error("Error uploading document:", error);
+      toast.error("Failed to upload document");
+    } finally {
+      if (uploaded.length > 0) onChange([...documents, ...uploaded]);
+      setUploading(false);
+    }
+  };
+
+  const startEditing = (document: AssetDocument) => {
+    setEditingId(document.id);
+    setDraft({ name: document.name, description: document.description || "" });
+  };
+
+  const handleRename = async (document: AssetDocument) => {
+    const validation = assetDocumentSchema.safeParse(draft);
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    setSavingId(document.id);
+    try {
+      const updates = { name: validation.data.name, description: validation.data.description || null };
+      const { error } = await supabase.from("asset_documents").update(updates).eq("id", document.id);
+      if (error) throw error;
+
+      onChange(documents.map((d) => (d.id === document.id ? { ...d, ...updates } : d)));
+      setEditingId(null);
+    } catch (error) {
+      console.error("Error renaming document:", error);
+      toast.error("Failed to rename document");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDownload = async (document: AssetDocument) => {
+    try {
+      const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(document.storage_path);
+      if (error) throw error;
+
+      // Create a download link
+      const url = URL.createObjectURL(data);
+      const a = window.document.createElement("a");
+      a.href = url;
+      a.download = document.name;
+      window.document.body.appendChild(a);
+      a.click();
+      window.document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading document:", error);
+      toast.error("Failed to download document");
+    }
+  };
+
+  const handleDelete = async (document: AssetDocument) => {
+    setSavingId(document.id);
+    try {
+      const { error: deleteError } = await supabase.storage.from(STORAGE_BUCKET).remove([document.storage_path]);
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase.from("asset_documents").delete().eq("id", document.id);
+      if (error) throw error;
+
+      onChange(documents.filter((d) => d.id !== document.id));
+      toast.success("Document deleted");
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      toast.error("Failed to delete document");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-1 mb-3">
+      {documents.map((document) =>
+        editingId === document.id ? (
+          <div key={document.id} className="flex items-start gap-2 p-2 rounded-lg bg-secondary/50">
+            <File className="w-4 h-4 text-gold mt-2.5 shrink-0" />
+            <div className="flex-1 space-y-2">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={255}
+                className="input-elevated text-sm"
+                autoFocus
+              />
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Description (optional)"
+                maxLength={500}
+                className="input-elevated text-sm"
+              />
+            </div>
+            <button
+              onClick={() => handleRename(document)}
+              disabled={savingId === document.id}
+              className="p-1 mt-2 hover:bg-secondary rounded transition-colors"
+              title="Save"
+            >
+              {savingId === document.id ? (
+                <Loader2 className="w-4 h-4 animate-spin text-gold" />
+              ) : (
+                <Check className="w-4 h-4 text-gold" />
+              )}
+            </button>
+            <button
+              onClick={() => setEditingId(null)}
+              className="p-1 mt-2 hover:bg-secondary rounded transition-colors"
+              title="Cancel"
+            >
+              <X className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </div>
+        ) : (
+          <div key={document.id} className="flex items-center gap-2">
+            <File className="w-4 h-4 text-gold shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm text-muted-foreground truncate">
+                {document.name}
+                {formatSize(document.size_bytes) && (
+                  <span className="text-xs"> • {formatSize(document.size_bytes)}</span>
+                )}
+                <span className="text-xs"> • {new Date(document.uploaded_at).toLocaleDateString()}</span>
+              </p>
+              {document.description && (
+                <p className="text-xs text-muted-foreground truncate">{document.description}</p>
+              )}
+            </div>
+            <button
+              onClick={() => handleDownload(document)}
+              className="p-1 hover:bg-secondary rounded transition-colors"
+              title="Download document"
+            >
+              <Download className="w-4 h-4 text-gold" />
+            </button>
+            <button
+              onClick={() => startEditing(document)}
+              className="p-1 hover:bg-secondary rounded transition-colors"
+              title="Rename document"
+            >
+              <Pencil className="w-3 h-3 text-muted-foreground" />
+            </button>
+            <button
+              onClick={() => handleDelete(document)}
+              disabled={savingId === document.id}
+              className="p-1 hover:bg-destructive/10 rounded transition-colors"
+              title="Delete document"
+            >
+              {savingId === document.id ? (
+                <Loader2 className="w-3 h-3 animate-spin text-destructive" />
+              ) : (
+                <Trash2 className="w-3 h-3 text-destructive" />
+              )}
+            </button>
+          </div>
+        ),
+      )}
+
+      <label className="inline-flex items-center gap-1 text-sm text-gold hover:underline cursor-pointer">
+        {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+        {documents.length > 0 ? "Upload another document" : "Upload document"}
+        <Input
+          type="file"
+          multiple
+          className="hidden"
+          accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+          onChange={(e) => {
+            if (e.target.files?.length) handleUpload(e.target.files);
+            e.target.value = "";
+          }}
+          disabled={uploading}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default AssetDocuments;
@@ -0,0 +1,373 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { motion, AnimatePresence } from "framer-motion";
+import { Check, Coins, Loader2, Plus, Trash2, Upload, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { CURRENCIES, parseExchangeRatesCsv, type CurrencySettings as Settings } from "@/lib/currency";
+import { currencyCodeSchema, exchangeRateSchema, type ExchangeRateInput } from "@/lib/validations";
+
+interface RateRow {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  as_of: string;
+}
+
+interface CurrencySettingsProps {
+  open: boolean;
+  reportingCurrency: string;
+  onClose: () => void;
+  onChange: (settings: Settings) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+const emptyRate = () => ({ base_currency: "EUR", quote_currency: "USD", rate: "", as_of: today() });
+
+// Reporting currency and the owner's exchange rates, used to convert asset values
+// into one estate total. Rates are entered by hand or imported from a CSV file.
+const CurrencySettings = ({ open, reportingCurrency, onClose, onChange }: CurrencySettingsProps) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [rates, setRates] = useState<RateRow[]>([]);
+  const [reporting, setReporting] = useState(reportingCurrency);
+  const [newRate, setNewRate] = useState(emptyRate);
+  const [editing, setEditing] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    setReporting(reportingCurrency);
+    setEditing({});
+    setLoading(true);
+    supabase
+      .from("exchange_rates")
+      .select("id, base_currency, quote_currency, rate, as_of")
+      .order("base_currency")
+      .order("quote_currency")
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching exchange rates:", error);
+          toast.error("Failed to load exchange rates");
+        }
+        setRates(data || []);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, reportingCurrency]);
+
+  const publish = (nextRates: RateRow[], nextReporting = reportingCurrency) => {
+    setRates(nextRates);
+    onChange({ reportingCurrency: nextReporting, rates: nextRates });
+  };
+
+  const sortRates = (rows: RateRow[]) =>
+    [...rows].sort((a, b) => `${a.base_currency}${a.quote_currency}`.localeCompare(`${b.base_currency}${b.quote_currency}`));
+
+  const upsertRates = async (rows: ExchangeRateInput[]) => {
+    const { data, error } = await supabase
+      .from("exchange_rates")
+      .upsert(
+        rows.map((r) => ({
+          user_id: user!.id,
+          base_currency: r.base_currency,
+          quote_currency: r.quote_currency,
+          rate: r.rate,
+          as_of: r.as_of || today(),
+        })),
+        { onConflict: "user_id,base_currency,quote_currency" },
+      )
+      .select("id, base_currency, quote_currency, rate, as_of");
+
+    if (error) throw error;
+    const saved = data || [];
+    const savedIds = new Set(saved.map((r) => `${r.base_currency}/${r.quote_currency}`));
+    return sortRates([...rates.filter((r) => !savedIds.has(`${r.base_currency}/${r.quote_currency}`)), ...saved]);
+  };
+
+  const handleReportingChange = async (currency: string) => {
+    const validation = currencyCodeSchema.safeParse(currency);
+    if (!validation.success || !user) return;
+
+    setReporting(validation.data);
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ reporting_currency: validation.data })
+        .eq("user_id", user.id);
+      if (error) throw error;
+
+      publish(rates, validation.data);
+    } catch (error) {
+      console.error("Error saving reporting currency:", error);
+      toast.error("Failed to save reporting currency");
+      setReporting(reportingCurrency);
+    }
+  };
+
+  const handleAddRate = async () => {
+    const validation = exchangeRateSchema.safeParse({ ...newRate, rate: parseFloat(newRate.rate) });
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      publish(await upsertRates([validation.data]));
+      setNewRate(emptyRate());
+      toast.success("Exchange rate saved");
+    } catch (error) {
+      console.error("Error saving exchange rate:", error);
+      toast.error("Failed to save exchange rate");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdateRate = async (row: RateRow) => {
+    const validation = exchangeRateSchema.safeParse({ ...row, rate: parseFloat(editing[row.id]), as_of: today() });
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("exchange_rates")
+        .update({ rate: validation.data.rate, as_of: validation.data.as_of })
+        .eq("id", row.id);
+      if (error) throw error;
+
+      publish(rates.map((r) => (r.id === row.id ? { ...r, rate: validation.data.rate, as_of: validation.data.as_of! } : r)));
+      setEditing((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== row.id)));
+    } catch (error) {
+      console.error("Error updating exchange rate:", error);
+      toast.error("Failed to update exchange rate");
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    try {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", id);
+      if (error) throw error;
+
+      publish(rates.filter((r) => r.id !== id));
+    } catch (error) {
+      console.error("Error deleting exchange rate:", error);
+      toast.error("Failed to delete exchange rate");
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    if (file.size > 1024 * 1024) {
+      toast.error("CSV file is too large (max 1MB)");
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const { rates: parsed, errors } = parseExchangeRatesCsv(await file.text());
+      if (errors.length > 0) {
+        toast.error(`${errors.length} line(s) could not be read. ${errors.slice(0, 3).join("; ")}`);
+      }
+      if (parsed.length === 0) return;
+
+      // The last line for a pair wins
+      const unique = [...new Map(parsed.map((r) => [`${r.base_currency}/${r.quote_currency}`, r])).values()];
+      publish(await upsertRates(unique));
+      toast.success(`Imported ${unique.length} exchange rate(s)`);
+    } catch (error) {
+      console.error("Error importing exchange rates:", error);
+      toast.error("Failed to import exchange rates");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const currencyOptions = (selected: string) =>
+    (CURRENCIES.includes(selected) ? CURRENCIES : [selected, ...CURRENCIES]).map((c) => (
+      <option key={c} value={c}>
+        {c}
+      </option>
+    ));
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-foreground/20 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="card-elevated w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <Coins className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">Currencies</h2>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-secondary rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-gold" />
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {/* Reporting currency */}
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Reporting currency</label>
+                  <select
+                    value={reporting}
+                    onChange={(e) => handleReportingChange(e.target.value)}
+                    className="input-elevated"
+                  >
+                    {currencyOptions(reporting)}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">Your estate total is shown in this currency.</p>
+                </div>
+
+                {/* Rates */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-foreground">Exchange rates</p>
+                    <label className="inline-flex items-center gap-1 text-sm text-gold hover:underline cursor-pointer">
+                      {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                      Import CSV
+                      <Input
+                        type="file"
+                        className="hidden"
+                        accept=".csv,text/csv,text/plain"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleImport(file);
+                          e.target.value = "";
+                        }}
+                        disabled={importing}
+                      />
+                    </label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    One rate per line as <span className="font-mono">base,quote,rate[,date]</span>, e.g.{" "}
+                    <span className="font-mono">EUR,USD,1.08,2026-01-15</span> means 1 EUR = 1.08 USD.
+                  </p>
+
+                  {rates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-2">No exchange rates yet.</p>
+                  ) : (
+                    rates.map((row) => (
+                      <div key={row.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+                        <span className="text-sm font-medium text-foreground w-28">
+                          1 {row.base_currency} =
+                        </span>
+                        <input
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={editing[row.id] ?? String(Number(row.rate))}
+                          onChange={(e) => setEditing((prev) => ({ ...prev, [row.id]: e.target.value }))}
+                          className="input-elevated w-32"
+                        />
+                        <span className="text-sm text-foreground">{row.quote_currency}</span>
+                        <span className="flex-1 text-xs text-muted-foreground text-right">as of {row.as_of}</span>
+                        {editing[row.id] !== undefined && (
+                          <button
+                            onClick={() => handleUpdateRate(row)}
+                            className="p-1 hover:bg-secondary rounded transition-colors"
+                            title="Save rate"
+                          >
+                            <Check className="w-4 h-4 text-gold" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDeleteRate(row.id)}
+                          className="p-1 hover:bg-destructive/10 rounded transition-colors"
+                          title="Delete rate"
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {/* New rate */}
+                <div className="flex flex-wrap items-end gap-2">
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">1 unit of</label>
+                    <select
+                      value={newRate.base_currency}
+                      onChange={(e) => setNewRate({ ...newRate, base_currency: e.target.value })}
+                      className="input-elevated w-24"
+                    >
+                      {currencyOptions(newRate.base_currency)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">equals</label>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={newRate.rate}
+                      onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+                      placeholder="1.00"
+                      className="input-elevated w-32"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">of</label>
+                    <select
+                      value={newRate.quote_currency}
+                      onChange={(e) => setNewRate({ ...newRate, quote_currency: e.target.value })}
+                      className="input-elevated w-24"
+                    >
+                      {currencyOptions(newRate.quote_currency)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">as of</label>
+                    <input
+                      type="date"
+                      value={newRate.as_of}
+                      onChange={(e) => setNewRate({ ...newRate, as_of: e.target.value })}
+                      className="input-elevated"
+                    />
+                  </div>
+                  <Button variant="gold" className="gap-2" onClick={handleAddRate} disabled={saving || !newRate.rate}>
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                    Save Rate
+                  </Button>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CurrencySettings;
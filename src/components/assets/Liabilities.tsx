@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Landmark, Link2, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { CURRENCIES, formatMoney } from "@/lib/currency";
+import { LIABILITY_CATEGORIES, type Liability, type LiabilityCategory } from "@/lib/estate";
+import { liabilitySchema } from "@/lib/validations";
+
+interface LiabilitiesProps {
+  userId: string;
+  liabilities: Liability[];
+  assets: { id: string; name: string; currency: string; ownership_percentage?: number | null }[];
+  defaultCurrency: string;
+  onChange: (liabilities: Liability[]) => void;
+}
+
+interface LiabilityDraft {
+  id: string | null;
+  name: string;
+  category: LiabilityCategory;
+  amount: string;
+  currency: string;
+  lender: string;
+  notes: string;
+  secured_asset_id: string;
+}
+
+const LIABILITY_COLUMNS = "id, name, category, amount, currency, lender, notes, secured_asset_id";
+
+// Debts listed alongside the assets; secured ones point at the asset they are held against
+const Liabilities = ({ userId, liabilities, assets, defaultCurrency, onChange }: LiabilitiesProps) => {
+  const [draft, setDraft] = useState<LiabilityDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const openEditor = (liability?: Liability) =>
+    setDraft(
+      liability
+        ? {
+            id: liability.id,
+            name: liability.name,
+            category: liability.category as LiabilityCategory,
+            amount: String(liability.amount),
+            currency: liability.currency,
+            lender: liability.lender || "",
+            notes: liability.notes || "",
+            secured_asset_id: liability.secured_asset_id || "",
+          }
+        : {
+            id: null,
+            name: "",
+            category: "mortgage",
+            amount: "",
+            currency: defaultCurrency,
+            lender: "",
+            notes: "",
+            secured_asset_id: "",
+          },
+    );
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const validation = liabilitySchema.safeParse({
+      name: draft.name.trim(),
+      category: draft.category,
+      amount: draft.amount ? parseFloat(draft.amount.replace(/[^0-9.]/g, "")) : NaN,
+      currency: draft.currency,
+      lender: draft.lender.trim(),
+      notes: draft.notes.trim(),
+      secured_asset_id: draft.secured_asset_id || null,
+    });
+
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    const fields = {
+      name: validation.data.name,
+      category: validation.data.category,
+      amount: validation.data.amount,
+      currency: validation.data.currency,
+      lender: validation.data.lender || null,
+      notes: validation.data.notes || null,
+      secured_asset_id: validation.data.secured_asset_id,
+    };
+
+    setSaving(true);
+    try {
+      if (draft.id) {
+        const { data, error } = await supabase
+          .from("liabilities")
+          .update(fields)
+          .eq("id", draft.id)
+          .select(LIABILITY_COLUMNS)
+          .single();
+        if (error) throw error;
+        onChange(liabilities.map((l) => (l.id === data.id ? data : l)));
+        toast.success("Liability updated");
+      } else {
+        const { data, error } = await supabase
+          .from("liabilities")
+          .insert({ ...fields, user_id: userId })
+          .select(LIABILITY_COLUMNS)
+          .single();
+        if (error) throw error;
+        onChange([...liabilities, data]);
+        toast.success("Liability added");
+      }
+      setDraft(null);
+    } catch (error) {
+      console.error("Error saving liability:", error);
+      toast.error("Failed to save liability");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("liabilities").delete().eq("id", id);
+      if (error) throw error;
+      onChange(liabilities.filter((l) => l.id !== id));
+      toast.success("Liability deleted");
+    } catch (error) {
+      console.error("Error deleting liability:", error);
+      toast.error("Failed to delete liability");
+    }
+  };
+
+  const assetName = (id: string | null) => assets.find((a) => a.id === id)?.name;
+  // Your share of a debt secured against a jointly owned asset, or null when you own it outright
+  const debtShare = (id: string | null) => {
+    const percentage = Number(assets.find((a) => a.id === id)?.ownership_percentage ?? 100);
+    return percentage < 100 ? percentage : null;
+  };
+  const categoryLabel = (value: string) => LIABILITY_CATEGORIES.find((c) => c.value === value)?.label || value;
+
+  return (
+    <div className="card-elevated">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Landmark className="w-5 h-5 text-gold" />
+          <h2 className="font-serif text-xl font-semibold text-foreground">Liabilities</h2>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => openEditor()}>
+          <Plus className="w-4 h-4" />
+          Add Liability
+        </Button>
+      </div>
+
+      {liabilities.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Mortgages, loans and other debts are paid before your beneficiaries receive anything. Add them here to see
+          your net estate.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {liabilities.map((liability) => (
+            <div key={liability.id} className="flex items-center gap-4 p-3 rounded-lg bg-secondary/50">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground truncate">{liability.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {categoryLabel(liability.category)}
+                  {liability.lender && ` · ${liability.lender}`}
+                </p>
+                {assetName(liability.secured_asset_id) && (
+                  <p className="text-xs text-muted-foreground inline-flex items-center gap-1">
+                    <Link2 className="w-3 h-3" />
+                    Secured against {assetName(liability.secured_asset_id)}
+                    {debtShare(liability.secured_asset_id) && ` · your ${debtShare(liability.secured_asset_id)}% share counts`}
+                  </p>
+                )}
+              </div>
+              <span className="font-semibold text-destructive">−{formatMoney(liability.amount, liability.currency)}</span>
+              <div className="flex items-center gap-1">
+                <button onClick={() => openEditor(liability)} className="p-2 hover:bg-secondary rounded-lg" title="Edit">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(liability.id)}
+                  className="p-2 hover:bg-destructive/10 text-destructive rounded-lg"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Liability Editor */}
+      <AnimatePresence>
+        {draft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-foreground/20 backdrop-blur-sm"
+            onClick={() => setDraft(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="card-elevated w-full max-w-md max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="font-serif text-xl font-semibold text-foreground">
+                  {draft.id ? "Edit Liability" : "Add Liability"}
+                </h2>
+                <button onClick={() => setDraft(null)} className="p-2 hover:bg-secondary rounded-lg">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g., Home mortgage"
+                    className="input-elevated"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Type</label>
+                  <select
+                    value={draft.category}
+                    onChange={(e) => setDraft({ ...draft, category: e.target.value as LiabilityCategory })}
+                    className="input-elevated"
+                  >
+                    {LIABILITY_CATEGORIES.map((c) => (
+                      <option key={c.value} value={c.value}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Amount Owed</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={draft.amount}
+                      onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                      placeholder="e.g., 250,000"
+                      className="input-elevated"
+                    />
+                    <select
+                      value={draft.currency}
+                      onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+                      className="input-elevated w-28"
+                    >
+                      {(CURRENCIES.includes(draft.currency) ? CURRENCIES : [draft.currency, ...CURRENCIES]).map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Secured Against</label>
+                  <select
+                    value={draft.secured_asset_id}
+                    onChange={(e) => setDraft({ ...draft, secured_asset_id: e.target.value })}
+                    className="input-elevated"
+                  >
+                    <option value="">Not secured (paid from the whole estate)</option>
+                    {assets.map((asset) => (
+                      <option key={asset.id} value={asset.id}>
+                        {asset.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Lender (optional)</label>
+                  <input
+                    type="text"
+                    value={draft.lender}
+                    onChange={(e) => setDraft({ ...draft, lender: e.target.value })}
+                    className="input-elevated"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Notes (optional)</label>
+                  <textarea
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    rows={2}
+                    className="input-elevated resize-none"
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <Button variant="ghost" className="flex-1" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button variant="gold" className="flex-1" onClick={handleSave} disabled={saving}>
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : draft.id ? "Save Changes" : "Add Liability"}
+                </Button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Liabilities;
@@ -0,0 +1,70 @@
+import { SOLE_OWNERSHIP, type AssetOwnershipDraft } from "@/lib/validations";
+
+interface OwnershipFieldsProps {
+  values: AssetOwnershipDraft;
+  onChange: (values: AssetOwnershipDraft) => void;
+}
+
+// Sole or shared ownership of an asset; only the owner's share goes into the estate
+const OwnershipFields = ({ values, onChange }: OwnershipFieldsProps) => {
+  const joint = values.ownership_percentage !== "100";
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <input
+          type="checkbox"
+          checked={joint}
+          onChange={(e) => onChange(e.target.checked ? { ...values, ownership_percentage: "50" } : SOLE_OWNERSHIP)}
+          className="rounded border-border"
+        />
+        Owned jointly with someone else
+      </label>
+
+      {joint && (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Your Share</label>
+            <div className="relative">
+              <input
+                type="text"
+                inputMode="decimal"
+                value={values.ownership_percentage}
+                onChange={(e) => onChange({ ...values, ownership_percentage: e.target.value })}
+                className="input-elevated text-right pr-8"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">%</span>
+            </div>
+          </div>
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-foreground mb-2">Co-owners</label>
+            <input
+              type="text"
+              value={values.co_owners}
+              onChange={(e) => onChange({ ...values, co_owners: e.target.value })}
+              placeholder="e.g., Jane Smith (spouse)"
+              className="input-elevated"
+            />
+          </div>
+          <label className="col-span-3 flex items-start gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={values.right_of_survivorship}
+              onChange={(e) => onChange({ ...values, right_of_survivorship: e.target.checked })}
+              className="rounded border-border mt-0.5"
+            />
+            <span>
+              Right of survivorship
+              <span className="block text-xs text-muted-foreground">
+                Your share passes straight to the surviving co-owners, not through your will, so it is left out of
+                your estate.
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OwnershipFields;
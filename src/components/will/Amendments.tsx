@@ -0,0 +1,226 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { FilePlus, Loader2, Lock, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { amendmentSchema } from "@/lib/validations";
+
+interface Amendment {
+  id: string;
+  sequence_number: number;
+  title: string;
+  content: string;
+  reason: string | null;
+  status: string;
+  finalized_at: string | null;
+  created_at: string;
+}
+
+interface AmendmentsProps {
+  willId: string;
+}
+
+const emptyDraft = { title: "", content: "", reason: "" };
+
+// Codicils for a finalized will. The will itself is immutable, so every later
+// change is recorded here as a numbered amendment that can be finalized in turn.
+const Amendments = ({ willId }: AmendmentsProps) => {
+  const { user } = useAuth();
+  const [amendments, setAmendments] = useState<Amendment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    supabase
+      .from("will_amendments")
+      .select("id, sequence_number, title, content, reason, status, finalized_at, created_at")
+      .eq("will_id", willId)
+      .order("sequence_number")
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching amendments:", error);
+          toast.error("Failed to load amendments");
+        } else {
+          setAmendments(data || []);
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [willId]);
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    const validation = amendmentSchema.safeParse(draft);
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("will_amendments")
+        .insert({
+          will_id: willId,
+          user_id: user.id,
+          title: validation.data.title,
+          content: validation.data.content,
+          reason: validation.data.reason || null,
+        })
+        .select("id, sequence_number, title, content, reason, status, finalized_at, created_at")
+        .single();
+
+      if (error) throw error;
+
+      setAmendments([...amendments, data]);
+      setDraft(emptyDraft);
+      setShowForm(false);
+      toast.success("Amendment saved as a draft");
+    } catch (error) {
+      console.error("Error creating amendment:", error);
+      toast.error("Failed to save amendment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFinalize = async (amendment: Amendment) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("will_amendments")
+        .update({ status: "completed" })
+        .eq("id", amendment.id)
+        .select("id, sequence_number, title, content, reason, status, finalized_at, created_at")
+        .single();
+
+      if (error) throw error;
+
+      setAmendments(amendments.map((a) => (a.id === amendment.id ? data : a)));
+      toast.success(`Amendment ${amendment.sequence_number} finalized`);
+    } catch (error) {
+      console.error("Error finalizing amendment:", error);
+      toast.error("Failed to finalize amendment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("will_amendments").delete().eq("id", id);
+      if (error) throw error;
+
+      setAmendments(amendments.filter((a) => a.id !== id));
+      toast.success("Draft amendment deleted");
+    } catch (error) {
+      console.error("Error deleting amendment:", error);
+      toast.error("Failed to delete amendment");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gold" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {amendments.length === 0 && !showForm && (
+        <p className="text-sm text-muted-foreground">
+          This will is finalized. To change it, add an amendment rather than editing the will itself.
+        </p>
+      )}
+
+      {amendments.map((amendment) => (
+        <div key={amendment.id} className="p-3 rounded-lg bg-secondary/50">
+          <div className="flex items-start justify-between gap-3 mb-1">
+            <div>
+              <p className="text-sm font-medium text-foreground">
+                Amendment {amendment.sequence_number}: {amendment.title}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {amendment.status === "completed" && amendment.finalized_at
+                  ? `Finalized ${new Date(amendment.finalized_at).toLocaleDateString()}`
+                  : `Draft • created ${new Date(amendment.created_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            {amendment.status === "completed" ? (
+              <Lock className="w-4 h-4 text-sage-dark shrink-0" />
+            ) : (
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => handleDelete(amendment.id)}
+                  className="p-1 hover:bg-destructive/10 rounded transition-colors"
+                  title="Delete draft"
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </button>
+                <Button variant="gold" size="sm" onClick={() => handleFinalize(amendment)} disabled={saving}>
+                  Finalize
+                </Button>
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-foreground whitespace-pre-wrap">{amendment.content}</p>
+          {amendment.reason && <p className="text-xs text-muted-foreground mt-1">Reason: {amendment.reason}</p>}
+        </div>
+      ))}
+
+      {showForm ? (
+        <div className="space-y-3 p-3 rounded-lg border border-border">
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="e.g., Change executor"
+            className="input-elevated"
+          />
+          <textarea
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            placeholder="Describe exactly what this amendment changes..."
+            rows={4}
+            className="input-elevated resize-none"
+          />
+          <input
+            type="text"
+            value={draft.reason}
+            onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+            placeholder="Reason (optional)"
+            className="input-elevated"
+          />
+          <div className="flex gap-3">
+            <Button variant="ghost" className="flex-1" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button variant="gold" className="flex-1" onClick={handleCreate} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save Draft"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setShowForm(true)}>
+          <FilePlus className="w-4 h-4" />
+          Add Amendment
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default Amendments;
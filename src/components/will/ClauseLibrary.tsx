@@ -0,0 +1,229 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader2, BookOpen, Plus } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  CLAUSE_TEMPLATES,
+  fillTemplate,
+  formatAsset,
+  formatRecipient,
+  type ClausePlaceholder,
+  type ClauseTemplate,
+  type PlaceholderValue,
+  type TemplateAsset,
+  type TemplateRecipient,
+} from "@/lib/clauseTemplates";
+
+interface ClauseLibraryProps {
+  open: boolean;
+  // Limits asset choices to this will plus unassigned assets
+  willId?: string | null;
+  insertLabel?: string;
+  onClose: () => void;
+  onInsert: (template: ClauseTemplate, clauses: string[]) => void;
+}
+
+const ClauseLibrary = ({ open, willId, insertLabel = "Insert Clause", onClose, onInsert }: ClauseLibraryProps) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [testator, setTestator] = useState<string | null>(null);
+  const [recipients, setRecipients] = useState<TemplateRecipient[]>([]);
+  const [assets, setAssets] = useState<TemplateAsset[]>([]);
+  const [templateId, setTemplateId] = useState(CLAUSE_TEMPLATES[0].id);
+  const [values, setValues] = useState<Record<string, PlaceholderValue | undefined>>({});
+
+  useEffect(() => {
+    if (!open || !user) return;
+    let cancelled = false;
+
+    setLoading(true);
+    Promise.all([
+      supabase.from("profiles").select("full_name").eq("user_id", user.id).maybeSingle(),
+      supabase.from("recipients").select("id, full_name, relationship").order("full_name"),
+      supabase
+        .from("assets")
+        .select("id, name, category, description, location, will_id")
+        .neq("category", "residuary")
+        .order("name"),
+    ]).then(([profileRes, recipientsRes, assetsRes]) => {
+      if (cancelled) return;
+      const error = profileRes.error || recipientsRes.error || assetsRes.error;
+      if (error) {
+        console.error("Error loading clause library data:", error);
+        toast.error("Failed to load your recipients and assets");
+      }
+      setTestator(profileRes.data?.full_name || null);
+      setRecipients(recipientsRes.data || []);
+      setAssets((assetsRes.data || []).filter((a) => !willId || !a.will_id || a.will_id === willId));
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, user, willId]);
+
+  const template = CLAUSE_TEMPLATES.find((t) => t.id === templateId) || CLAUSE_TEMPLATES[0];
+
+  const preview = useMemo(
+    () => fillTemplate(template, values, { testator, recipients, assets }),
+    [template, values, testator, recipients, assets],
+  );
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    setValues({});
+  };
+
+  const setValue = (key: string, value: PlaceholderValue | undefined) => setValues((prev) => ({ ...prev, [key]: value }));
+
+  const handleInsert = () => {
+    onInsert(template, preview);
+    setValues({});
+    onClose();
+  };
+
+  const renderField = (placeholder: ClausePlaceholder) => {
+    const value = values[placeholder.key];
+
+    if (placeholder.kind === "text") {
+      return (
+        <input
+          type="text"
+          value={value?.kind === "text" ? value.text : ""}
+          onChange={(e) => setValue(placeholder.key, { kind: "text", text: e.target.value })}
+          placeholder={placeholder.hint}
+          maxLength={500}
+          className="input-elevated"
+        />
+      );
+    }
+
+    const selected = value && value.kind !== "text" ? value.id : "";
+    const onSelect = (id: string) =>
+      setValue(placeholder.key, id ? { kind: placeholder.kind as "recipient" | "asset", id } : undefined);
+
+    if (placeholder.kind === "recipient") {
+      return (
+        <select value={selected} onChange={(e) => onSelect(e.target.value)} className="input-elevated">
+          <option value="">{recipients.length ? "Choose a recipient..." : "No recipients added yet"}</option>
+          {recipients.map((r) => (
+            <option key={r.id} value={r.id}>
+              {formatRecipient(r)}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    const preferred = placeholder.categories
+      ? [...assets].sort(
+          (a, b) => Number(placeholder.categories?.includes(b.category)) - Number(placeholder.categories?.includes(a.category)),
+        )
+      : assets;
+
+    return (
+      <select value={selected} onChange={(e) => onSelect(e.target.value)} className="input-elevated">
+        <option value="">{assets.length ? "Choose an asset..." : "No assets added yet"}</option>
+        {preferred.map((a) => (
+          <option key={a.id} value={a.id}>
+            {formatAsset(a)}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-foreground/20 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="card-elevated w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <BookOpen className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">Clause Library</h2>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-secondary rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-gold" />
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-[14rem_1fr] gap-6">
+                {/* Templates */}
+                <div className="space-y-1">
+                  {CLAUSE_TEMPLATES.map((t) => (
+                    <button
+                      key={t.id}
+                      onClick={() => selectTemplate(t.id)}
+                      className={`w-full text-left p-3 rounded-lg transition-colors ${
+                        t.id === template.id ? "bg-gold/10 border border-gold" : "hover:bg-secondary border border-transparent"
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-foreground">{t.title}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{t.description}</p>
+                    </button>
+                  ))}
+                </div>
+
+                {/* Placeholders & preview */}
+                <div className="space-y-4">
+                  {template.placeholders.map((placeholder) => (
+                    <div key={placeholder.key}>
+                      <label className="block text-sm font-medium text-foreground mb-2">{placeholder.label}</label>
+                      {renderField(placeholder)}
+                    </div>
+                  ))}
+
+                  <div>
+                    <p className="text-sm text-muted-foreground mb-1">Preview</p>
+                    <div className="space-y-2 text-sm text-foreground bg-secondary/50 p-3 rounded-lg">
+                      {preview.map((clause, index) => (
+                        <p key={index}>{clause}</p>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Anything left in [brackets] can be filled in after inserting.
+                    </p>
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" onClick={onClose}>
+                      Cancel
+                    </Button>
+                    <Button variant="gold" className="gap-2" onClick={handleInsert}>
+                      <Plus className="w-4 h-4" />
+                      {insertLabel}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ClauseLibrary;
@@ -0,0 +1,489 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { motion } from "framer-motion";
+import { Check, X, Loader2, FolderOpen, Users, Percent, Sparkles } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { assetSchema, recipientSchema, type AssetInput, type RecipientInput } from "@/lib/validations";
+
+type AssetCategory = "property" | "investment" | "bank_account" | "vehicle" | "jewelry" | "digital_asset" | "insurance" | "business" | "other";
+
+export interface ProposedAsset {
+  name: string;
+  category: AssetCategory;
+  description?: string;
+  estimated_value?: number;
+}
+
+export interface ProposedRecipient {
+  full_name: string;
+  relationship?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface ProposedAllocation {
+  asset_name: string;
+  recipient_name: string;
+  allocation_percentage: number;
+  notes?: string;
+}
+
+export interface EstateProposal {
+  assets: ProposedAsset[];
+  recipients: ProposedRecipient[];
+  asset_allocations: ProposedAllocation[];
+}
+
+type Decision = "accepted" | "rejected";
+
+interface AssetDraft {
+  name: string;
+  category: AssetCategory;
+  description: string;
+  estimated_value: string;
+  decision: Decision;
+  existingId?: string;
+}
+
+interface RecipientDraft {
+  full_name: string;
+  relationship: string;
+  email: string;
+  phone: string;
+  decision: Decision;
+  existingId?: string;
+}
+
+interface AllocationDraft {
+  assetIndex: number;
+  recipientIndex: number;
+  percentage: string;
+  notes: string;
+  decision: Decision;
+}
+
+interface ExtractionReviewProps {
+  proposal: EstateProposal;
+  willId: string | null;
+  onComplete: () => void;
+  onSkip: () => void;
+}
+
+const CATEGORIES: AssetCategory[] = ["property", "investment", "bank_account", "vehicle", "jewelry", "digital_asset", "insurance", "business", "other"];
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const DecisionToggle = ({ decision, onChange }: { decision: Decision; onChange: (d: Decision) => void }) => (
+  <div className="flex items-center gap-1 shrink-0">
+    <button
+      onClick={() => onChange("accepted")}
+      className={`p-1.5 rounded-lg transition-colors ${decision === "accepted" ? "bg-sage/40 text-sage-dark" : "hover:bg-secondary text-muted-foreground"}`}
+      title="Accept"
+    >
+      <Check className="w-4 h-4" />
+    </button>
+    <button
+      onClick={() => onChange("rejected")}
+      className={`p-1.5 rounded-lg transition-colors ${decision === "rejected" ? "bg-destructive/10 text-destructive" : "hover:bg-secondary text-muted-foreground"}`}
+      title="Reject"
+    >
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
+
+const ExtractionReview = ({ proposal, willId, onComplete, onSkip }: ExtractionReviewProps) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [assets, setAssets] = useState<AssetDraft[]>([]);
+  const [recipients, setRecipients] = useState<RecipientDraft[]>([]);
+  const [allocations, setAllocations] = useState<AllocationDraft[]>([]);
+
+  // Match proposals against what the user already has so nothing is duplicated
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [assetsRes, recipientsRes] = await Promise.all([
+          supabase.from("assets").select("id, name").neq("category", "residuary"),
+          supabase.from("recipients").select("id, full_name"),
+        ]);
+
+        if (assetsRes.error) throw assetsRes.error;
+        if (recipientsRes.error) throw recipientsRes.error;
+
+        const assetDrafts: AssetDraft[] = proposal.assets.map((a) => ({
+          name: a.name || "",
+          category: CATEGORIES.includes(a.category) ? a.category : "other",
+          description: a.description || "",
+          estimated_value: a.estimated_value != null ? a.estimated_value.toString() : "",
+          decision: "accepted",
+          existingId: assetsRes.data?.find((e) => sameName(e.name, a.name || ""))?.id,
+        }));
+
+        const recipientDrafts: RecipientDraft[] = proposal.recipients.map((r) => ({
+          full_name: r.full_name || "",
+          relationship: r.relationship || "",
+          email: r.email || "",
+          phone: r.phone || "",
+          decision: "accepted",
+          existingId: recipientsRes.data?.find((e) => sameName(e.full_name, r.full_name || ""))?.id,
+        }));
+
+        const allocationDrafts: AllocationDraft[] = proposal.asset_allocations
+          .map((a) => ({
+            assetIndex: assetDrafts.findIndex((d) => sameName(d.name, a.asset_name || "")),
+            recipientIndex: recipientDrafts.findIndex((d) => sameName(d.full_name, a.recipient_name || "")),
+            percentage: a.allocation_percentage?.toString() || "",
+            notes: a.notes || "",
+            decision: "accepted" as Decision,
+          }))
+          .filter((a) => a.assetIndex !== -1 && a.recipientIndex !== -1);
+
+        setAssets(assetDrafts);
+        setRecipients(recipientDrafts);
+        setAllocations(allocationDrafts);
+      } catch (error) {
+        console.error("Error loading existing records:", error);
+        toast.error("Failed to load your existing assets and recipients");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [proposal]);
+
+  const updateAsset = (index: number, changes: Partial<AssetDraft>) => {
+    setAssets((prev) => prev.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const updateRecipient = (index: number, changes: Partial<RecipientDraft>) => {
+    setRecipients((prev) => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const updateAllocation = (index: number, changes: Partial<AllocationDraft>) => {
+    setAllocations((prev) => prev.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const isAllocationActive = (a: AllocationDraft) =>
+    a.decision === "accepted" &&
+    assets[a.assetIndex]?.decision === "accepted" &&
+    recipients[a.recipientIndex]?.decision === "accepted";
+
+  const handleConfirm = async () => {
+    if (!user) {
+      toast.error("You must be logged in");
+      return;
+    }
+
+    // Validate everything before writing anything
+    const validatedRecipients = new Map<number, RecipientInput>();
+    for (const [index, r] of recipients.entries()) {
+      if (r.decision !== "accepted" || r.existingId) continue;
+      const validation = recipientSchema.safeParse({
+        full_name: r.full_name.trim(),
+        email: r.email.trim() || undefined,
+        phone: r.phone.trim() || undefined,
+        relationship: r.relationship.trim() || undefined,
+      });
+      if (!validation.success) {
+        toast.error(`${r.full_name || "Recipient"}: ${validation.error.errors[0].message}`);
+        return;
+      }
+      validatedRecipients.set(index, validation.data);
+    }
+
+    const validatedAssets = new Map<number, AssetInput>();
+    for (const [index, a] of assets.entries()) {
+      if (a.decision !== "accepted" || a.existingId) continue;
+      const validation = assetSchema.safeParse({
+        name: a.name.trim(),
+        description: a.description.trim() || undefined,
+        estimated_value: a.estimated_value ? parseFloat(a.estimated_value.replace(/[^0-9.]/g, "")) : null,
+        category: a.category,
+      });
+      if (!validation.success) {
+        toast.error(`${a.name || "Asset"}: ${validation.error.errors[0].message}`);
+        return;
+      }
+      validatedAssets.set(index, validation.data);
+    }
+
+    const activeAllocations = allocations.filter(isAllocationActive);
+    const totals = new Map<number, number>();
+    for (const a of activeAllocations) {
+      const pct = parseFloat(a.percentage);
+      if (isNaN(pct) || pct <= 0 || pct > 100) {
+        toast.error("Each allocation must be between 1% and 100%");
+        return;
+      }
+      totals.set(a.assetIndex, (totals.get(a.assetIndex) || 0) + pct);
+    }
+    for (const [assetIndex, total] of totals) {
+      if (Math.abs(total - 100) > 0.001) {
+        toast.error(`Allocations for "${assets[assetIndex].name}" must total 100%`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const recipientIds = new Map<number, string>();
+      recipients.forEach((r, i) => r.existingId && recipientIds.set(i, r.existingId));
+
+      if (validatedRecipients.size > 0) {
+        const indexes = [...validatedRecipients.keys()];
+        const { data, error } = await supabase
+          .from("recipients")
+          .insert(
+            indexes.map((i) => {
+              const r = validatedRecipients.get(i)!;
+              return {
+                user_id: user.id,
+                full_name: r.full_name,
+                email: r.email || null,
+                phone: r.phone || null,
+                relationship: r.relationship || null,
+              };
+            })
+          )
+          .select("id");
+        if (error) throw error;
+        indexes.forEach((recipientIndex, i) => recipientIds.set(recipientIndex, data[i].id));
+        // Saved now, so trying again after a later failure doesn't add them twice
+        setRecipients((prev) => prev.map((r, i) => (recipientIds.has(i) ? { ...r, existingId: recipientIds.get(i) } : r)));
+      }
+
+      const assetIds = new Map<number, string>();
+      assets.forEach((a, i) => a.existingId && assetIds.set(i, a.existingId));
+
+      if (validatedAssets.size > 0) {
+        const indexes = [...validatedAssets.keys()];
+        const { data, error } = await supabase
+          .from("assets")
+          .insert(
+            indexes.map((i) => {
+              const a = validatedAssets.get(i)!;
+              return {
+                user_id: user.id,
+                will_id: willId,
+                name: a.name,
+                category: a.category,
+                estimated_value: a.estimated_value,
+                description: a.description || null,
+              };
+            })
+          )
+          .select("id");
+        if (error) throw error;
+        indexes.forEach((assetIndex, i) => assetIds.set(assetIndex, data[i].id));
+        setAssets((prev) => prev.map((a, i) => (assetIds.has(i) ? { ...a, existingId: assetIds.get(i) } : a)));
+      }
+
+      // Proposed allocations replace whatever an existing asset had before; each asset is
+      // saved in one call, so a failure leaves its previous allocations in place
+      for (const assetIndex of new Set(activeAllocations.map((a) => a.assetIndex))) {
+        const { data, error } = await supabase.rpc("save_asset_allocations", {
+          p_asset_id: assetIds.get(assetIndex)!,
+          p_allocations: activeAllocations
+            .filter((a) => a.assetIndex === assetIndex)
+            .map((a) => ({
+              recipient_id: recipientIds.get(a.recipientIndex)!,
+              allocation_kind: "percentage",
+              allocation_percentage: parseFloat(a.percentage),
+              fixed_amount: null,
+              lapse_rule: "redistribute",
+              contingent_recipient_ids: [],
+              notes: a.notes.trim() || null,
+            })),
+        });
+        if (error) throw error;
+
+        const result = data as unknown as { ok: boolean; message?: string };
+        if (!result.ok) {
+          toast.error(`${assets[assetIndex].name}: ${result.message}`);
+          return;
+        }
+      }
+
+      toast.success("Details added to your estate");
+      onComplete();
+    } catch (error) {
+      console.error("Error saving extracted details:", error);
+      toast.error("Failed to save extracted details");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <Loader2 className="w-8 h-8 animate-spin text-gold" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <div className="flex items-start gap-3">
+          <Sparkles className="w-5 h-5 text-gold shrink-0 mt-0.5" />
+          <p className="text-sm text-muted-foreground">
+            We picked out these details from your conversation. Accept, edit or reject each one before it is added to your assets and recipients.
+          </p>
+        </div>
+
+        {/* Recipients */}
+        <div>
+          <h3 className="flex items-center gap-2 font-semibold text-foreground mb-3">
+            <Users className="w-4 h-4" />
+            Recipients ({recipients.length})
+          </h3>
+          <div className="space-y-2">
+            {recipients.map((r, index) => (
+              <div key={index} className={`flex items-start gap-3 p-3 rounded-lg bg-secondary/50 ${r.decision === "rejected" ? "opacity-50" : ""}`}>
+                <div className="flex-1 grid grid-cols-2 gap-2">
+                  <input
+                    value={r.full_name}
+                    onChange={(e) => updateRecipient(index, { full_name: e.target.value })}
+                    placeholder="Full name"
+                    className="input-elevated"
+                    disabled={!!r.existingId}
+                  />
+                  <input
+                    value={r.relationship}
+                    onChange={(e) => updateRecipient(index, { relationship: e.target.value })}
+                    placeholder="Relationship"
+                    className="input-elevated"
+                    disabled={!!r.existingId}
+                  />
+                  <input
+                    value={r.email}
+                    onChange={(e) => updateRecipient(index, { email: e.target.value })}
+                    placeholder="Email (optional)"
+                    className="input-elevated"
+                    disabled={!!r.existingId}
+                  />
+                  <input
+                    value={r.phone}
+                    onChange={(e) => updateRecipient(index, { phone: e.target.value })}
+                    placeholder="Phone (optional)"
+                    className="input-elevated"
+                    disabled={!!r.existingId}
+                  />
+                  {r.existingId && (
+                    <p className="col-span-2 text-xs text-muted-foreground">Already in your recipients - will be reused.</p>
+                  )}
+                </div>
+                <DecisionToggle decision={r.decision} onChange={(decision) => updateRecipient(index, { decision })} />
+              </div>
+            ))}
+            {recipients.length === 0 && <p className="text-sm text-muted-foreground">No recipients mentioned.</p>}
+          </div>
+        </div>
+
+        {/* Assets */}
+        <div>
+          <h3 className="flex items-center gap-2 font-semibold text-foreground mb-3">
+            <FolderOpen className="w-4 h-4" />
+            Assets ({assets.length})
+          </h3>
+          <div className="space-y-2">
+            {assets.map((a, index) => (
+              <div key={index} className={`flex items-start gap-3 p-3 rounded-lg bg-secondary/50 ${a.decision === "rejected" ? "opacity-50" : ""}`}>
+                <div className="flex-1 grid grid-cols-2 gap-2">
+                  <input
+                    value={a.name}
+                    onChange={(e) => updateAsset(index, { name: e.target.value })}
+                    placeholder="Asset name"
+                    className="input-elevated"
+                    disabled={!!a.existingId}
+                  />
+                  <select
+                    value={a.category}
+                    onChange={(e) => updateAsset(index, { category: e.target.value as AssetCategory })}
+                    className="input-elevated capitalize"
+                    disabled={!!a.existingId}
+                  >
+                    {CATEGORIES.map((c) => (
+                      <option key={c} value={c}>
+                        {c.replace("_", " ")}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={a.estimated_value}
+                    onChange={(e) => updateAsset(index, { estimated_value: e.target.value })}
+                    placeholder="Estimated value"
+                    className="input-elevated"
+                    disabled={!!a.existingId}
+                  />
+                  <input
+                    value={a.description}
+                    onChange={(e) => updateAsset(index, { description: e.target.value })}
+                    placeholder="Description"
+                    className="input-elevated"
+                    disabled={!!a.existingId}
+                  />
+                  {a.existingId && (
+                    <p className="col-span-2 text-xs text-muted-foreground">Already in your assets - will be reused.</p>
+                  )}
+                </div>
+                <DecisionToggle decision={a.decision} onChange={(decision) => updateAsset(index, { decision })} />
+              </div>
+            ))}
+            {assets.length === 0 && <p className="text-sm text-muted-foreground">No assets mentioned.</p>}
+          </div>
+        </div>
+
+        {/* Allocations */}
+        <div>
+          <h3 className="flex items-center gap-2 font-semibold text-foreground mb-3">
+            <Percent className="w-4 h-4" />
+            Allocations ({allocations.length})
+          </h3>
+          <div className="space-y-2">
+            {allocations.map((a, index) => (
+              <div key={index} className={`flex items-center gap-3 p-3 rounded-lg bg-secondary/50 ${isAllocationActive(a) ? "" : "opacity-50"}`}>
+                <p className="flex-1 text-sm text-foreground">
+                  <span className="font-medium">{assets[a.assetIndex]?.name}</span>
+                  <span className="text-muted-foreground"> to </span>
+                  <span className="font-medium">{recipients[a.recipientIndex]?.full_name}</span>
+                </p>
+                <div className="relative w-24">
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={a.percentage}
+                    onChange={(e) => updateAllocation(index, { percentage: e.target.value })}
+                    className="input-elevated pr-8 text-right"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+                </div>
+                <DecisionToggle decision={a.decision} onChange={(decision) => updateAllocation(index, { decision })} />
+              </div>
+            ))}
+            {allocations.length === 0 && <p className="text-sm text-muted-foreground">No allocations mentioned.</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="border-t border-border p-4 flex gap-3">
+        <Button variant="ghost" className="flex-1" onClick={onSkip} disabled={saving}>
+          Skip for Now
+        </Button>
+        <Button variant="gold" className="flex-1 gap-2" onClick={handleConfirm} disabled={saving}>
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+          Add Accepted Details
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ExtractionReview;
@@ -0,0 +1,223 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle, Loader2, Lock, ShieldCheck, XCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+interface Seal {
+  id: string;
+  sequence_number: number;
+  seal_hash: string;
+  created_at: string;
+}
+
+interface VerifiedItem {
+  kind: "content" | "transcript" | "recording" | "asset_document";
+  label: string;
+  path?: string;
+  sha256: string | null;
+  size: number;
+  currentSha256: string | null;
+  // "added" is content that wasn't there when the will was first sealed
+  status: "ok" | "mismatch" | "missing" | "added";
+}
+
+interface Verification {
+  intact: boolean;
+  chainValid: boolean;
+  verifiedAt: string;
+  items: VerifiedItem[];
+}
+
+interface SealVerificationProps {
+  willId: string;
+}
+
+const kindLabels: Record<VerifiedItem["kind"], string> = {
+  content: "Text",
+  transcript: "Transcript",
+  recording: "Recording",
+  asset_document: "Asset document",
+};
+
+const shortHash = (hash: string | null) => (hash ? `${hash.slice(0, 12)}…` : "—");
+
+// Shows the seals recorded for a finalized will and re-checks the stored text, recording
+// and documents against the first seal through the will-seal function. A finalized will
+// that couldn't be sealed when it was finalized is sealed the next time this is shown.
+const SealVerification = ({ willId }: SealVerificationProps) => {
+  const [seals, setSeals] = useState<Seal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isSealing, setIsSealing] = useState(false);
+  const retriedSeal = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    supabase
+      .from("will_seals")
+      .select("id, sequence_number, seal_hash, created_at")
+      .eq("will_id", willId)
+      .order("sequence_number")
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching seals:", error);
+          toast.error("Failed to load will seals");
+        }
+        setSeals(data || []);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [willId, reloadKey]);
+
+  useEffect(() => {
+    if (loading || seals.length > 0 || retriedSeal.current) return;
+    retriedSeal.current = true;
+
+    setIsSealing(true);
+    supabase.functions
+      .invoke("will-seal", { body: { action: "seal", willId } })
+      .then(({ error }) => {
+        if (error) {
+          console.error("Error sealing will:", error);
+        } else {
+          setReloadKey((k) => k + 1);
+        }
+        setIsSealing(false);
+      });
+  }, [loading, seals.length, willId]);
+
+  const handleSeal = async () => {
+    setIsSealing(true);
+    try {
+      const { error } = await supabase.functions.invoke("will-seal", {
+        body: { action: "seal", willId },
+      });
+      if (error) throw error;
+
+      toast.success("Will sealed");
+      setVerification(null);
+      setReloadKey((k) => k + 1);
+    } catch (error) {
+      console.error("Error sealing will:", error);
+      toast.error("Failed to seal will");
+    } finally {
+      setIsSealing(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("will-seal", {
+        body: { action: "verify", willId },
+      });
+      if (error) throw error;
+
+      setVerification(data as Verification);
+      if (data.intact) {
+        toast.success("Everything matches the seal");
+      } else {
+        toast.error("Some sealed content has changed");
+      }
+    } catch (error) {
+      console.error("Error verifying will:", error);
+      toast.error("Failed to verify will");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gold" />
+      </div>
+    );
+  }
+
+  if (seals.length === 0) {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          This will has not been sealed. Sealing records a fingerprint of its text, recording and documents so any
+          later change can be detected.
+        </p>
+        <Button variant="gold" size="sm" className="gap-1 shrink-0" onClick={handleSeal} disabled={isSealing}>
+          {isSealing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Lock className="w-3 h-3" />}
+          Seal Will
+        </Button>
+      </div>
+    );
+  }
+
+  const latest = seals[seals.length - 1];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-sm text-foreground">
+            Sealed {new Date(latest.created_at).toLocaleString()}
+            {seals.length > 1 && <span className="text-muted-foreground"> • {seals.length} seals</span>}
+          </p>
+          <p className="text-xs text-muted-foreground font-mono truncate">{latest.seal_hash}</p>
+        </div>
+        <Button variant="outline" size="sm" className="gap-1 shrink-0" onClick={handleVerify} disabled={isVerifying}>
+          {isVerifying ? <Loader2 className="w-3 h-3 animate-spin" /> : <ShieldCheck className="w-3 h-3" />}
+          Verify
+        </Button>
+      </div>
+
+      {verification && (
+        <div className="space-y-2">
+          {verification.intact ? (
+            <div className="flex items-center gap-2 text-sm text-sage-dark bg-sage/30 p-3 rounded-lg">
+              <CheckCircle className="w-4 h-4 shrink-0" />
+              Everything matches the seal (checked {new Date(verification.verifiedAt).toLocaleString()})
+            </div>
+          ) : (
+            <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {verification.chainValid
+                ? "Some sealed content no longer matches the seal."
+                : "The seal history has been altered and can't be trusted."}
+            </div>
+          )}
+
+          {verification.items.map((item, index) => (
+            <div key={`${item.kind}-${item.path || index}`} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+              {item.status === "ok" ? (
+                <CheckCircle className="w-4 h-4 text-sage-dark shrink-0" />
+              ) : (
+                <XCircle className="w-4 h-4 text-destructive shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{item.label}</p>
+                <p className="text-xs text-muted-foreground">{kindLabels[item.kind]}</p>
+              </div>
+              <div className="text-right text-xs font-mono">
+                <p className="text-muted-foreground">{shortHash(item.sha256)}</p>
+                {item.status !== "ok" && (
+                  <p className="text-destructive">
+                    {item.status === "missing" ? "missing" : item.status === "added" ? "not sealed" : shortHash(item.currentSha256)}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SealVerification;
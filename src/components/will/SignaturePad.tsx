@@ -0,0 +1,178 @@
+import { useState, useRef } from "react";
+import { Eraser, PenLine, Type } from "lucide-react";
+import {
+  decodeStrokes,
+  encodeStrokes,
+  SIGNATURE_ASPECT,
+  type SignatureInput,
+  type SignatureStroke,
+  type SignatureType,
+} from "@/lib/signature";
+
+const VIEW_WIDTH = 300;
+const VIEW_HEIGHT = VIEW_WIDTH / SIGNATURE_ASPECT;
+
+const strokePoints = (stroke: SignatureStroke) =>
+  stroke.map(([x, y]) => `${x * VIEW_WIDTH},${y * VIEW_HEIGHT}`).join(" ");
+
+export const SignatureView = ({ signature, className = "" }: { signature: SignatureInput; className?: string }) =>
+  signature.type === "typed" ? (
+    <p className={`font-serif italic text-2xl text-foreground truncate ${className}`}>{signature.data}</p>
+  ) : (
+    <svg viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`} className={`w-full max-w-xs h-auto ${className}`}>
+      {decodeStrokes(signature.data).map((stroke, index) => (
+        <polyline
+          key={index}
+          points={strokePoints(stroke)}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+
+interface SignaturePadProps {
+  value: SignatureInput | null;
+  onChange: (value: SignatureInput | null) => void;
+  disabled?: boolean;
+}
+
+const SignaturePad = ({ value, onChange, disabled }: SignaturePadProps) => {
+  const [mode, setMode] = useState<SignatureType>(value?.type || "typed");
+  const [strokes, setStrokes] = useState<SignatureStroke[]>(() =>
+    value?.type === "drawn" ? decodeStrokes(value.data) : [],
+  );
+  const drawing = useRef(false);
+
+  const switchMode = (next: SignatureType) => {
+    setMode(next);
+    setStrokes([]);
+    onChange(null);
+  };
+
+  const pointFrom = (e: React.PointerEvent<SVGSVGElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    setStrokes((prev) => [...prev, [pointFrom(e)]]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drawing.current) return;
+    const point = pointFrom(e);
+    setStrokes((prev) => [...prev.slice(0, -1), [...prev[prev.length - 1], point]]);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    const encoded = encodeStrokes(strokes);
+    onChange(decodeStrokes(encoded).length ? { type: "drawn", data: encoded } : null);
+  };
+
+  const clear = () => {
+    setStrokes([]);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="inline-flex rounded-lg bg-secondary p-1">
+        {(
+          [
+            { id: "typed", label: "Type", icon: Type },
+            { id: "drawn", label: "Draw", icon: PenLine },
+          ] as const
+        ).map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => mode !== option.id && switchMode(option.id)}
+            disabled={disabled}
+            className={`inline-flex items-center gap-1 px-3 py-1 rounded-md text-sm transition-colors ${
+              mode === option.id ? "bg-card text-foreground shadow-sm" : "text-muted-foreground"
+            }`}
+          >
+            <option.icon className="w-3 h-3" />
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "typed" ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={value?.type === "typed" ? value.data : ""}
+            onChange={(e) => onChange(e.target.value ? { type: "typed", data: e.target.value } : null)}
+            placeholder="Type your full name"
+            maxLength={100}
+            disabled={disabled}
+            className="input-elevated"
+          />
+          {value?.type === "typed" && value.data.trim() && (
+            <div className="border-b border-foreground/40 pb-1">
+              <SignatureView signature={value} />
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <svg
+            viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+            className="w-full h-auto rounded-lg border border-border bg-card touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          >
+            <line
+              x1={16}
+              y1={VIEW_HEIGHT * 0.8}
+              x2={VIEW_WIDTH - 16}
+              y2={VIEW_HEIGHT * 0.8}
+              className="stroke-border"
+              strokeDasharray="4 4"
+            />
+            {strokes.map((stroke, index) => (
+              <polyline
+                key={index}
+                points={strokePoints(stroke)}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={2}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            ))}
+          </svg>
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Sign above the line</span>
+            <button
+              type="button"
+              onClick={clear}
+              disabled={disabled || strokes.length === 0}
+              className="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-50"
+            >
+              <Eraser className="w-3 h-3" />
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignaturePad;
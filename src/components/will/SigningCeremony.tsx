@@ -0,0 +1,345 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle, Clock, Eye, Loader2, Plus, RefreshCw, Send, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import SignaturePad, { SignatureView } from "@/components/will/SignaturePad";
+import { witnessSchema, type WitnessInput } from "@/lib/validations";
+import { isSignatureComplete, type SignatureInput, type SignatureType } from "@/lib/signature";
+import { fetchWillHash, type WillPackage } from "@/lib/willPackage";
+
+interface Witness {
+  id: string;
+  full_name: string;
+  email: string;
+  status: string;
+  document_hash: string;
+  viewed_at: string | null;
+  signed_at: string | null;
+}
+
+interface Signature {
+  id: string;
+  witness_id: string | null;
+  role: string;
+  signer_name: string;
+  signature_type: string;
+  signature_data: string;
+  document_hash: string;
+  signed_at: string;
+}
+
+interface SigningCeremonyProps {
+  pkg: WillPackage;
+  finalized: boolean;
+  onCompleteChange: (complete: boolean) => void;
+  onStatusChange: () => void;
+}
+
+const MAX_WITNESSES = 5;
+const emptyWitness: WitnessInput = { full_name: "", email: "" };
+
+// The owner signs and invites witnesses, who sign from an emailed link. The will can be
+// finalized once every active witness has signed the same version the owner signed.
+const SigningCeremony = ({ pkg, finalized, onCompleteChange, onStatusChange }: SigningCeremonyProps) => {
+  const willId = pkg.will.id;
+  const [witnesses, setWitnesses] = useState<Witness[]>([]);
+  const [signatures, setSignatures] = useState<Signature[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [documentHash, setDocumentHash] = useState<string | null>(null);
+  const [draftWitnesses, setDraftWitnesses] = useState<WitnessInput[]>([emptyWitness]);
+  const [signature, setSignature] = useState<SignatureInput | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    Promise.all([
+      supabase
+        .from("will_witnesses")
+        .select("id, full_name, email, status, document_hash, viewed_at, signed_at")
+        .eq("will_id", willId)
+        .neq("status", "revoked")
+        .order("created_at"),
+      supabase
+        .from("will_signatures")
+        .select("id, witness_id, role, signer_name, signature_type, signature_data, document_hash, signed_at")
+        .eq("will_id", willId)
+        .order("signed_at"),
+    ]).then(([witnessesRes, signaturesRes]) => {
+      if (cancelled) return;
+      const error = witnessesRes.error || signaturesRes.error;
+      if (error) {
+        console.error("Error fetching signing status:", error);
+        toast.error("Failed to load signing status");
+      }
+      setWitnesses(witnessesRes.data || []);
+      setSignatures(signaturesRes.data || []);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [willId, reloadKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWillHash(pkg.will.id)
+      .then((hash) => {
+        if (!cancelled) setDocumentHash(hash);
+      })
+      .catch((error) => console.error("Error fetching will hash:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pkg]);
+
+  const ceremonyHash = witnesses[0]?.document_hash || null;
+  const ownerSignature = [...signatures]
+    .reverse()
+    .find((s) => s.role === "testator" && s.document_hash === ceremonyHash);
+  const isActive = witnesses.length > 0;
+  const isStale = isActive && !!documentHash && ceremonyHash !== documentHash && !finalized;
+  const isComplete =
+    isActive && !!ownerSignature && witnesses.every((w) => w.status === "signed") && ceremonyHash === documentHash;
+
+  useEffect(() => {
+    onCompleteChange(isComplete);
+  }, [isComplete, onCompleteChange]);
+
+  const updateDraft = (index: number, field: keyof WitnessInput, value: string) =>
+    setDraftWitnesses((prev) => prev.map((w, i) => (i === index ? { ...w, [field]: value } : w)));
+
+  const handleInvite = async () => {
+    const parsed = [];
+    for (const witness of draftWitnesses) {
+      const validation = witnessSchema.safeParse(witness);
+      if (!validation.success) {
+        toast.error(validation.error.errors[0].message);
+        return;
+      }
+      parsed.push(validation.data);
+    }
+    if (new Set(parsed.map((w) => w.email.toLowerCase())).size !== parsed.length) {
+      toast.error("Each witness needs a different email address");
+      return;
+    }
+    if (!isSignatureComplete(signature)) {
+      toast.error("Please sign the will first");
+      return;
+    }
+    if (!documentHash) return;
+
+    setIsSending(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("will-signing", {
+        body: {
+          action: "invite",
+          willId,
+          documentHash,
+          signature,
+          witnesses: parsed.map((w) => ({ fullName: w.full_name, email: w.email })),
+        },
+      });
+      if (error) throw error;
+
+      if (data?.sent < data?.total) {
+        toast.warning(`Signed, but only ${data.sent} of ${data.total} invitations could be sent`);
+      } else {
+        toast.success(`Signed and sent ${data?.total} witness invitation(s)`);
+      }
+      setSignature(null);
+      setDraftWitnesses([emptyWitness]);
+      setReloadKey((k) => k + 1);
+      onStatusChange();
+    } catch (error) {
+      console.error("Error starting signing:", error);
+      toast.error("Failed to send witness invitations");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const { error } = await supabase.functions.invoke("will-signing", {
+        body: { action: "cancel", willId },
+      });
+      if (error) throw error;
+
+      toast.success("Signing cancelled");
+      setReloadKey((k) => k + 1);
+      onStatusChange();
+    } catch (error) {
+      console.error("Error cancelling signing:", error);
+      toast.error("Failed to cancel signing");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const witnessStatus = (witness: Witness) =>
+    witness.status === "signed" ? (
+      <span className="flex items-center gap-1 text-xs text-sage-dark">
+        <CheckCircle className="w-3 h-3" />
+        Signed {witness.signed_at && new Date(witness.signed_at).toLocaleDateString()}
+      </span>
+    ) : witness.viewed_at ? (
+      <span className="flex items-center gap-1 text-xs text-gold">
+        <Eye className="w-3 h-3" />
+        Viewed
+      </span>
+    ) : (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Clock className="w-3 h-3" />
+        Invited
+      </span>
+    );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gold" />
+      </div>
+    );
+  }
+
+  if (!isActive) {
+    if (finalized) {
+      return <p className="text-sm text-muted-foreground">This will was finalized without a recorded signing.</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Sign your will, then invite one or more witnesses. Each witness receives a personal link to review and sign
+          it. You can finalize once every witness has signed.
+        </p>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-foreground">Witnesses</p>
+          {draftWitnesses.map((witness, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={witness.full_name}
+                onChange={(e) => updateDraft(index, "full_name", e.target.value)}
+                placeholder="Full name"
+                maxLength={100}
+                className="input-elevated"
+              />
+              <input
+                type="email"
+                value={witness.email}
+                onChange={(e) => updateDraft(index, "email", e.target.value)}
+                placeholder="Email address"
+                maxLength={255}
+                className="input-elevated"
+              />
+              <button
+                onClick={() => setDraftWitnesses((prev) => prev.filter((_, i) => i !== index))}
+                disabled={draftWitnesses.length === 1}
+                className="p-2 rounded-lg hover:bg-destructive/10 disabled:opacity-30"
+                title="Remove witness"
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </button>
+            </div>
+          ))}
+          {draftWitnesses.length < MAX_WITNESSES && (
+            <button
+              onClick={() => setDraftWitnesses((prev) => [...prev, emptyWitness])}
+              className="inline-flex items-center gap-1 text-sm text-gold hover:underline"
+            >
+              <Plus className="w-4 h-4" />
+              Add witness
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-foreground">Your signature</p>
+          <SignaturePad value={signature} onChange={setSignature} disabled={isSending} />
+        </div>
+
+        {pkg.will.status === "draft" ? (
+          <p className="text-sm text-muted-foreground">Save your will before signing it.</p>
+        ) : (
+          <Button
+            variant="gold"
+            className="gap-2"
+            onClick={handleInvite}
+            disabled={isSending || !documentHash || !isSignatureComplete(signature)}
+          >
+            {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            Sign & Invite Witnesses
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {isStale && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          Your will has changed since it was signed. Cancel this signing and sign again so witnesses attest the
+          current version.
+        </div>
+      )}
+
+      {ownerSignature && (
+        <div className="p-3 rounded-lg bg-secondary/50">
+          <p className="text-xs text-muted-foreground mb-1">
+            Signed by {ownerSignature.signer_name} on {new Date(ownerSignature.signed_at).toLocaleString()}
+          </p>
+          <SignatureView
+            signature={{ type: ownerSignature.signature_type as SignatureType, data: ownerSignature.signature_data }}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {witnesses.map((witness) => {
+          const signed = signatures.find((s) => s.witness_id === witness.id);
+          return (
+            <div key={witness.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{witness.full_name}</p>
+                <p className="text-xs text-muted-foreground truncate">{witness.email}</p>
+              </div>
+              {signed && (
+                <SignatureView
+                  signature={{ type: signed.signature_type as SignatureType, data: signed.signature_data }}
+                  className="max-w-[8rem] text-base"
+                />
+              )}
+              {witnessStatus(witness)}
+            </div>
+          );
+        })}
+      </div>
+
+      {!finalized && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="ghost" size="sm" className="gap-1" onClick={() => setReloadKey((k) => k + 1)}>
+            <RefreshCw className="w-3 h-3" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" onClick={handleCancel} disabled={isCancelling}>
+            {isCancelling ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+            {isStale ? "Cancel & Sign Again" : "Cancel Signing"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SigningCeremony;
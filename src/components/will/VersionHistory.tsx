@@ -0,0 +1,256 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader2, History, RotateCcw, GitCompare } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { diffText, type DiffPart } from "@/lib/diff";
+
+interface WillVersion {
+  id: string;
+  version_number: number;
+  title: string;
+  status: string;
+  content: string | null;
+  transcript: string | null;
+  audio_url: string | null;
+  video_url: string | null;
+  restored_from: string | null;
+  created_at: string;
+}
+
+interface VersionHistoryProps {
+  willId: string;
+  canRestore: boolean;
+  open: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const DiffView = ({ label, parts }: { label: string; parts: DiffPart[] }) => {
+  if (parts.length === 0) return null;
+  const changed = parts.some((p) => p.type !== "equal");
+
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground mb-1">
+        {label}
+        {!changed && <span className="ml-2 text-xs">(no changes)</span>}
+      </p>
+      <div className="max-h-64 overflow-y-auto text-sm bg-secondary/50 p-3 rounded-lg whitespace-pre-wrap break-words">
+        {parts.map((part, index) =>
+          part.type === "added" ? (
+            <ins key={index} className="bg-sage/40 no-underline">{part.text}</ins>
+          ) : part.type === "removed" ? (
+            <del key={index} className="bg-destructive/15 text-destructive">{part.text}</del>
+          ) : (
+            <span key={index}>{part.text}</span>
+          ),
+        )}
+      </div>
+    </div>
+  );
+};
+
+const VersionHistory = ({ willId, canRestore, open, onClose, onRestored }: VersionHistoryProps) => {
+  const [versions, setVersions] = useState<WillVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [baseId, setBaseId] = useState("");
+  const [compareId, setCompareId] = useState("");
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    setLoading(true);
+    supabase
+      .from("will_versions")
+      .select("id, version_number, title, status, content, transcript, audio_url, video_url, restored_from, created_at")
+      .eq("will_id", willId)
+      .order("version_number", { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching will versions:", error);
+          toast.error("Failed to load version history");
+        } else {
+          const rows = data || [];
+          setVersions(rows);
+          setCompareId(rows[0]?.id || "");
+          setBaseId(rows[1]?.id || rows[0]?.id || "");
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, willId, reloadKey]);
+
+  const base = versions.find((v) => v.id === baseId);
+  const compare = versions.find((v) => v.id === compareId);
+
+  const contentDiff = useMemo(() => (base && compare ? diffText(base.content, compare.content) : []), [base, compare]);
+  const transcriptDiff = useMemo(
+    () => (base && compare ? diffText(base.transcript, compare.transcript) : []),
+    [base, compare],
+  );
+
+  const versionLabel = (id: string | null) => {
+    const version = versions.find((v) => v.id === id);
+    return version ? `v${version.version_number}` : "an earlier version";
+  };
+
+  const handleRestore = async (version: WillVersion) => {
+    setRestoringId(version.id);
+    try {
+      const { error } = await supabase.rpc("restore_will_version", { p_version_id: version.id });
+      if (error) throw error;
+
+      toast.success(`Restored version ${version.version_number}`);
+      setConfirmingId(null);
+      setReloadKey((k) => k + 1);
+      onRestored();
+    } catch (error) {
+      console.error("Error restoring will version:", error);
+      toast.error("Failed to restore version");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const metadataChanges =
+    base && compare
+      ? [
+          base.title !== compare.title && `Title: "${base.title}" → "${compare.title}"`,
+          base.status !== compare.status && `Status: ${base.status} → ${compare.status}`,
+          base.audio_url !== compare.audio_url && "Audio recording changed",
+          base.video_url !== compare.video_url && "Video recording changed",
+        ].filter(Boolean)
+      : [];
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-foreground/20 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="card-elevated w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <History className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">Version History</h2>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-secondary rounded-lg">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-gold" />
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No versions have been recorded yet.</p>
+            ) : (
+              <div className="space-y-6">
+                {/* Compare */}
+                <div className="space-y-4">
+                  <div className="flex items-center gap-3">
+                    <GitCompare className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className="input-elevated flex-1">
+                      {versions.map((v) => (
+                        <option key={v.id} value={v.id}>
+                          v{v.version_number} — {new Date(v.created_at).toLocaleString()}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <select value={compareId} onChange={(e) => setCompareId(e.target.value)} className="input-elevated flex-1">
+                      {versions.map((v) => (
+                        <option key={v.id} value={v.id}>
+                          v{v.version_number} — {new Date(v.created_at).toLocaleString()}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {metadataChanges.length > 0 && (
+                    <ul className="text-sm text-foreground space-y-1">
+                      {metadataChanges.map((change) => (
+                        <li key={change as string}>• {change}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <DiffView label="Content" parts={contentDiff} />
+                  <DiffView label="Transcript" parts={transcriptDiff} />
+
+                  {contentDiff.length === 0 && transcriptDiff.length === 0 && metadataChanges.length === 0 && (
+                    <p className="text-sm text-muted-foreground">These versions have no text to compare.</p>
+                  )}
+                </div>
+
+                {/* Versions */}
+                <div className="border-t border-border pt-4 space-y-2">
+                  {versions.map((version, index) => (
+                    <div key={version.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          Version {version.version_number}
+                          {index === 0 && <span className="ml-2 text-xs text-gold">Current</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(version.created_at).toLocaleString()} • <span className="capitalize">{version.status}</span>
+                          {version.restored_from && ` • Restored from ${versionLabel(version.restored_from)}`}
+                        </p>
+                      </div>
+                      {canRestore &&
+                        index > 0 &&
+                        (confirmingId === version.id ? (
+                          <div className="flex items-center gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => setConfirmingId(null)} disabled={!!restoringId}>
+                              Cancel
+                            </Button>
+                            <Button variant="gold" size="sm" onClick={() => handleRestore(version)} disabled={!!restoringId}>
+                              {restoringId === version.id ? <Loader2 className="w-4 h-4 animate-spin" /> : "Confirm Restore"}
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => setConfirmingId(version.id)}
+                            disabled={!!restoringId}
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Restore
+                          </Button>
+                        ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default VersionHistory;
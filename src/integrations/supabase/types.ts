@@ -14,28 +14,76 @@ export type Database = {
   }
   public: {
     Tables: {
+      allocation_contingents: {
+        Row: {
+          allocation_id: string
+          created_at: string
+          id: string
+          position: number
+          recipient_id: string
+        }
+        Insert: {
+          allocation_id: string
+          created_at?: string
+          id?: string
+          position: number
+          recipient_id: string
+        }
+        Update: {
+          allocation_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          recipient_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "allocation_contingents_allocation_id_fkey"
+            columns: ["allocation_id"]
+            isOneToOne: false
+            referencedRelation: "asset_allocations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "allocation_contingents_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "recipients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       asset_allocations: {
         Row: {
-          allocation_percentage: number
+          allocation_kind: string
+          allocation_percentage: number | null
           asset_id: string
           created_at: string
+          fixed_amount: number | null
           id: string
+          lapse_rule: string
           notes: string | null
           recipient_id: string
         }
         Insert: {
-          allocation_percentage: number
+          allocation_kind?: string
+          allocation_percentage?: number | null
           asset_id: string
           created_at?: string
+          fixed_amount?: number | null
           id?: string
+          lapse_rule?: string
           notes?: string | null
           recipient_id: string
         }
         Update: {
-          allocation_percentage?: number
+          allocation_kind?: string
+          allocation_percentage?: number | null
           asset_id?: string
           created_at?: string
+          fixed_amount?: number | null
           id?: string
+          lapse_rule?: string
           notes?: string | null
           recipient_id?: string
         }
@@ -56,45 +104,104 @@ export type Database = {
           },
         ]
       }
+      asset_documents: {
+        Row: {
+          asset_id: string
+          created_at: string
+          description: string | null
+          id: string
+          mime_type: string | null
+          name: string
+          size_bytes: number | null
+          storage_path: string
+          updated_at: string
+          uploaded_at: string
+          user_id: string
+        }
+        Insert: {
+          asset_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          mime_type?: string | null
+          name: string
+          size_bytes?: number | null
+          storage_path: string
+          updated_at?: string
+          uploaded_at?: string
+          user_id: string
+        }
+        Update: {
+          asset_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          mime_type?: string | null
+          name?: string
+          size_bytes?: number | null
+          storage_path?: string
+          updated_at?: string
+          uploaded_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_documents_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assets: {
         Row: {
           category: Database["public"]["Enums"]["asset_category"]
+          co_owners: string | null
           created_at: string
-          currency: string | null
+          currency: string
           description: string | null
-          documents_url: string | null
+          details: Json
           estimated_value: number | null
           id: string
           location: string | null
           name: string
+          ownership_percentage: number
+          right_of_survivorship: boolean
           updated_at: string
           user_id: string
           will_id: string | null
         }
         Insert: {
           category?: Database["public"]["Enums"]["asset_category"]
+          co_owners?: string | null
           created_at?: string
-          currency?: string | null
+          currency?: string
           description?: string | null
-          documents_url?: string | null
+          details?: Json
           estimated_value?: number | null
           id?: string
           location?: string | null
           name: string
+          ownership_percentage?: number
+          right_of_survivorship?: boolean
           updated_at?: string
           user_id: string
           will_id?: string | null
         }
         Update: {
           category?: Database["public"]["Enums"]["asset_category"]
+          co_owners?: string | null
           created_at?: string
-          currency?: string | null
+          currency?: string
           description?: string | null
-          documents_url?: string | null
+          details?: Json
           estimated_value?: number | null
           id?: string
           location?: string | null
           name?: string
+          ownership_percentage?: number
+          right_of_survivorship?: boolean
           updated_at?: string
           user_id?: string
           will_id?: string | null
@@ -109,12 +216,150 @@ export type Database = {
           },
         ]
       }
+      chat_usage_events: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          id: string
+          mode: string
+          prompt_tokens: number
+          recorded_at: string | null
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          id?: string
+          mode?: string
+          prompt_tokens?: number
+          recorded_at?: string | null
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          id?: string
+          mode?: string
+          prompt_tokens?: number
+          recorded_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_usage_limits: {
+        Row: {
+          created_at: string
+          max_requests_per_hour: number
+          max_tokens_per_day: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          max_requests_per_hour?: number
+          max_tokens_per_day?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          max_requests_per_hour?: number
+          max_tokens_per_day?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          as_of: string
+          base_currency: string
+          created_at: string
+          id: string
+          quote_currency: string
+          rate: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          as_of?: string
+          base_currency: string
+          created_at?: string
+          id?: string
+          quote_currency: string
+          rate: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          as_of?: string
+          base_currency?: string
+          created_at?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      liabilities: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          currency: string
+          id: string
+          lender: string | null
+          name: string
+          notes: string | null
+          secured_asset_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          lender?: string | null
+          name: string
+          notes?: string | null
+          secured_asset_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          lender?: string | null
+          name?: string
+          notes?: string | null
+          secured_asset_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liabilities_secured_asset_id_fkey"
+            columns: ["secured_asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           full_name: string | null
           id: string
+          reporting_currency: string
           updated_at: string
           user_id: string
         }
@@ -123,6 +368,7 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
+          reporting_currency?: string
           updated_at?: string
           user_id: string
         }
@@ -131,6 +377,7 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
+          reporting_currency?: string
           updated_at?: string
           user_id?: string
         }
@@ -144,6 +391,7 @@ export type Database = {
           full_name: string
           id: string
           is_verified: boolean
+          personal_message: string | null
           phone: string | null
           relationship: string | null
           updated_at: string
@@ -157,6 +405,7 @@ export type Database = {
           full_name: string
           id?: string
           is_verified?: boolean
+          personal_message?: string | null
           phone?: string | null
           relationship?: string | null
           updated_at?: string
@@ -170,6 +419,7 @@ export type Database = {
           full_name?: string
           id?: string
           is_verified?: boolean
+          personal_message?: string | null
           phone?: string | null
           relationship?: string | null
           updated_at?: string
@@ -178,12 +428,576 @@ export type Database = {
         }
         Relationships: []
       }
+      vault_item_grants: {
+        Row: {
+          created_at: string
+          recipient_key_id: string
+          user_id: string
+          vault_item_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          recipient_key_id: string
+          user_id: string
+          vault_item_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          recipient_key_id?: string
+          user_id?: string
+          vault_item_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vault_item_grants_recipient_key_id_fkey"
+            columns: ["recipient_key_id"]
+            isOneToOne: false
+            referencedRelation: "vault_recipient_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vault_item_grants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "vaults"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "vault_item_grants_vault_item_id_fkey"
+            columns: ["vault_item_id"]
+            isOneToOne: false
+            referencedRelation: "vault_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vault_items: {
+        Row: {
+          asset_id: string | null
+          ciphertext: string
+          created_at: string
+          id: string
+          item_type: string
+          updated_at: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          asset_id?: string | null
+          ciphertext: string
+          created_at?: string
+          id?: string
+          item_type?: string
+          updated_at?: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          asset_id?: string | null
+          ciphertext?: string
+          created_at?: string
+          id?: string
+          item_type?: string
+          updated_at?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vault_items_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vault_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "vaults"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      vault_recipient_keys: {
+        Row: {
+          access_code_hash: string
+          created_at: string
+          id: string
+          kdf_iterations: number
+          kdf_salt: string
+          recipient_id: string
+          user_id: string
+          wrapped_by_code: string
+          wrapped_by_vault: string
+        }
+        Insert: {
+          access_code_hash: string
+          created_at?: string
+          id?: string
+          kdf_iterations: number
+          kdf_salt: string
+          recipient_id: string
+          user_id: string
+          wrapped_by_code: string
+          wrapped_by_vault: string
+        }
+        Update: {
+          access_code_hash?: string
+          created_at?: string
+          id?: string
+          kdf_iterations?: number
+          kdf_salt?: string
+          recipient_id?: string
+          user_id?: string
+          wrapped_by_code?: string
+          wrapped_by_vault?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vault_recipient_keys_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "recipients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vault_recipient_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "vaults"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      vaults: {
+        Row: {
+          created_at: string
+          kdf_iterations: number
+          kdf_salt: string
+          release_delay_days: number
+          release_requested_at: string | null
+          release_requested_by: string | null
+          updated_at: string
+          user_id: string
+          wrapped_vault_key: string
+        }
+        Insert: {
+          created_at?: string
+          kdf_iterations: number
+          kdf_salt: string
+          release_delay_days?: number
+          release_requested_at?: string | null
+          release_requested_by?: string | null
+          updated_at?: string
+          user_id: string
+          wrapped_vault_key: string
+        }
+        Update: {
+          created_at?: string
+          kdf_iterations?: number
+          kdf_salt?: string
+          release_delay_days?: number
+          release_requested_at?: string | null
+          release_requested_by?: string | null
+          updated_at?: string
+          user_id?: string
+          wrapped_vault_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vaults_release_requested_by_fkey"
+            columns: ["release_requested_by"]
+            isOneToOne: false
+            referencedRelation: "recipients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      will_amendments: {
+        Row: {
+          content: string
+          created_at: string
+          finalized_at: string | null
+          id: string
+          reason: string | null
+          sequence_number: number
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+          will_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          finalized_at?: string | null
+          id?: string
+          reason?: string | null
+          sequence_number?: number
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+          will_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          finalized_at?: string | null
+          id?: string
+          reason?: string | null
+          sequence_number?: number
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          will_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "will_amendments_will_id_fkey"
+            columns: ["will_id"]
+            isOneToOne: false
+            referencedRelation: "wills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      will_chat_messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          position: number
+          role: string
+          updated_at: string
+          user_id: string
+          will_id: string
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          id?: string
+          position: number
+          role: string
+          updated_at?: string
+          user_id: string
+          will_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          position?: number
+          role?: string
+          updated_at?: string
+          user_id?: string
+          will_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "will_chat_messages_will_id_fkey"
+            columns: ["will_id"]
+            isOneToOne: false
+            referencedRelation: "wills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      will_seals: {
+        Row: {
+          created_at: string
+          id: string
+          manifest: string
+          previous_hash: string | null
+          seal_hash: string
+          sequence_number: number
+          user_id: string
+          will_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          manifest: string
+          previous_hash?: string | null
+          seal_hash: string
+          sequence_number?: number
+          user_id: string
+          will_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          manifest?: string
+          previous_hash?: string | null
+          seal_hash?: string
+          sequence_number?: number
+          user_id?: string
+          will_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "will_seals_will_id_fkey"
+            columns: ["will_id"]
+            isOneToOne: false
+            referencedRelation: "wills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      will_signatures: {
+        Row: {
+          created_at: string
+          document_hash: string
+          id: string
+          ip_address: string | null
+          role: string
+          signature_data: string
+          signature_type: string
+          signed_at: string
+          signer_name: string
+          user_agent: string | null
+          user_id: string
+          will_id: string
+          witness_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          document_hash: string
+          id?: string
+          ip_address?: string | null
+          role: string
+          signature_data: string
+          signature_type: string
+          signed_at?: string
+          signer_name: string
+          user_agent?: string | null
+          user_id: string
+          will_id: string
+          witness_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          document_hash?: string
+          id?: string
+          ip_address?: string | null
+          role?: string
+          signature_data?: string
+          signature_type?: string
+          signed_at?: string
+          signer_name?: string
+          user_agent?: string | null
+          user_id?: string
+          will_id?: string
+          witness_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "will_signatures_will_id_fkey"
+            columns: ["will_id"]
+            isOneToOne: false
+            referencedRelation: "wills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "will_signatures_witness_id_fkey"
+            columns: ["witness_id"]
+            isOneToOne: false
+            referencedRelation: "will_witnesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      will_transcriptions: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          duration_seconds: number | null
+          error: string | null
+          id: string
+          language: string | null
+          media_path: string
+          provider: string | null
+          segments: Json
+          started_at: string | null
+          status: Database["public"]["Enums"]["transcription_status"]
+          transcript: string | null
+          updated_at: string
+          user_id: string
+          will_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          error?: string | null
+          id?: string
+          language?: string | null
+          media_path: string
+          provider?: string | null
+          segments?: Json
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["transcription_status"]
+          transcript?: string | null
+          updated_at?: string
+          user_id: string
+          will_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          error?: string | null
+          id?: string
+          language?: string | null
+          media_path?: string
+          provider?: string | null
+          segments?: Json
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["transcription_status"]
+          transcript?: string | null
+          updated_at?: string
+          user_id?: string
+          will_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "will_transcriptions_will_id_fkey"
+            columns: ["will_id"]
+            isOneToOne: false
+            referencedRelation: "wills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      will_versions: {
+        Row: {
+          audio_url: string | null
+          content: string | null
+          created_at: string
+          id: string
+          restored_from: string | null
+          status: Database["public"]["Enums"]["will_status"]
+          title: string
+          transcript: string | null
+          type: Database["public"]["Enums"]["will_type"]
+          user_id: string
+          version_number: number
+          video_url: string | null
+          will_id: string
+        }
+        Insert: {
+          audio_url?: string | null
+          content?: string | null
+          created_at?: string
+          id?: string
+          restored_from?: string | null
+          status: Database["public"]["Enums"]["will_status"]
+          title: string
+          transcript?: string | null
+          type: Database["public"]["Enums"]["will_type"]
+          user_id: string
+          version_number: number
+          video_url?: string | null
+          will_id: string
+        }
+        Update: {
+          audio_url?: string | null
+          content?: string | null
+          created_at?: string
+          id?: string
+          restored_from?: string | null
+          status?: Database["public"]["Enums"]["will_status"]
+          title?: string
+          transcript?: string | null
+          type?: Database["public"]["Enums"]["will_type"]
+          user_id?: string
+          version_number?: number
+          video_url?: string | null
+          will_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "will_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "will_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "will_versions_will_id_fkey"
+            columns: ["will_id"]
+            isOneToOne: false
+            referencedRelation: "wills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      will_witnesses: {
+        Row: {
+          created_at: string
+          document_hash: string
+          email: string
+          full_name: string
+          id: string
+          signed_at: string | null
+          status: string
+          token_hash: string
+          updated_at: string
+          user_id: string
+          viewed_at: string | null
+          will_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_hash: string
+          email: string
+          full_name: string
+          id?: string
+          signed_at?: string | null
+          status?: string
+          token_hash: string
+          updated_at?: string
+          user_id: string
+          viewed_at?: string | null
+          will_id: string
+        }
+        Update: {
+          created_at?: string
+          document_hash?: string
+          email?: string
+          full_name?: string
+          id?: string
+          signed_at?: string | null
+          status?: string
+          token_hash?: string
+          updated_at?: string
+          user_id?: string
+          viewed_at?: string | null
+          will_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "will_witnesses_will_id_fkey"
+            columns: ["will_id"]
+            isOneToOne: false
+            referencedRelation: "wills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       wills: {
         Row: {
           audio_url: string | null
           content: string | null
           created_at: string
+          document_hash: string | null
           id: string
+          is_primary: boolean
           notes: string | null
           status: Database["public"]["Enums"]["will_status"]
           title: string
@@ -197,7 +1011,9 @@ export type Database = {
           audio_url?: string | null
           content?: string | null
           created_at?: string
+          document_hash?: string | null
           id?: string
+          is_primary?: boolean
           notes?: string | null
           status?: Database["public"]["Enums"]["will_status"]
           title?: string
@@ -211,7 +1027,9 @@ export type Database = {
           audio_url?: string | null
           content?: string | null
           created_at?: string
+          document_hash?: string | null
           id?: string
+          is_primary?: boolean
           notes?: string | null
           status?: Database["public"]["Enums"]["will_status"]
           title?: string
@@ -228,7 +1046,59 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_chat_quota: {
+        Args: {
+          p_mode: string
+          p_prompt_tokens: number
+        }
+        Returns: Json
+      }
+      finalize_will: {
+        Args: {
+          p_document_hash: string
+          p_will_id: string
+        }
+        Returns: undefined
+      }
+      is_asset_in_completed_will: {
+        Args: {
+          p_asset_id: string
+        }
+        Returns: boolean
+      }
+      is_will_completed: {
+        Args: {
+          p_will_id: string
+        }
+        Returns: boolean
+      }
+      record_chat_usage: {
+        Args: {
+          p_completion_tokens: number
+          p_event_id: string
+          p_prompt_tokens: number
+        }
+        Returns: undefined
+      }
+      restore_will_version: {
+        Args: {
+          p_version_id: string
+        }
+        Returns: string
+      }
+      save_asset_allocations: {
+        Args: {
+          p_allocations: Json
+          p_asset_id: string
+        }
+        Returns: Json
+      }
+      set_primary_will: {
+        Args: {
+          p_will_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       asset_category:
@@ -241,6 +1111,8 @@ export type Database = {
         | "insurance"
         | "business"
         | "other"
+        | "residuary"
+      transcription_status: "pending" | "processing" | "completed" | "failed"
       will_status: "draft" | "in_progress" | "review" | "completed"
       will_type: "audio" | "video" | "chat" | "text"
     }
@@ -380,7 +1252,9 @@ export const Constants = {
         "insurance",
         "business",
         "other",
+        "residuary",
       ],
+      transcription_status: ["pending", "processing", "completed", "failed"],
       will_status: ["draft", "in_progress", "review", "completed"],
       will_type: ["audio", "video", "chat", "text"],
     },
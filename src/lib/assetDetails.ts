@@ -0,0 +1,132 @@
+import type { Json } from "@/integrations/supabase/types";
+import type { AssetDetails } from "@/lib/validations";
+
+type Category = keyof AssetDetails;
+
+export interface AssetDetailField {
+  key: string;
+  label: string;
+  type: "text" | "textarea" | "select" | "date" | "number";
+  placeholder?: string;
+  hint?: string;
+  options?: { value: string; label: string }[];
+}
+
+// Form layout for each category's fields; validation lives in assetDetailsSchemas
+export const ASSET_DETAIL_FIELDS: Record<Category, AssetDetailField[]> = {
+  property: [
+    { key: "address", label: "Address", type: "textarea", placeholder: "Street, city, postcode" },
+    {
+      key: "property_type",
+      label: "Property type",
+      type: "select",
+      options: [
+        { value: "house", label: "House" },
+        { value: "apartment", label: "Apartment" },
+        { value: "land", label: "Land" },
+        { value: "commercial", label: "Commercial" },
+        { value: "other", label: "Other" },
+      ],
+    },
+    { key: "title_number", label: "Title / deed number", type: "text" },
+  ],
+  vehicle: [
+    { key: "make", label: "Make", type: "text", placeholder: "e.g., Toyota" },
+    { key: "model", label: "Model", type: "text", placeholder: "e.g., Corolla" },
+    { key: "year", label: "Year", type: "number", placeholder: "e.g., 2019" },
+    { key: "vin", label: "VIN", type: "text", placeholder: "17 characters" },
+    { key: "registration", label: "Registration / plate", type: "text" },
+  ],
+  bank_account: [
+    { key: "institution", label: "Bank", type: "text" },
+    {
+      key: "account_type",
+      label: "Account type",
+      type: "select",
+      options: [
+        { value: "checking", label: "Checking" },
+        { value: "savings", label: "Savings" },
+        { value: "deposit", label: "Term deposit" },
+        { value: "other", label: "Other" },
+      ],
+    },
+    { key: "account_last4", label: "Account number (last 4 digits)", type: "text", placeholder: "1234" },
+  ],
+  investment: [
+    { key: "institution", label: "Provider", type: "text" },
+    {
+      key: "account_type",
+      label: "Account type",
+      type: "select",
+      options: [
+        { value: "brokerage", label: "Brokerage" },
+        { value: "retirement", label: "Retirement" },
+        { value: "pension", label: "Pension" },
+        { value: "fund", label: "Fund" },
+        { value: "other", label: "Other" },
+      ],
+    },
+    { key: "account_last4", label: "Account number (last 4 digits)", type: "text", placeholder: "1234" },
+  ],
+  jewelry: [
+    { key: "item_type", label: "Item", type: "text", placeholder: "e.g., Engagement ring" },
+    { key: "appraised_by", label: "Appraised by", type: "text" },
+    { key: "appraisal_date", label: "Appraisal date", type: "date" },
+    { key: "kept_at", label: "Kept at", type: "text", placeholder: "e.g., Home safe" },
+  ],
+  digital_asset: [
+    { key: "platform", label: "Platform", type: "text", placeholder: "e.g., Coinbase, Google Photos" },
+    { key: "username", label: "Username", type: "text" },
+    {
+      key: "access_instructions",
+      label: "Access instructions",
+      type: "textarea",
+      hint: "Don't enter passwords here.",
+    },
+  ],
+  insurance: [
+    { key: "provider", label: "Insurer", type: "text" },
+    {
+      key: "policy_type",
+      label: "Policy type",
+      type: "select",
+      options: [
+        { value: "life", label: "Life" },
+        { value: "property", label: "Property" },
+        { value: "health", label: "Health" },
+        { value: "vehicle", label: "Vehicle" },
+        { value: "other", label: "Other" },
+      ],
+    },
+    { key: "policy_number", label: "Policy number", type: "text" },
+    { key: "coverage_amount", label: "Coverage amount", type: "number" },
+  ],
+  business: [
+    { key: "business_name", label: "Business name", type: "text" },
+    { key: "registration_number", label: "Registration number", type: "text" },
+    { key: "ownership_percentage", label: "Ownership (%)", type: "number", placeholder: "e.g., 50" },
+    { key: "role", label: "Your role", type: "text", placeholder: "e.g., Director" },
+  ],
+  other: [],
+};
+
+// assets.details as form values; anything that isn't a flat object of strings is ignored
+export const parseAssetDetails = (details: Json | null | undefined): Record<string, string> => {
+  if (!details || typeof details !== "object" || Array.isArray(details)) return {};
+  return Object.fromEntries(
+    Object.entries(details)
+      .filter(([, value]) => typeof value === "string" || typeof value === "number")
+      .map(([key, value]) => [key, String(value)]),
+  );
+};
+
+// Label/value pairs for display, in form order, with select values shown by label
+export const describeAssetDetails = (category: string, details: Json | null | undefined) => {
+  const values = parseAssetDetails(details);
+  return (ASSET_DETAIL_FIELDS[category as Category] || [])
+    .filter((field) => values[field.key])
+    .map((field) => ({
+      label: field.label,
+      value: field.options?.find((o) => o.value === values[field.key])?.label || values[field.key],
+    }));
+};
@@ -0,0 +1,178 @@
+import type { Database } from "@/integrations/supabase/types";
+
+// Reusable wording for common provisions. Clause text uses `{{key}}` placeholders:
+// `{{testator}}` is always filled from the user's profile, the rest are declared per
+// template and bound to a recipient, an asset or free text when the clause is inserted.
+
+type AssetCategory = Database["public"]["Enums"]["asset_category"];
+
+export type PlaceholderKind = "recipient" | "asset" | "text";
+
+export interface ClausePlaceholder {
+  key: string;
+  label: string;
+  kind: PlaceholderKind;
+  // Assets offered first for this placeholder; others stay selectable
+  categories?: AssetCategory[];
+  hint?: string;
+}
+
+export interface ClauseTemplate {
+  id: string;
+  title: string;
+  description: string;
+  // Heading of the section the clauses belong in
+  section: string;
+  placeholders: ClausePlaceholder[];
+  clauses: string[];
+}
+
+export interface TemplateRecipient {
+  id: string;
+  full_name: string;
+  relationship: string | null;
+}
+
+export interface TemplateAsset {
+  id: string;
+  name: string;
+  category: AssetCategory;
+  description: string | null;
+  location: string | null;
+}
+
+export type PlaceholderValue = { kind: "recipient" | "asset"; id: string } | { kind: "text"; text: string };
+
+export const CLAUSE_TEMPLATES: ClauseTemplate[] = [
+  {
+    id: "residuary-estate",
+    title: "Residuary estate",
+    description: "Leaves everything not given away elsewhere in the will, with a backup beneficiary.",
+    section: "Residuary Estate",
+    placeholders: [
+      { key: "beneficiary", label: "Beneficiary", kind: "recipient" },
+      { key: "alternate", label: "Alternate beneficiary", kind: "recipient" },
+    ],
+    clauses: [
+      "I give the residue of my estate, being everything I own at my death that is not otherwise given away by this will, to {{beneficiary}}.",
+      "If {{beneficiary}} does not survive me by 30 days, I give the residue of my estate to {{alternate}}.",
+    ],
+  },
+  {
+    id: "specific-gift",
+    title: "Specific gift",
+    description: "Gives one named asset to one person.",
+    section: "Gifts",
+    placeholders: [
+      { key: "asset", label: "Asset", kind: "asset" },
+      { key: "beneficiary", label: "Beneficiary", kind: "recipient" },
+    ],
+    clauses: [
+      "I give {{asset}} to {{beneficiary}}. If {{beneficiary}} does not survive me, this gift shall fall into the residue of my estate.",
+    ],
+  },
+  {
+    id: "guardianship",
+    title: "Guardianship of minors",
+    description: "Names who should look after your children if they are under 18.",
+    section: "Guardianship of Minors",
+    placeholders: [
+      { key: "guardian", label: "Guardian", kind: "recipient" },
+      { key: "alternate", label: "Alternate guardian", kind: "recipient" },
+    ],
+    clauses: [
+      "If I die while any of my children are under the age of 18 and no other parent with parental responsibility survives me, I appoint {{guardian}} as guardian of my minor children.",
+      "If {{guardian}} is unable or unwilling to act, I appoint {{alternate}} as guardian of my minor children.",
+    ],
+  },
+  {
+    id: "pet-care",
+    title: "Pet care",
+    description: "Names a carer for your pets and sets money aside for them.",
+    section: "Pet Care",
+    placeholders: [
+      { key: "pets", label: "Pets", kind: "text", hint: "e.g. my dog, Biscuit" },
+      { key: "caretaker", label: "Caretaker", kind: "recipient" },
+      { key: "amount", label: "Amount for their care", kind: "text", hint: "e.g. $2,000" },
+    ],
+    clauses: [
+      "I give {{pets}}, and any other animals I own at my death, to {{caretaker}}, and I ask that they be cared for with kindness.",
+      "I give {{amount}} to {{caretaker}} to be used for the care of my animals.",
+    ],
+  },
+  {
+    id: "funeral-wishes",
+    title: "Funeral wishes",
+    description: "Records how you would like to be laid to rest.",
+    section: "Funeral Wishes",
+    placeholders: [
+      { key: "arrangement", label: "Arrangement", kind: "text", hint: "e.g. cremated and my ashes scattered at sea" },
+      { key: "ceremony", label: "Ceremony", kind: "text", hint: "e.g. a small gathering of family and friends" },
+    ],
+    clauses: [
+      "I, {{testator}}, wish to be {{arrangement}}.",
+      "I would like my funeral to be {{ceremony}}, and I ask my executor to take these wishes into account.",
+    ],
+  },
+  {
+    id: "digital-accounts",
+    title: "Digital accounts",
+    description: "Appoints someone to manage your online accounts and digital assets.",
+    section: "Digital Accounts",
+    placeholders: [
+      { key: "manager", label: "Digital executor", kind: "recipient" },
+      { key: "account", label: "Account or digital asset", kind: "asset", categories: ["digital_asset"] },
+      { key: "instruction", label: "Instruction", kind: "text", hint: "e.g. memorialized, then closed" },
+    ],
+    clauses: [
+      "I appoint {{manager}} to access, manage, and close my digital accounts, including email, social media, online storage, and any other online services I use.",
+      "I direct that {{account}} be {{instruction}}.",
+    ],
+  },
+];
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export const formatRecipient = (recipient: TemplateRecipient) =>
+  recipient.relationship
+    ? `${recipient.full_name}, my ${recipient.relationship.toLowerCase()}`
+    : recipient.full_name;
+
+export const formatAsset = (asset: TemplateAsset) => {
+  const details = [asset.description, asset.location && `located at ${asset.location}`].filter(Boolean).join(", ");
+  return details ? `my ${asset.name} (${details})` : `my ${asset.name}`;
+};
+
+interface FillContext {
+  testator: string | null;
+  recipients: TemplateRecipient[];
+  assets: TemplateAsset[];
+}
+
+// Fills a template's clauses; anything left unbound stays as a visible `[Label]`
+export const fillTemplate = (
+  template: ClauseTemplate,
+  values: Record<string, PlaceholderValue | undefined>,
+  { testator, recipients, assets }: FillContext,
+): string[] => {
+  const resolve = (key: string): string => {
+    if (key === "testator") return testator?.trim() || "[full legal name]";
+
+    const placeholder = template.placeholders.find((p) => p.key === key);
+    if (!placeholder) return `[${key}]`;
+
+    const value = values[key];
+    if (value?.kind === "recipient") {
+      const recipient = recipients.find((r) => r.id === value.id);
+      if (recipient) return formatRecipient(recipient);
+    } else if (value?.kind === "asset") {
+      const asset = assets.find((a) => a.id === value.id);
+      if (asset) return formatAsset(asset);
+    } else if (value?.kind === "text" && value.text.trim()) {
+      return value.text.trim();
+    }
+    return `[${placeholder.label}]`;
+  };
+
+  return template.clauses.map((clause) => clause.replace(PLACEHOLDER, (_, key: string) => resolve(key)));
+};
@@ -0,0 +1,133 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Offered in pickers; rates and assets accept any ISO 4217 code
+export const CURRENCIES = [
+  "USD", "EUR", "GBP", "CHF", "CAD", "AUD", "NZD", "JPY", "CNY", "HKD", "SGD", "INR",
+  "SEK", "NOK", "DKK", "PLN", "CZK", "HUF", "ZAR", "BRL", "MXN", "AED", "ILS", "KRW",
+];
+
+// 1 unit of base_currency = rate units of quote_currency
+export interface ExchangeRate {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+}
+
+export interface CurrencySettings {
+  reportingCurrency: string;
+  rates: ExchangeRate[];
+}
+
+export const formatMoney = (value: number | null, currency: string | null = DEFAULT_CURRENCY) => {
+  if (!value) return "—";
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: currency || DEFAULT_CURRENCY }).format(value);
+  } catch {
+    // Unknown code: still show the amount with its code rather than failing the render
+    return `${new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value)} ${currency}`;
+  }
+};
+
+const directRate = (from: string, to: string, rates: ExchangeRate[]) => {
+  const rate = rates.find((r) => r.base_currency === from && r.quote_currency === to);
+  if (rate) return Number(rate.rate);
+  const inverse = rates.find((r) => r.base_currency === to && r.quote_currency === from);
+  return inverse ? 1 / Number(inverse.rate) : null;
+};
+
+// Direct or inverse pair first, then through one intermediate currency (e.g. GBP -> USD -> EUR)
+export const findRate = (from: string, to: string, rates: ExchangeRate[]): number | null => {
+  if (from === to) return 1;
+
+  const direct = directRate(from, to, rates);
+  if (direct !== null) return direct;
+
+  const via = new Set(rates.flatMap((r) => [r.base_currency, r.quote_currency]));
+  for (const currency of via) {
+    if (currency === from || currency === to) continue;
+    const first = directRate(from, currency, rates);
+    const second = first !== null ? directRate(currency, to, rates) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+export const convertAmount = (amount: number, from: string, to: string, rates: ExchangeRate[]) => {
+  const rate = findRate(from, to, rates);
+  return rate === null ? null : amount * rate;
+};
+
+// Sums values in the target currency. Currencies without a usable rate are left out
+// of the total and reported, so callers can say the total is incomplete.
+export const totalInCurrency = (
+  items: { estimated_value: number | null; currency?: string | null }[],
+  to: string,
+  rates: ExchangeRate[],
+) => {
+  let total = 0;
+  const missing = new Set<string>();
+  for (const item of items) {
+    if (!item.estimated_value) continue;
+    const converted = convertAmount(item.estimated_value, item.currency || DEFAULT_CURRENCY, to, rates);
+    if (converted === null) {
+      missing.add(item.currency || DEFAULT_CURRENCY);
+    } else {
+      total += converted;
+    }
+  }
+  return { total, missing: [...missing] };
+};
+
+export interface ParsedRate extends ExchangeRate {
+  as_of?: string;
+}
+
+// CSV lines of `base,quote,rate[,as_of]`; a header row and blank lines are skipped
+export const parseExchangeRatesCsv = (text: string) => {
+  const rates: ParsedRate[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    const [base, quote, rateText, asOf] = trimmed.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    if (index === 0 && isNaN(Number(rateText))) return;
+
+    const rate = Number(rateText);
+    const pair = `${base?.toUpperCase()}/${quote?.toUpperCase()}`;
+    if (!/^[A-Z]{3}\/[A-Z]{3}$/.test(pair) || base.toUpperCase() === quote.toUpperCase()) {
+      errors.push(`Line ${index + 1}: invalid currency pair`);
+    } else if (!rateText || !isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${index + 1}: rate must be a positive number`);
+    } else if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      errors.push(`Line ${index + 1}: date must be YYYY-MM-DD`);
+    } else {
+      rates.push({
+        base_currency: base.toUpperCase(),
+        quote_currency: quote.toUpperCase(),
+        rate,
+        ...(asOf ? { as_of: asOf } : {}),
+      });
+    }
+  });
+
+  return { rates, errors };
+};
+
+export const loadCurrencySettings = async (userId: string): Promise<CurrencySettings> => {
+  const [profileRes, ratesRes] = await Promise.all([
+    supabase.from("profiles").select("reporting_currency").eq("user_id", userId).maybeSingle(),
+    supabase.from("exchange_rates").select("base_currency, quote_currency, rate"),
+  ]);
+
+  if (profileRes.error) throw profileRes.error;
+  if (ratesRes.error) throw ratesRes.error;
+
+  return {
+    reportingCurrency: profileRes.data?.reporting_currency || DEFAULT_CURRENCY,
+    rates: ratesRes.data || [],
+  };
+};
@@ -0,0 +1,89 @@
+export interface DiffPart {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Above this many token pairs the LCS table (4 bytes a cell) gets too large for the browser
+const MAX_CELLS = 4_000_000;
+
+const tokenizeWords = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+const tokenizeLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart["type"], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else if (text) {
+    parts.push({ type, text });
+  }
+};
+
+// Null when the changed middle is too large for the LCS table, unless asked to fall back to
+// showing it as one removed and one added block
+const diffTokens = (a: string[], b: string[], blockFallback: boolean): DiffPart[] | null => {
+  const parts: DiffPart[] = [];
+
+  // Common prefix and suffix never need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  pushPart(parts, "equal", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_CELLS) {
+    if (!blockFallback) return null;
+    pushPart(parts, "removed", midA.join(""));
+    pushPart(parts, "added", midB.join(""));
+    pushPart(parts, "equal", a.slice(endA).join(""));
+    return parts;
+  }
+
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      pushPart(parts, "equal", midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      pushPart(parts, "removed", midA[i++]);
+    } else {
+      pushPart(parts, "added", midB[j++]);
+    }
+  }
+  pushPart(parts, "removed", midA.slice(i).join(""));
+  pushPart(parts, "added", midB.slice(j).join(""));
+
+  pushPart(parts, "equal", a.slice(endA).join(""));
+  return parts;
+};
+
+// Word-level diff of two texts, falling back to a line-level diff for very long documents and
+// to replacing the changed lines as a block when even that would be too large
+export const diffText = (before: string | null, after: string | null): DiffPart[] => {
+  const a = before || "";
+  const b = after || "";
+  if (a === b) return a ? [{ type: "equal", text: a }] : [];
+
+  return diffTokens(tokenizeWords(a), tokenizeWords(b), false) ?? diffTokens(tokenizeLines(a), tokenizeLines(b), true)!;
+};
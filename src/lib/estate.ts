@@ -0,0 +1,270 @@
+import { DEFAULT_CURRENCY, convertAmount, formatMoney, type ExchangeRate } from "@/lib/currency";
+
+export const LIABILITY_CATEGORIES = [
+  { value: "mortgage", label: "Mortgage" },
+  { value: "car_loan", label: "Car loan" },
+  { value: "credit_card", label: "Credit card" },
+  { value: "personal_loan", label: "Personal loan" },
+  { value: "student_loan", label: "Student loan" },
+  { value: "tax", label: "Tax owed" },
+  { value: "other", label: "Other" },
+] as const;
+
+export type LiabilityCategory = (typeof LIABILITY_CATEGORIES)[number]["value"];
+
+export interface Liability {
+  id: string;
+  name: string;
+  category: string;
+  amount: number;
+  currency: string;
+  lender: string | null;
+  notes: string | null;
+  secured_asset_id: string | null;
+}
+
+export const RESIDUARY_CATEGORY = "residuary";
+
+export const ALLOCATION_KINDS = [
+  { value: "percentage", label: "Percentage" },
+  { value: "fixed_amount", label: "Fixed amount" },
+  { value: "whole_item", label: "Whole item" },
+  { value: "residuary", label: "Share of residue" },
+] as const;
+
+export const LAPSE_RULES = [
+  { value: "redistribute", label: "Share among the other recipients" },
+  { value: "per_stirpes", label: "Pass to their descendants (per stirpes)" },
+] as const;
+
+export const isResiduary = (asset: { category: string }) => asset.category === RESIDUARY_CATEGORY;
+
+// The residuary estate for a will, falling back to the one not yet tied to any will
+export const pickResiduary = <T extends { category: string; will_id: string | null }>(assets: T[], willId: string | null) =>
+  assets.find((a) => isResiduary(a) && a.will_id === willId) || assets.find((a) => isResiduary(a) && !a.will_id) || null;
+
+interface EstateAsset {
+  id: string;
+  category: string;
+  estimated_value: number | null;
+  currency?: string | null;
+  ownership_percentage?: number | null;
+  right_of_survivorship?: boolean | null;
+}
+
+type OwnedAsset = Pick<EstateAsset, "estimated_value" | "ownership_percentage" | "right_of_survivorship">;
+
+// The owner's share of what an asset is worth; estimated_value is the whole asset
+export const ownerShare = (asset: OwnedAsset) =>
+  asset.estimated_value === null ? null : (Number(asset.estimated_value) * Number(asset.ownership_percentage ?? 100)) / 100;
+
+// What the will passes on: nothing when the share goes to co-owners by survivorship
+export const estateValue = (asset: OwnedAsset) => (asset.right_of_survivorship ? 0 : ownerShare(asset));
+
+// "50% with Jane Smith · passes by survivorship", or null for sole ownership
+export const describeOwnership = (asset: OwnedAsset & { co_owners?: string | null }) => {
+  const percentage = Number(asset.ownership_percentage ?? 100);
+  if (percentage >= 100) return null;
+  return [
+    `${percentage}%${asset.co_owners ? ` with ${asset.co_owners}` : ""}`,
+    asset.right_of_survivorship && "passes by survivorship",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+export interface EstateAllocation {
+  asset_id: string;
+  recipient_id: string;
+  allocation_kind?: string | null;
+  allocation_percentage: number | null;
+  fixed_amount?: number | null;
+  lapse_rule?: string | null;
+  contingents?: { recipient_id: string; position: number }[] | null;
+}
+
+// Contingent recipients in the order they inherit
+export const contingentIds = (allocation: Pick<EstateAllocation, "contingents">) =>
+  [...(allocation.contingents || [])].sort((a, b) => a.position - b.position).map((c) => c.recipient_id);
+
+// "Jane Doe, then John Doe, then their descendants (per stirpes)": who an allocation
+// passes to if its recipient dies first
+export const describeFallback = (allocation: EstateAllocation, recipientName: (id: string) => string) =>
+  [
+    ...contingentIds(allocation).map(recipientName),
+    allocation.lapse_rule === "per_stirpes" ? "their descendants (per stirpes)" : "the other recipients",
+  ].join(", then ");
+
+// "40%", "$10,000.00", "Whole item" or "40% of residue"
+export const describeAllocation = (allocation: EstateAllocation, currency?: string | null) => {
+  switch (allocation.allocation_kind) {
+    case "fixed_amount":
+      return formatMoney(Number(allocation.fixed_amount), currency);
+    case "whole_item":
+      return "Whole item";
+    case "residuary":
+      return `${Number(allocation.allocation_percentage)}% of residue`;
+    default:
+      return `${Number(allocation.allocation_percentage)}%`;
+  }
+};
+
+export interface NetEstate {
+  gross: number;
+  liabilities: number;
+  net: number;
+  // What is left for the residuary beneficiaries after debts and fixed legacies
+  residue: number;
+  recipients: Record<string, number>;
+  // The same totals broken down by the asset each amount comes from
+  shares: { assetId: string; recipientId: string; amount: number }[];
+  unallocated: number;
+  // Currencies left out of the figures because there is no rate to the reporting currency
+  missing: string[];
+}
+
+// Liabilities that belong to the estate made up of these assets: the unsecured ones and
+// those secured against one of them (a will's estate doesn't carry another will's mortgage)
+export const liabilitiesForAssets = <T extends Pick<Liability, "secured_asset_id">>(liabilities: T[], assets: { id: string }[]) =>
+  liabilities.filter((l) => !l.secured_asset_id || assets.some((a) => a.id === l.secured_asset_id));
+
+// Projects what each recipient receives, in the order an estate is settled. Only the owner's
+// share of each asset counts, and of any debt secured against it; shares held with a right
+// of survivorship, and debts secured against them, pass to the co-owners and are left out.
+// Unsecured debts are taken as entered.
+//   1. secured debts come out of the asset they are secured against
+//   2. each asset goes to its whole-item recipient, or pays its fixed amounts and then
+//      splits the rest by percentage; anything not given away falls into the residue
+//   3. unsecured debts (and any shortfall from step 1) are paid from the residue; if it
+//      can't cover them, the gifts from step 2 are reduced in proportion
+//   4. fixed amounts left from the residuary estate are paid, then the residuary shares
+// Whatever no one is given is reported as unallocated. Every recipient is assumed to
+// survive the owner, so contingent recipients don't figure in the projection.
+export const calculateNetEstate = (
+  assets: EstateAsset[],
+  liabilities: Pick<Liability, "amount" | "currency" | "secured_asset_id">[],
+  allocations: EstateAllocation[],
+  currency: string,
+  rates: ExchangeRate[],
+): NetEstate => {
+  const missing = new Set<string>();
+  const convert = (amount: number | null | undefined, from: string | null | undefined) => {
+    if (!amount) return 0;
+    const converted = convertAmount(Number(amount), from || DEFAULT_CURRENCY, currency, rates);
+    if (converted === null) missing.add(from || DEFAULT_CURRENCY);
+    return converted ?? 0;
+  };
+
+  const items = assets.filter((a) => !isResiduary(a) && !a.right_of_survivorship);
+  const residuary = assets.find(isResiduary);
+  const survivorship = new Set(assets.filter((a) => a.right_of_survivorship).map((a) => a.id));
+
+  const equity: Record<string, number> = {};
+  const ownership: Record<string, number> = {};
+  let gross = 0;
+  for (const asset of items) {
+    equity[asset.id] = convert(estateValue(asset), asset.currency);
+    ownership[asset.id] = Number(asset.ownership_percentage ?? 100);
+    gross += equity[asset.id];
+  }
+
+  let totalLiabilities = 0;
+  let unsecured = 0;
+  for (const liability of liabilities) {
+    if (liability.secured_asset_id && survivorship.has(liability.secured_asset_id)) continue;
+    const secured = liability.secured_asset_id && liability.secured_asset_id in equity ? liability.secured_asset_id : null;
+    const amount = (convert(liability.amount, liability.currency) * (secured ? ownership[secured] : 100)) / 100;
+    totalLiabilities += amount;
+    if (secured) {
+      equity[secured] -= amount;
+    } else {
+      unsecured += amount;
+    }
+  }
+
+  // Negative equity is owed by the estate as a whole
+  for (const id of Object.keys(equity)) {
+    if (equity[id] < 0) {
+      unsecured -= equity[id];
+      equity[id] = 0;
+    }
+  }
+
+  const gifts: { assetId: string; recipientId: string; amount: number }[] = [];
+  let residue = 0;
+  for (const asset of items) {
+    const value = equity[asset.id];
+    const shares = allocations.filter((a) => a.asset_id === asset.id);
+
+    const whole = shares.find((a) => a.allocation_kind === "whole_item");
+    if (whole) {
+      gifts.push({ assetId: asset.id, recipientId: whole.recipient_id, amount: value });
+      continue;
+    }
+
+    const fixed = shares.filter((a) => a.allocation_kind === "fixed_amount");
+    const fixedAmounts = fixed.map((a) => convert(a.fixed_amount, asset.currency));
+    const fixedTotal = fixedAmounts.reduce((sum, amount) => sum + amount, 0);
+    // Fixed amounts larger than what the asset is worth are paid in proportion
+    const fixedPaid = fixedTotal > value ? value / fixedTotal : 1;
+    fixed.forEach((a, i) =>
+      gifts.push({ assetId: asset.id, recipientId: a.recipient_id, amount: fixedAmounts[i] * fixedPaid }),
+    );
+
+    const remainder = Math.max(0, value - fixedTotal);
+    let allocated = 0;
+    for (const share of shares.filter((a) => !a.allocation_kind || a.allocation_kind === "percentage")) {
+      const percentage = Number(share.allocation_percentage);
+      gifts.push({ assetId: asset.id, recipientId: share.recipient_id, amount: (remainder * percentage) / 100 });
+      allocated += percentage;
+    }
+    residue += (remainder * Math.max(0, 100 - allocated)) / 100;
+  }
+
+  residue -= unsecured;
+  if (residue < 0) {
+    const shortfall = -residue;
+    const giftTotal = gifts.reduce((sum, g) => sum + g.amount, 0);
+    const kept = giftTotal > 0 ? Math.max(0, 1 - shortfall / giftTotal) : 0;
+    gifts.forEach((g) => (g.amount *= kept));
+    residue = 0;
+  }
+
+  const recipients: Record<string, number> = {};
+  const shares: NetEstate["shares"] = [];
+  const give = (assetId: string, recipientId: string, amount: number) => {
+    recipients[recipientId] = (recipients[recipientId] || 0) + amount;
+    shares.push({ assetId, recipientId, amount });
+  };
+  gifts.forEach((g) => give(g.assetId, g.recipientId, g.amount));
+
+  let unallocated = residue;
+  if (residuary) {
+    const shares = allocations.filter((a) => a.asset_id === residuary.id);
+    const legacies = shares.filter((a) => a.allocation_kind === "fixed_amount");
+    const legacyAmounts = legacies.map((a) => convert(a.fixed_amount, residuary.currency));
+    const legacyTotal = legacyAmounts.reduce((sum, amount) => sum + amount, 0);
+    const legacyPaid = legacyTotal > residue ? residue / legacyTotal : 1;
+    legacies.forEach((a, i) => give(residuary.id, a.recipient_id, legacyAmounts[i] * legacyPaid));
+    residue = Math.max(0, residue - legacyTotal);
+
+    let allocated = 0;
+    for (const share of shares.filter((a) => a.allocation_kind === "residuary")) {
+      const percentage = Number(share.allocation_percentage);
+      give(residuary.id, share.recipient_id, (residue * percentage) / 100);
+      allocated += percentage;
+    }
+    unallocated = (residue * Math.max(0, 100 - allocated)) / 100;
+  }
+
+  return {
+    gross,
+    liabilities: totalLiabilities,
+    net: gross - totalLiabilities,
+    residue,
+    recipients,
+    shares,
+    unallocated,
+    missing: [...missing],
+  };
+};
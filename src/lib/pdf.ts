@@ -0,0 +1,167 @@
+// A deliberately small PDF 1.4 writer: A4 pages of positioned text and rules in the
+// standard Helvetica fonts, which every reader ships, so no fonts are embedded.
+// Text is encoded as WinAnsi; characters outside it are replaced with "?".
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  font?: PdfFont;
+  muted?: boolean;
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules: PdfRule[];
+}
+
+// Glyph widths (1/1000 em) for ASCII 32-126, from the Helvetica AFM metrics
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+// Unicode characters that WinAnsi places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text.replace(/[\t\r\n]+/g, " "), (char) => {
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return char;
+    return "?";
+  }).join("");
+
+export const textWidth = (text: string, size: number, font: PdfFont = "regular") => {
+  const widths = font === "bold" ? BOLD_WIDTHS : REGULAR_WIDTHS;
+  let units = 0;
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+};
+
+// Greedy word wrap; words longer than a line (hashes, URLs) are broken by character
+export const wrapText = (text: string, maxWidth: number, size: number, font: PdfFont = "regular"): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = "";
+      for (const char of word) {
+        if (line && textWidth(line + char, size, font) > maxWidth) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/[\\()]/g, (c) => `\\${c}`);
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+const pageStream = (page: PdfPage) => {
+  const ops: string[] = [];
+
+  for (const rule of page.rules) {
+    ops.push(`${num(rule.width ?? 0.5)} w ${num(rule.x1)} ${num(rule.y1)} m ${num(rule.x2)} ${num(rule.y2)} l S`);
+  }
+  for (const t of page.texts) {
+    const font = t.font === "bold" ? "F2" : "F1";
+    const color = t.muted ? "0.4 0.4 0.4 rg" : "0 0 0 rg";
+    ops.push(`BT ${color} /${font} ${num(t.size)} Tf ${num(t.x)} ${num(t.y)} Td (${escapeText(t.text)}) Tj ET`);
+  }
+
+  return ops.join("\n");
+};
+
+export const renderPdf = (pages: PdfPage[]): Blob => {
+  // Objects 1-4 are fixed; each page then adds a page object and its content stream
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+
+  const pageRefs: string[] = [];
+  pages.forEach((page) => {
+    const pageId = objects.length + 1;
+    const stream = pageStream(page);
+    pageRefs.push(`${pageId} 0 R`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`,
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`;
+
+  // Every character is a single WinAnsi byte, so string offsets are byte offsets
+  let out = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${o.toString().padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+  return new Blob([bytes], { type: "application/pdf" });
+};
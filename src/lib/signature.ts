@@ -0,0 +1,40 @@
+// Signatures are either a typed name or a drawing. Drawings are kept as vector strokes
+// rather than images so they render crisply on screen and can be redrawn in the PDF.
+
+export type SignatureType = "typed" | "drawn";
+
+export interface SignatureInput {
+  type: SignatureType;
+  data: string;
+}
+
+// Points are relative to the signature pad: x and y both run 0..1, width:height is SIGNATURE_ASPECT
+export type SignatureStroke = [number, number][];
+
+export const SIGNATURE_ASPECT = 3;
+
+export const MAX_SIGNATURE_LENGTH = 100000;
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+export const encodeStrokes = (strokes: SignatureStroke[]) =>
+  JSON.stringify(strokes.filter((s) => s.length > 1).map((s) => s.map(([x, y]) => [round(x), round(y)])));
+
+export const decodeStrokes = (data: string): SignatureStroke[] => {
+  try {
+    const parsed = JSON.parse(data);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (stroke): stroke is SignatureStroke =>
+        Array.isArray(stroke) &&
+        stroke.every((p) => Array.isArray(p) && p.length === 2 && p.every((n) => typeof n === "number")),
+    );
+  } catch {
+    return [];
+  }
+};
+
+export const isSignatureComplete = (signature: SignatureInput | null): signature is SignatureInput =>
+  !!signature &&
+  signature.data.length <= MAX_SIGNATURE_LENGTH &&
+  (signature.type === "typed" ? signature.data.trim().length > 0 : decodeStrokes(signature.data).length > 0);
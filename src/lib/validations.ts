@@ -1,15 +1,256 @@
 import { z } from "zod";
 
+// === Currency Validation ===
+export const currencyCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Use a 3-letter currency code, e.g. USD");
+
+export const exchangeRateSchema = z
+  .object({
+    base_currency: currencyCodeSchema,
+    quote_currency: currencyCodeSchema,
+    rate: z.number({ invalid_type_error: "Rate must be a number" }).positive("Rate must be greater than 0").max(1e9, "Rate is too large"),
+    as_of: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  })
+  .refine((r) => r.base_currency !== r.quote_currency, "Choose two different currencies");
+
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>;
+
 // === Asset Validation ===
 export const assetSchema = z.object({
   name: z.string().trim().min(1, "Asset name is required").max(200, "Asset name must be less than 200 characters"),
   description: z.string().max(2000, "Description must be less than 2000 characters").optional().or(z.literal("")),
   estimated_value: z.number().min(0, "Value cannot be negative").max(999999999999, "Value is too large").optional().nullable(),
   category: z.enum(["property", "investment", "bank_account", "vehicle", "jewelry", "digital_asset", "insurance", "business", "other"]),
+  currency: currencyCodeSchema.optional(),
 });
 
 export type AssetInput = z.infer<typeof assetSchema>;
 
+// The owner's share of an asset and who holds the rest
+export const assetOwnershipSchema = z
+  .object({
+    ownership_percentage: z
+      .number({ invalid_type_error: "Enter your share as a percentage" })
+      .gt(0, "Your share must be more than 0%")
+      .max(100, "Your share cannot exceed 100%"),
+    co_owners: z.string().trim().max(500, "Co-owners must be less than 500 characters").optional().or(z.literal("")),
+    right_of_survivorship: z.boolean(),
+  })
+  .refine((o) => !o.right_of_survivorship || o.ownership_percentage < 100, {
+    message: "Right of survivorship needs a co-owner, so your share must be under 100%",
+    path: ["right_of_survivorship"],
+  });
+
+export type AssetOwnershipInput = z.infer<typeof assetOwnershipSchema>;
+
+// Ownership as entered in the asset forms, before the share is parsed
+export interface AssetOwnershipDraft {
+  ownership_percentage: string;
+  co_owners: string;
+  right_of_survivorship: boolean;
+}
+
+export const SOLE_OWNERSHIP: AssetOwnershipDraft = { ownership_percentage: "100", co_owners: "", right_of_survivorship: false };
+
+export const validateAssetOwnership = (draft: AssetOwnershipDraft) =>
+  assetOwnershipSchema.safeParse({
+    ...draft,
+    ownership_percentage: parseFloat(draft.ownership_percentage.replace(/[^0-9.]/g, "")),
+  });
+
+export const assetDocumentSchema = z.object({
+  name: z.string().trim().min(1, "Document name is required").max(255, "Document name must be less than 255 characters"),
+  description: z.string().trim().max(500, "Description must be less than 500 characters").optional().or(z.literal("")),
+});
+
+export type AssetDocumentInput = z.infer<typeof assetDocumentSchema>;
+
+// === Asset Details Validation ===
+// Category-specific fields stored in assets.details. Every field is optional; empty
+// strings are allowed in forms and dropped before saving.
+const detailText = (label: string, max = 200) =>
+  z.string().trim().max(max, `${label} must be less than ${max} characters`).optional().or(z.literal(""));
+
+const accountSuffix = z
+  .string()
+  .trim()
+  .regex(/^\d{4}$/, "Enter only the last 4 digits of the account number")
+  .optional()
+  .or(z.literal(""));
+
+export const assetDetailsSchemas = {
+  property: z.object({
+    address: detailText("Address", 500),
+    property_type: z.enum(["house", "apartment", "land", "commercial", "other"]).optional().or(z.literal("")),
+    title_number: detailText("Title number", 100),
+  }),
+  vehicle: z.object({
+    make: detailText("Make", 100),
+    model: detailText("Model", 100),
+    year: z
+      .string()
+      .trim()
+      .regex(/^\d{4}$/, "Year must be 4 digits")
+      .refine((y) => Number(y) >= 1886 && Number(y) <= new Date().getFullYear() + 1, "Year is out of range")
+      .optional()
+      .or(z.literal("")),
+    vin: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-HJ-NPR-Z0-9]{17}$/, "VIN must be 17 letters and digits (no I, O or Q)")
+      .optional()
+      .or(z.literal("")),
+    registration: detailText("Registration", 20),
+  }),
+  bank_account: z.object({
+    institution: detailText("Bank name"),
+    account_type: z.enum(["checking", "savings", "deposit", "other"]).optional().or(z.literal("")),
+    account_last4: accountSuffix,
+  }),
+  investment: z.object({
+    institution: detailText("Provider"),
+    account_type: z.enum(["brokerage", "retirement", "pension", "fund", "other"]).optional().or(z.literal("")),
+    account_last4: accountSuffix,
+  }),
+  jewelry: z.object({
+    item_type: detailText("Item type", 100),
+    appraised_by: detailText("Appraiser"),
+    appraisal_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional().or(z.literal("")),
+    kept_at: detailText("Location"),
+  }),
+  digital_asset: z.object({
+    platform: detailText("Platform", 100),
+    username: detailText("Username", 100),
+    access_instructions: detailText("Access instructions", 1000),
+  }),
+  insurance: z.object({
+    provider: detailText("Insurer"),
+    policy_type: z.enum(["life", "property", "health", "vehicle", "other"]).optional().or(z.literal("")),
+    policy_number: detailText("Policy number", 50),
+    coverage_amount: z
+      .string()
+      .trim()
+      .regex(/^\d+(\.\d{1,2})?$/, "Coverage must be a number")
+      .optional()
+      .or(z.literal("")),
+  }),
+  business: z.object({
+    business_name: detailText("Business name"),
+    registration_number: detailText("Registration number", 50),
+    ownership_percentage: z
+      .string()
+      .trim()
+      .regex(/^\d+(\.\d{1,2})?$/, "Ownership must be a number")
+      .refine((v) => Number(v) > 0 && Number(v) <= 100, "Ownership must be between 0 and 100%")
+      .optional()
+      .or(z.literal("")),
+    role: detailText("Role", 100),
+  }),
+  other: z.object({}),
+} satisfies Record<AssetInput["category"], z.AnyZodObject>;
+
+export type AssetDetails = {
+  [C in keyof typeof assetDetailsSchemas]: z.infer<(typeof assetDetailsSchemas)[C]>;
+};
+
+// Validates details for a category and strips empty values; unknown keys are dropped
+export const validateAssetDetails = <C extends keyof AssetDetails>(category: C, details: Record<string, unknown>) => {
+  const result = assetDetailsSchemas[category].safeParse(details);
+  if (!result.success) return result;
+
+  const data = Object.fromEntries(Object.entries(result.data).filter(([, value]) => value !== "" && value !== undefined));
+  return { success: true as const, data: data as AssetDetails[C] };
+};
+
+// === Allocation Validation ===
+export const allocationKindSchema = z.enum(["percentage", "fixed_amount", "whole_item", "residuary"]);
+
+export type AllocationKind = z.infer<typeof allocationKindSchema>;
+
+export const lapseRuleSchema = z.enum(["redistribute", "per_stirpes"]);
+
+export type LapseRule = z.infer<typeof lapseRuleSchema>;
+
+export const allocationSchema = z
+  .object({
+    recipient_id: z.string().uuid("Choose a recipient"),
+    allocation_kind: allocationKindSchema,
+    allocation_percentage: z
+      .number()
+      .gt(0, "Shares must be more than 0%")
+      .max(100, "Shares cannot exceed 100%")
+      .multipleOf(0.01, "Shares can have at most 2 decimal places")
+      .nullable(),
+    fixed_amount: z.number().gt(0, "Amounts must be more than 0").max(999999999999, "Amount is too large").nullable(),
+    lapse_rule: lapseRuleSchema,
+    // Ordered: the first who survives the owner inherits
+    contingent_recipient_ids: z.array(z.string().uuid("Choose a contingent recipient")).max(5, "List at most 5 contingent recipients"),
+  })
+  .refine(
+    (a) =>
+      a.allocation_kind === "fixed_amount"
+        ? a.fixed_amount !== null
+        : a.allocation_kind === "whole_item" || a.allocation_percentage !== null,
+    (a) => ({ message: a.allocation_kind === "fixed_amount" ? "Enter an amount" : "Enter a percentage" }),
+  );
+
+export type AllocationInput = z.infer<typeof allocationSchema>;
+
+// Rules for the full set of allocations on one asset. Percentages split what is left of
+// an asset after its fixed amounts; whatever no one is given falls into the residuary estate.
+export function validateAllocations(
+  allocations: AllocationInput[],
+  asset: { category: string; estimated_value: number | null; ownership_percentage?: number | null },
+): { valid: boolean; error?: string } {
+  for (const allocation of allocations) {
+    const result = allocationSchema.safeParse(allocation);
+    if (!result.success) return { valid: false, error: result.error.errors[0].message };
+  }
+
+  if (new Set(allocations.map((a) => a.recipient_id)).size !== allocations.length) {
+    return { valid: false, error: "Each recipient can only be listed once" };
+  }
+
+  for (const allocation of allocations) {
+    const contingents = allocation.contingent_recipient_ids;
+    if (contingents.includes(allocation.recipient_id)) {
+      return { valid: false, error: "A recipient can't be their own contingent recipient" };
+    }
+    if (new Set(contingents).size !== contingents.length) {
+      return { valid: false, error: "Each contingent recipient can only be listed once per allocation" };
+    }
+  }
+
+  const isResiduary = asset.category === "residuary";
+  const allowed: AllocationKind[] = isResiduary ? ["residuary", "fixed_amount"] : ["percentage", "fixed_amount", "whole_item"];
+  if (allocations.some((a) => !allowed.includes(a.allocation_kind))) {
+    return {
+      valid: false,
+      error: isResiduary
+        ? "The residuary estate can only be left as shares or fixed amounts"
+        : "Residuary shares can only be given from the residuary estate",
+    };
+  }
+
+  if (allocations.some((a) => a.allocation_kind === "whole_item") && allocations.length > 1) {
+    return { valid: false, error: "An asset left as a whole item can only go to one recipient" };
+  }
+
+  const shares = allocations.filter((a) => a.allocation_kind === "percentage" || a.allocation_kind === "residuary");
+  const shareTotal = shares.reduce((sum, a) => sum + (a.allocation_percentage || 0), 0);
+  if (shares.length > 0 && Math.abs(shareTotal - 100) > 0.001) {
+    return { valid: false, error: "Percentage shares must total 100%" };
+  }
+
+  const fixedTotal = allocations.reduce((sum, a) => sum + (a.fixed_amount || 0), 0);
+  const share = asset.estimated_value ? (asset.estimated_value * (asset.ownership_percentage ?? 100)) / 100 : 0;
+  if (!isResiduary && share && fixedTotal > share) {
+    return { valid: false, error: "Fixed amounts add up to more than your share of the asset is worth" };
+  }
+
+  return { valid: true };
+}
+
 // === Recipient Validation ===
 export const recipientSchema = z.object({
   full_name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
@@ -20,6 +261,8 @@ export const recipientSchema = z.object({
 
 export type RecipientInput = z.infer<typeof recipientSchema>;
 
+export const personalMessageSchema = z.string().max(5000, "Message must be less than 5000 characters");
+
 // === Authentication Validation ===
 export const authSchema = z.object({
   email: z.string().trim().email("Invalid email address").max(255, "Email must be less than 255 characters"),
@@ -36,8 +279,58 @@ export type AuthInput = z.infer<typeof authSchema>;
 // === Will Content Validation ===
 export const willTranscriptSchema = z.string().max(50000, "Content is too long (max 50,000 characters)");
 
+export const writtenWillSchema = z.object({
+  title: z.string().trim().min(1, "Will title is required").max(200, "Title must be less than 200 characters"),
+  content: willTranscriptSchema,
+});
+
+export const amendmentSchema = z.object({
+  title: z.string().trim().min(1, "Amendment title is required").max(200, "Title must be less than 200 characters"),
+  content: z.string().trim().min(1, "Describe the change to your will").max(20000, "Amendment is too long (max 20,000 characters)"),
+  reason: z.string().trim().max(1000, "Reason must be less than 1000 characters").optional().or(z.literal("")),
+});
+
+export type AmendmentInput = z.infer<typeof amendmentSchema>;
+
 export const chatMessageSchema = z.string().trim().min(1, "Message cannot be empty").max(5000, "Message is too long (max 5,000 characters)");
 
+// === Signing Validation ===
+export const witnessSchema = z.object({
+  full_name: z.string().trim().min(1, "Witness name is required").max(100, "Name must be less than 100 characters"),
+  email: z.string().trim().email("Invalid witness email address").max(255, "Email must be less than 255 characters"),
+});
+
+export type WitnessInput = z.infer<typeof witnessSchema>;
+
+// === Liability Validation ===
+export const liabilitySchema = z.object({
+  name: z.string().trim().min(1, "Liability name is required").max(200, "Liability name must be less than 200 characters"),
+  category: z.enum(["mortgage", "car_loan", "credit_card", "personal_loan", "student_loan", "tax", "other"]),
+  amount: z.number().min(0, "Amount cannot be negative").max(999999999999, "Amount is too large"),
+  currency: currencyCodeSchema,
+  lender: z.string().trim().max(200, "Lender must be less than 200 characters").optional().or(z.literal("")),
+  notes: z.string().max(2000, "Notes must be less than 2000 characters").optional().or(z.literal("")),
+  secured_asset_id: z.string().uuid().nullable(),
+});
+
+export type LiabilityInput = z.infer<typeof liabilitySchema>;
+
+// === Vault Validation ===
+export const vaultPassphraseSchema = z
+  .string()
+  .min(12, "Vault passphrase must be at least 12 characters")
+  .max(256, "Vault passphrase must be less than 256 characters");
+
+export const vaultItemSchema = z.object({
+  item_type: z.enum(["login", "recovery_codes", "seed_location", "two_factor", "note"]),
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
+  username: z.string().trim().max(200, "Username must be less than 200 characters").optional().or(z.literal("")),
+  secret: z.string().min(1, "Enter the secret to store").max(10000, "Secret is too long (max 10,000 characters)"),
+  notes: z.string().max(5000, "Notes must be less than 5000 characters").optional().or(z.literal("")),
+});
+
+export type VaultItemInput = z.infer<typeof vaultItemSchema>;
+
 // === File Upload Validation ===
 export const ALLOWED_DOC_TYPES = [
   "application/pdf",
@@ -51,6 +344,7 @@ export const ALLOWED_DOC_EXTENSIONS = [".pdf", ".jpg", ".jpeg", ".png", ".doc",
 
 export const MAX_DOC_SIZE = 10 * 1024 * 1024; // 10MB
 export const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_AUDIO_SIZE = 50 * 1024 * 1024; // 50MB
 
 export function validateDocumentFile(file: File): { valid: boolean; error?: string } {
   // Check file size
@@ -85,3 +379,17 @@ export function validateVideoFile(blob: Blob): { valid: boolean; error?: string
 
   return { valid: true };
 }
+
+export function validateAudioFile(blob: Blob): { valid: boolean; error?: string } {
+  // Check file size
+  if (blob.size > MAX_AUDIO_SIZE) {
+    return { valid: false, error: "Audio too large. Maximum size is 50MB" };
+  }
+
+  // Check MIME type
+  if (!blob.type.startsWith("audio/")) {
+    return { valid: false, error: "Invalid audio format" };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,140 @@
+// Client-side encryption for the digital-asset vault (see the vaults migration for the
+// key hierarchy). Everything here runs in the browser with WebCrypto; passphrases, access
+// codes and unwrapped keys never leave it.
+
+export const KDF_ITERATIONS = 310000;
+
+export type VaultItemType = "login" | "recovery_codes" | "seed_location" | "two_factor" | "note";
+
+export const VAULT_ITEM_TYPES: { value: VaultItemType; label: string }[] = [
+  { value: "login", label: "Account login" },
+  { value: "recovery_codes", label: "Recovery codes" },
+  { value: "seed_location", label: "Wallet seed location" },
+  { value: "two_factor", label: "2FA backup codes" },
+  { value: "note", label: "Access note" },
+];
+
+// The encrypted payload of a vault item
+export interface VaultSecret {
+  title: string;
+  username?: string;
+  secret: string;
+  notes?: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+export const newSalt = () => toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+export const deriveKey = async (secret: string, salt: string, iterations: number) => {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(secret), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+export const generateKey = () =>
+  crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]) as Promise<CryptoKey>;
+
+// AES-GCM with a random IV, packed as base64(iv || ciphertext)
+const encryptBytes = async (key: CryptoKey, bytes: Uint8Array) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes));
+  const packed = new Uint8Array(iv.length + ciphertext.length);
+  packed.set(iv);
+  packed.set(ciphertext, iv.length);
+  return toBase64(packed);
+};
+
+const decryptBytes = async (key: CryptoKey, packed: string) => {
+  const bytes = fromBase64(packed);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: bytes.slice(0, 12) }, key, bytes.slice(12)));
+};
+
+export const wrapKey = async (key: CryptoKey, wrappingKey: CryptoKey) =>
+  encryptBytes(wrappingKey, new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+
+// Throws if the wrapping key is wrong (AES-GCM authentication fails)
+export const unwrapKey = async (wrapped: string, wrappingKey: CryptoKey) =>
+  crypto.subtle.importKey("raw", await decryptBytes(wrappingKey, wrapped), "AES-GCM", true, ["encrypt", "decrypt"]);
+
+export const encryptSecret = (key: CryptoKey, secret: VaultSecret) => encryptBytes(key, encoder.encode(JSON.stringify(secret)));
+
+export const decryptSecret = async (key: CryptoKey, ciphertext: string): Promise<VaultSecret> =>
+  JSON.parse(decoder.decode(await decryptBytes(key, ciphertext)));
+
+// === Access codes ===
+// 160 random bits in Crockford base32, grouped for reading aloud or writing down
+const BASE32 = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+export const newAccessCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  let bits = "";
+  bytes.forEach((b) => (bits += b.toString(2).padStart(8, "0")));
+  const chars = bits.match(/.{5}/g)!.map((chunk) => BASE32[parseInt(chunk, 2)]);
+  return chars.join("").match(/.{4}/g)!.join("-");
+};
+
+export const normalizeAccessCode = (code: string) =>
+  code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+
+export const isAccessCode = (code: string) => /^[0-9A-HJKMNP-TV-Z]{32}$/.test(normalizeAccessCode(code));
+
+// What the server stores and looks codes up by. Domain-separated from the key derivation,
+// and the code has too much entropy for the hash to be reversed.
+export const accessCodeHash = async (code: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`vault-access:${normalizeAccessCode(code)}`));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+// === Vault and recipient keys ===
+export const createVaultKey = async (passphrase: string) => {
+  const vaultKey = await generateKey();
+  const salt = newSalt();
+  const passphraseKey = await deriveKey(passphrase, salt, KDF_ITERATIONS);
+  return {
+    vaultKey,
+    row: { kdf_salt: salt, kdf_iterations: KDF_ITERATIONS, wrapped_vault_key: await wrapKey(vaultKey, passphraseKey) },
+  };
+};
+
+export const unlockVaultKey = async (
+  vault: { kdf_salt: string; kdf_iterations: number; wrapped_vault_key: string },
+  passphrase: string,
+) => unwrapKey(vault.wrapped_vault_key, await deriveKey(passphrase, vault.kdf_salt, vault.kdf_iterations));
+
+export const createRecipientKey = async (vaultKey: CryptoKey) => {
+  const code = newAccessCode();
+  const recipientKey = await generateKey();
+  const salt = newSalt();
+  const codeKey = await deriveKey(normalizeAccessCode(code), salt, KDF_ITERATIONS);
+  return {
+    code,
+    recipientKey,
+    row: {
+      access_code_hash: await accessCodeHash(code),
+      kdf_salt: salt,
+      kdf_iterations: KDF_ITERATIONS,
+      wrapped_by_code: await wrapKey(recipientKey, codeKey),
+      wrapped_by_vault: await wrapKey(recipientKey, vaultKey),
+    },
+  };
+};
+
+export const openRecipientKey = async (
+  key: { kdf_salt: string; kdf_iterations: number; wrapped_by_code: string },
+  code: string,
+) => unwrapKey(key.wrapped_by_code, await deriveKey(normalizeAccessCode(code), key.kdf_salt, key.kdf_iterations));
@@ -0,0 +1,91 @@
+// Written wills are stored in `wills.content` as a small Markdown subset so they stay
+// readable everywhere else the content is shown (review previews, version diffs):
+//
+//   ## 1. Heading
+//
+//   1.1. Clause text, which may use **bold** and *italic*
+//
+// Sections and clauses are numbered on save; the numbers are ignored when parsing.
+
+export interface WillClause {
+  id: string;
+  text: string;
+}
+
+export interface WillSection {
+  id: string;
+  heading: string;
+  clauses: WillClause[];
+}
+
+const newId = () => crypto.randomUUID();
+
+export const createClause = (text = ""): WillClause => ({ id: newId(), text });
+
+export const createSection = (heading = "", clauses: string[] = [""]): WillSection => ({
+  id: newId(),
+  heading,
+  clauses: clauses.map((text) => createClause(text)),
+});
+
+export const defaultWillSections = (): WillSection[] => [
+  createSection("Declaration", [
+    "I, [full legal name], of [address], declare this to be my last will and testament.",
+    "I revoke all wills and codicils previously made by me.",
+  ]),
+  createSection("Executor", ["I appoint [name] as the executor of this will."]),
+  createSection("Gifts", [""]),
+  createSection("Residuary Estate", ["I give the rest of my estate to [name]."]),
+];
+
+const HEADING = /^##\s+(?:\d+\.\s*)?(.*)$/;
+const CLAUSE = /^\d+\.\d+\.?\s+(.*)$/;
+
+export const parseWillDocument = (content: string | null): WillSection[] => {
+  if (!content?.trim()) return [];
+
+  const sections: WillSection[] = [];
+  let current: WillSection | null = null;
+  let clause: WillClause | null = null;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trimEnd();
+    if (!line.trim()) continue;
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      current = { id: newId(), heading: heading[1].trim(), clauses: [] };
+      sections.push(current);
+      clause = null;
+      continue;
+    }
+
+    // Text before the first heading (e.g. content from another will type) gets its own section
+    if (!current) {
+      current = { id: newId(), heading: "", clauses: [] };
+      sections.push(current);
+    }
+
+    const numbered = line.match(CLAUSE);
+    if (numbered || !clause) {
+      clause = createClause(numbered ? numbered[1] : line.trim());
+      current.clauses.push(clause);
+    } else {
+      clause.text += `\n${line.trim()}`;
+    }
+  }
+
+  return sections.map((s) => (s.clauses.length ? s : { ...s, clauses: [createClause()] }));
+};
+
+export const serializeWillDocument = (sections: WillSection[]): string =>
+  sections
+    .map((section, i) => {
+      const heading = `## ${i + 1}. ${section.heading.trim() || "Untitled Section"}`;
+      const clauses = section.clauses
+        .map((c) => c.text.trim().replace(/\n\s*\n+/g, "\n"))
+        .filter(Boolean)
+        .map((text, j) => `${i + 1}.${j + 1}. ${text}`);
+      return [heading, ...clauses].join("\n\n");
+    })
+    .join("\n\n");
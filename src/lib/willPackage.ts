@@ -0,0 +1,130 @@
+import { supabase } from "@/integrations/supabase/client";
+import { loadCurrencySettings, type CurrencySettings } from "@/lib/currency";
+import { isResiduary, pickResiduary } from "@/lib/estate";
+
+// Everything that makes up an exported will: the will itself plus the assets,
+// allocations and recipients it distributes. Shapes are the subset of the table
+// rows the export needs, so rows loaded elsewhere can be passed in directly.
+export interface WillPackage {
+  owner: string | null;
+  will: {
+    id: string;
+    title: string;
+    type: string;
+    status: string;
+    content: string | null;
+    transcript: string | null;
+    updated_at: string;
+  };
+  assets: {
+    id: string;
+    name: string;
+    category: string;
+    estimated_value: number | null;
+    currency?: string | null;
+    description: string | null;
+    ownership_percentage?: number | null;
+    co_owners?: string | null;
+    right_of_survivorship?: boolean | null;
+  }[];
+  recipients: {
+    id: string;
+    full_name: string;
+    email: string | null;
+    relationship: string | null;
+  }[];
+  allocations: {
+    asset_id: string;
+    recipient_id: string;
+    allocation_kind?: string | null;
+    allocation_percentage: number | null;
+    fixed_amount?: number | null;
+    lapse_rule?: string | null;
+    contingents?: { recipient_id: string; position: number }[] | null;
+  }[];
+  // Signing record; not part of the hashed content, since signers attest to that hash
+  signatures?: WillPackageSignature[];
+  // Owner's reporting currency and rates for the estate total; not hashed either
+  valuation?: CurrencySettings;
+}
+
+export interface WillPackageSignature {
+  role: string;
+  signer_name: string;
+  signature_type: string;
+  signature_data: string;
+  document_hash: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  signed_at: string;
+}
+
+export const loadWillSignatures = async (willId: string): Promise<WillPackageSignature[]> => {
+  const { data, error } = await supabase
+    .from("will_signatures")
+    .select("role, signer_name, signature_type, signature_data, document_hash, ip_address, user_agent, signed_at")
+    .eq("will_id", willId)
+    .order("signed_at");
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Loads the requested will, falling back to the primary (then most recent) one
+export const loadWillPackage = async (userId: string, willId: string | null): Promise<WillPackage | null> => {
+  const [willsRes, assetsRes, recipientsRes, allocationsRes, profileRes, valuation] = await Promise.all([
+    supabase
+      .from("wills")
+      .select("id, title, type, status, content, transcript, is_primary, updated_at")
+      .order("updated_at", { ascending: false }),
+    supabase
+      .from("assets")
+      .select(
+        "id, will_id, name, category, estimated_value, currency, description, ownership_percentage, co_owners, right_of_survivorship",
+      )
+      .order("created_at", { ascending: false }),
+    supabase.from("recipients").select("id, full_name, email, relationship").order("full_name"),
+    supabase
+      .from("asset_allocations")
+      .select(
+        "asset_id, recipient_id, allocation_kind, allocation_percentage, fixed_amount, lapse_rule, contingents:allocation_contingents(recipient_id, position)",
+      ),
+    supabase.from("profiles").select("full_name").eq("user_id", userId).maybeSingle(),
+    loadCurrencySettings(userId),
+  ]);
+
+  if (willsRes.error) throw willsRes.error;
+  if (assetsRes.error) throw assetsRes.error;
+  if (recipientsRes.error) throw recipientsRes.error;
+  if (allocationsRes.error) throw allocationsRes.error;
+
+  const wills = willsRes.data || [];
+  const will = wills.find((w) => w.id === willId) || wills.find((w) => w.is_primary) || wills[0];
+  if (!will) return null;
+
+  // Finalizing ties the unassigned assets to the will, so afterwards only its own count
+  const willAssets = (assetsRes.data || []).filter(
+    (a) => a.will_id === will.id || (!a.will_id && will.status !== "completed"),
+  );
+  const residuary = pickResiduary(willAssets, will.id);
+
+  return {
+    owner: profileRes.data?.full_name || null,
+    will,
+    assets: willAssets.filter((a) => !isResiduary(a) || a === residuary),
+    recipients: recipientsRes.data || [],
+    allocations: allocationsRes.data || [],
+    signatures: await loadWillSignatures(will.id),
+    valuation,
+  };
+};
+
+// The hash witnesses and the owner sign. Only the will-signing function computes it,
+// from the will as stored, so the app never has its own copy of the canonical form.
+export const fetchWillHash = async (willId: string): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke("will-signing", {
+    body: { action: "hash", willId },
+  });
+  if (error) throw error;
+  return (data as { documentHash: string }).documentHash;
+};
@@ -0,0 +1,359 @@
+import { PAGE_HEIGHT, PAGE_WIDTH, renderPdf, textWidth, wrapText, type PdfFont, type PdfPage } from "@/lib/pdf";
+import { DEFAULT_CURRENCY, formatMoney, totalInCurrency } from "@/lib/currency";
+import { describeAllocation, describeFallback, describeOwnership, estateValue, isResiduary, ownerShare } from "@/lib/estate";
+import { decodeStrokes } from "@/lib/signature";
+import { fetchWillHash, type WillPackage, type WillPackageSignature } from "@/lib/willPackage";
+
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 40;
+
+interface Cell {
+  text: string;
+  width: number;
+  font?: PdfFont;
+  muted?: boolean;
+  align?: "left" | "right";
+}
+
+// Top-down flow layout: callers add blocks and pages break automatically
+const createLayout = () => {
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { texts: [], rules: [] };
+  let y = 0;
+
+  const newPage = () => {
+    page = { texts: [], rules: [] };
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensure = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) newPage();
+  };
+
+  const space = (height: number) => {
+    y -= height;
+  };
+
+  const text = (value: string, options: { size?: number; font?: PdfFont; muted?: boolean; indent?: number } = {}) => {
+    const { size = 10, font = "regular", muted, indent = 0 } = options;
+    for (const line of wrapText(value, CONTENT_WIDTH - indent, size, font)) {
+      ensure(size * 1.4);
+      y -= size;
+      page.texts.push({ x: MARGIN + indent, y, text: line, size, font, muted });
+      y -= size * 0.4;
+    }
+  };
+
+  const heading = (value: string) => {
+    ensure(60);
+    space(14);
+    text(value, { size: 13, font: "bold" });
+    page.rules.push({ x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y });
+    space(8);
+  };
+
+  const row = (cells: Cell[], size = 9) => {
+    const wrapped = cells.map((cell) => wrapText(cell.text, cell.width - 6, size, cell.font));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * size * 1.4 + 4;
+    ensure(height);
+
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      wrapped[i].forEach((line, j) => {
+        const lineX = cell.align === "right" ? x + cell.width - 6 - textWidth(line, size, cell.font) : x;
+        page.texts.push({ x: lineX, y: y - size - j * size * 1.4, text: line, size, font: cell.font, muted: cell.muted });
+      });
+      x += cell.width;
+    });
+    y -= height;
+    page.rules.push({ x1: MARGIN, y1: y + 2, x2: PAGE_WIDTH - MARGIN, y2: y + 2, width: 0.25 });
+  };
+
+  const signatureLine = (label: string) => {
+    ensure(34);
+    space(26);
+    page.rules.push({ x1: MARGIN, y1: y, x2: MARGIN + 260, y2: y });
+    space(10);
+    page.texts.push({ x: MARGIN, y, text: label, size: 8, muted: true });
+  };
+
+  // Redraws a drawn signature from its strokes (0..1 coordinates, y pointing down)
+  const drawing = (strokes: [number, number][][], width: number, height: number) => {
+    ensure(height + 4);
+    const top = y;
+    for (const stroke of strokes) {
+      for (let i = 1; i < stroke.length; i++) {
+        page.rules.push({
+          x1: MARGIN + stroke[i - 1][0] * width,
+          y1: top - stroke[i - 1][1] * height,
+          x2: MARGIN + stroke[i][0] * width,
+          y2: top - stroke[i][1] * height,
+          width: 1,
+        });
+      }
+    }
+    y -= height + 4;
+  };
+
+  newPage();
+  return { pages, ensure, space, text, heading, row, signatureLine, drawing };
+};
+
+// The owner's reporting currency when the package has rates, otherwise the assets' own
+// currency if they all share one; null when mixed currencies can't be added up. Only the
+// owner's share of each asset counts, and none of a share passing by survivorship.
+const estateTotal = (pkg: WillPackage) => {
+  const currencies = new Set(pkg.assets.filter((a) => !isResiduary(a)).map((a) => a.currency || DEFAULT_CURRENCY));
+  const currency = pkg.valuation?.reportingCurrency || (currencies.size <= 1 ? [...currencies][0] : null);
+  if (!currency) return null;
+
+  const owned = pkg.assets.map((a) => ({ ...a, estimated_value: estateValue(a) }));
+  const { total, missing } = totalInCurrency(owned, currency, pkg.valuation?.rates || []);
+  return { total, currency, missing };
+};
+
+const formatLabel = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+// Written wills use a small Markdown subset; print headings bold and drop inline markers
+const writeWillText = (layout: ReturnType<typeof createLayout>, value: string) => {
+  for (const line of value.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      layout.space(4);
+    } else if (/^#{1,6}\s/.test(trimmed)) {
+      layout.space(4);
+      layout.text(trimmed.replace(/^#{1,6}\s+/, ""), { size: 11, font: "bold" });
+    } else {
+      layout.text(trimmed.replace(/\*\*([^*]+)\*\*/g, "$1").replace(/\*([^*]+)\*/g, "$1"));
+    }
+  }
+};
+
+// Lines to sign by hand when the will has no electronic signatures
+const writeBlankSignatures = (layout: ReturnType<typeof createLayout>) => {
+  layout.text(
+    "Signed by the testator as their last will, in our presence, and then by us as witnesses in the presence of the testator and of each other.",
+    { size: 9 },
+  );
+  layout.ensure(110);
+  layout.space(6);
+  layout.text("Testator", { font: "bold" });
+  layout.signatureLine("Signature");
+  layout.signatureLine("Date");
+  for (const witness of ["Witness 1", "Witness 2"]) {
+    layout.ensure(160);
+    layout.space(14);
+    layout.text(witness, { font: "bold" });
+    layout.signatureLine("Signature");
+    layout.signatureLine("Full name");
+    layout.signatureLine("Address");
+    layout.signatureLine("Date");
+  }
+};
+
+const writeSignature = (layout: ReturnType<typeof createLayout>, signature: WillPackageSignature, hash: string) => {
+  layout.ensure(110);
+  layout.space(10);
+  layout.text(`${signature.role === "testator" ? "Testator" : "Witness"}: ${signature.signer_name}`, { font: "bold" });
+
+  if (signature.signature_type === "drawn") {
+    layout.drawing(decodeStrokes(signature.signature_data), 180, 60);
+  } else {
+    layout.text(signature.signature_data, { size: 16 });
+  }
+
+  layout.text(
+    [
+      `Signed electronically ${new Date(signature.signed_at).toLocaleString()}`,
+      signature.ip_address && `IP ${signature.ip_address}`,
+      signature.user_agent,
+    ]
+      .filter(Boolean)
+      .join(" • "),
+    { size: 7, muted: true },
+  );
+  if (signature.document_hash !== hash) {
+    layout.text(`Signed an earlier version of this will (hash ${signature.document_hash.slice(0, 16)}…)`, {
+      size: 7,
+      muted: true,
+    });
+  }
+};
+
+const layoutWill = (pkg: WillPackage, hash: string): PdfPage[] => {
+  const layout = createLayout();
+  const { will, recipients, allocations } = pkg;
+  const assets = pkg.assets.filter((a) => !isResiduary(a));
+  const residuary = pkg.assets.find(isResiduary);
+  const recipientName = (id: string) => recipients.find((r) => r.id === id)?.full_name || "Unknown recipient";
+
+  // Title
+  layout.text("LAST WILL AND TESTAMENT", { size: 9, font: "bold", muted: true });
+  layout.space(4);
+  layout.text(will.title, { size: 20, font: "bold" });
+  if (pkg.owner) layout.text(`of ${pkg.owner}`, { size: 12 });
+  layout.space(4);
+  layout.text(
+    `${formatLabel(will.type)} will • Status: ${formatLabel(will.status)} • Last updated ${new Date(will.updated_at).toLocaleDateString()}`,
+    { size: 9, muted: true },
+  );
+
+  // Will
+  layout.heading("1. Will");
+  if (will.content?.trim()) {
+    writeWillText(layout, will.content);
+  }
+  if (will.transcript?.trim() && will.transcript !== will.content) {
+    if (will.content?.trim()) layout.space(8);
+    layout.text("Transcript", { size: 11, font: "bold" });
+    layout.text(will.transcript);
+  }
+  if (!will.content?.trim() && !will.transcript?.trim()) {
+    layout.text("This will has no written content or transcript.", { muted: true });
+  }
+
+  // Assets
+  layout.heading("2. Assets");
+  if (assets.length === 0) {
+    layout.text("No assets have been added.", { muted: true });
+  } else {
+    const columns = [CONTENT_WIDTH * 0.45, CONTENT_WIDTH * 0.25, CONTENT_WIDTH * 0.3];
+    layout.row([
+      { text: "Asset", width: columns[0], font: "bold" },
+      { text: "Category", width: columns[1], font: "bold" },
+      { text: "Estimated value", width: columns[2], font: "bold", align: "right" },
+    ]);
+    for (const asset of assets) {
+      const name = asset.description ? `${asset.name} — ${asset.description}` : asset.name;
+      const ownership = describeOwnership(asset);
+      layout.row([
+        { text: ownership ? `${name} (owned ${ownership})` : name, width: columns[0] },
+        { text: formatLabel(asset.category), width: columns[1] },
+        { text: formatMoney(ownerShare(asset), asset.currency), width: columns[2], align: "right" },
+      ]);
+    }
+    const total = estateTotal(pkg);
+    if (total) {
+      layout.row([
+        { text: `Total (${total.currency})`, width: columns[0] + columns[1], font: "bold" },
+        { text: formatMoney(total.total, total.currency), width: columns[2], font: "bold", align: "right" },
+      ]);
+      if (assets.some((a) => a.right_of_survivorship)) {
+        layout.text("Shares that pass to a co-owner by survivorship are not part of the estate and are left out of the total.", {
+          size: 8,
+          muted: true,
+        });
+      }
+      if (total.missing.length > 0) {
+        layout.text(`Excludes assets in ${total.missing.join(", ")}, which have no exchange rate to ${total.currency}.`, {
+          size: 8,
+          muted: true,
+        });
+      }
+    } else {
+      layout.text("Assets are held in several currencies; no total is given.", { size: 8, muted: true });
+    }
+  }
+
+  // Allocations
+  layout.heading("3. Allocations");
+  if (assets.length === 0) {
+    layout.text("No assets to allocate.", { muted: true });
+  }
+  for (const asset of residuary ? [...assets, residuary] : assets) {
+    const shares = allocations.filter((a) => a.asset_id === asset.id);
+    const percentages = shares.filter((a) => a.allocation_percentage !== null);
+    const total = percentages.reduce((sum, a) => sum + Number(a.allocation_percentage), 0);
+
+    layout.ensure(40);
+    layout.space(4);
+    layout.text(isResiduary(asset) ? "Residuary estate (everything not otherwise left)" : asset.name, { font: "bold" });
+    if (shares.length === 0) {
+      layout.text("Not allocated", { indent: 12, muted: true });
+      continue;
+    }
+    for (const share of shares) {
+      layout.row([
+        { text: recipientName(share.recipient_id), width: CONTENT_WIDTH * 0.7 },
+        { text: describeAllocation(share, asset.currency), width: CONTENT_WIDTH * 0.3, align: "right" },
+      ]);
+      layout.text(`If ${recipientName(share.recipient_id)} dies first: ${describeFallback(share, recipientName)}`, {
+        indent: 12,
+        size: 8,
+        muted: true,
+      });
+    }
+    if (percentages.length > 0 && total !== 100) {
+      layout.text(`Only ${total}% of this asset is allocated.`, { size: 8, muted: true });
+    } else if (percentages.length === 0 && !shares.some((a) => a.allocation_kind === "whole_item") && !isResiduary(asset)) {
+      layout.text("The rest of this asset passes with the residuary estate.", { size: 8, muted: true });
+    }
+  }
+
+  // Recipients
+  layout.heading("4. Recipients");
+  if (recipients.length === 0) {
+    layout.text("No recipients have been added.", { muted: true });
+  } else {
+    const columns = [CONTENT_WIDTH * 0.35, CONTENT_WIDTH * 0.25, CONTENT_WIDTH * 0.4];
+    layout.row([
+      { text: "Name", width: columns[0], font: "bold" },
+      { text: "Relationship", width: columns[1], font: "bold" },
+      { text: "Email", width: columns[2], font: "bold" },
+    ]);
+    for (const recipient of recipients) {
+      layout.row([
+        { text: recipient.full_name, width: columns[0] },
+        { text: recipient.relationship || "—", width: columns[1] },
+        { text: recipient.email || "—", width: columns[2] },
+      ]);
+    }
+  }
+
+  // Signatures
+  layout.heading("5. Signatures");
+  if (pkg.signatures?.length) {
+    layout.text("This will was signed electronically. Each signature records the hash of the version it attests.", {
+      size: 9,
+    });
+    for (const signature of pkg.signatures) writeSignature(layout, signature, hash);
+  } else {
+    writeBlankSignatures(layout);
+  }
+
+  // Footer on every page
+  layout.pages.forEach((page, i) => {
+    const pageLabel = `Page ${i + 1} of ${layout.pages.length}`;
+    page.rules.push({ x1: MARGIN, y1: MARGIN + 18, x2: PAGE_WIDTH - MARGIN, y2: MARGIN + 18, width: 0.25 });
+    page.texts.push({ x: MARGIN, y: MARGIN + 4, text: `Document hash (SHA-256): ${hash}`, size: 7, muted: true });
+    page.texts.push({
+      x: PAGE_WIDTH - MARGIN - textWidth(pageLabel, 7),
+      y: MARGIN + 4,
+      text: pageLabel,
+      size: 7,
+      muted: true,
+    });
+  });
+
+  return layout.pages;
+};
+
+export const generateWillPdf = async (pkg: WillPackage) => {
+  const hash = await fetchWillHash(pkg.will.id);
+  return { blob: renderPdf(layoutWill(pkg, hash)), hash };
+};
+
+export const downloadWillPdf = async (pkg: WillPackage) => {
+  const { blob, hash } = await generateWillPdf(pkg);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${pkg.will.title.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "will"}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  return hash;
+};
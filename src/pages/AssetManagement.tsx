@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -22,18 +22,55 @@ import {
   FileText,
   UserPlus,
   Percent,
-  Upload,
-  Download,
-  File,
+  Coins,
+  ClipboardList,
+  KeyRound,
 } from "lucide-react";
-import { Input } from "@/components/ui/input";
 import Header from "@/components/layout/Header";
+import AssetDocuments, { type AssetDocument } from "@/components/assets/AssetDocuments";
+import AssetDetailsFields from "@/components/assets/AssetDetailsFields";
+import OwnershipFields from "@/components/assets/OwnershipFields";
+import CurrencySettings from "@/components/assets/CurrencySettings";
+import Liabilities from "@/components/assets/Liabilities";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
-import { assetSchema, validateDocumentFile } from "@/lib/validations";
-
-type AssetCategory = "property" | "investment" | "bank_account" | "vehicle" | "jewelry" | "digital_asset" | "insurance" | "business" | "other";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  convertAmount,
+  formatMoney,
+  loadCurrencySettings,
+  type CurrencySettings as CurrencySettingsData,
+} from "@/lib/currency";
+import {
+  ALLOCATION_KINDS,
+  LAPSE_RULES,
+  RESIDUARY_CATEGORY,
+  calculateNetEstate,
+  contingentIds,
+  describeAllocation,
+  describeFallback,
+  describeOwnership,
+  isResiduary,
+  ownerShare,
+  pickResiduary,
+  type Liability,
+} from "@/lib/estate";
+import { describeAssetDetails, parseAssetDetails } from "@/lib/assetDetails";
+import {
+  SOLE_OWNERSHIP,
+  assetSchema,
+  validateAllocations,
+  validateAssetDetails,
+  validateAssetOwnership,
+  type AllocationKind,
+  type AssetOwnershipDraft,
+  type LapseRule,
+} from "@/lib/validations";
+
+type AssetCategory = "property" | "investment" | "bank_account" | "vehicle" | "jewelry" | "digital_asset" | "insurance" | "business" | "other" | "residuary";
 
 interface Recipient {
   id: string;
@@ -44,38 +81,99 @@ interface Allocation {
   id: string;
   asset_id: string;
   recipient_id: string;
-  allocation_percentage: number;
+  allocation_kind: string;
+  allocation_percentage: number | null;
+  fixed_amount: number | null;
+  lapse_rule: string;
+  contingents: { recipient_id: string; position: number }[];
   recipient?: Recipient;
 }
 
+// One row of the allocation modal
+interface AllocationRow {
+  recipientId: string;
+  kind: AllocationKind;
+  value: string;
+  lapseRule: LapseRule;
+  contingentIds: string[];
+}
+
+// What save_asset_allocations returns; index points at the offending row, when there is one
+interface AllocationSaveResult {
+  ok: boolean;
+  error?:
+    | "asset_not_found"
+    | "invalid_allocation"
+    | "unknown_recipient"
+    | "duplicate_recipient"
+    | "invalid_kind"
+    | "invalid_contingent"
+    | "whole_item_not_alone"
+    | "shares_not_100"
+    | "fixed_exceeds_value"
+    | "will_completed";
+  message?: string;
+  index?: number;
+}
+
+interface Will {
+  id: string;
+  title: string;
+  status: string;
+  is_primary: boolean;
+}
+
 interface Asset {
   id: string;
+  will_id: string | null;
   name: string;
   category: AssetCategory;
   estimated_value: number | null;
+  currency: string;
   description: string | null;
   location: string | null;
-  documents_url: string | null;
+  details: Json;
+  ownership_percentage: number;
+  co_owners: string | null;
+  right_of_survivorship: boolean;
   allocations?: Allocation[];
+  documents?: AssetDocument[];
+  vaultItemCount?: number;
 }
 
 const AssetManagement = () => {
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const requestedWillId = searchParams.get("will");
+  const [wills, setWills] = useState<Will[]>([]);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
+  const [residuaryAssets, setResiduaryAssets] = useState<Asset[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showAllocationModal, setShowAllocationModal] = useState(false);
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
-  const [allocations, setAllocations] = useState<{ recipientId: string; percentage: string }[]>([]);
-  const [uploadingAssetId, setUploadingAssetId] = useState<string | null>(null);
+  const [allocations, setAllocations] = useState<AllocationRow[]>([]);
+  const [allocationError, setAllocationError] = useState<{ message: string; index?: number } | null>(null);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettingsData>({
+    reportingCurrency: DEFAULT_CURRENCY,
+    rates: [],
+  });
+  const [showCurrencyModal, setShowCurrencyModal] = useState(false);
   const [newAsset, setNewAsset] = useState({
     name: "",
     category: "property" as AssetCategory,
     estimated_value: "",
+    currency: DEFAULT_CURRENCY,
     description: "",
+    details: {} as Record<string, string>,
+    ownership: SOLE_OWNERSHIP,
   });
+  const [detailsAsset, setDetailsAsset] = useState<Asset | null>(null);
+  const [detailsDraft, setDetailsDraft] = useState<Record<string, string>>({});
+  const [ownershipDraft, setOwnershipDraft] = useState<AssetOwnershipDraft>(SOLE_OWNERSHIP);
 
   const categories = [
     { id: "property", icon: Home, label: "Property" },
@@ -93,17 +191,43 @@ const AssetManagement = () => {
     if (user) fetchData();
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    loadCurrencySettings(user.id)
+      .then((settings) => {
+        setCurrencySettings(settings);
+        setNewAsset((prev) => ({ ...prev, currency: settings.reportingCurrency }));
+      })
+      .catch((error) => {
+        console.error("Error loading currency settings:", error);
+        toast.error("Failed to load currency settings");
+      });
+  }, [user]);
+
   const fetchData = async () => {
     try {
-      const [assetsRes, recipientsRes, allocationsRes] = await Promise.all([
+      const [assetsRes, recipientsRes, allocationsRes, willsRes, documentsRes, vaultItemsRes, liabilitiesRes] = await Promise.all([
         supabase.from("assets").select("*").order("created_at", { ascending: false }),
         supabase.from("recipients").select("id, full_name").order("full_name"),
-        supabase.from("asset_allocations").select("*"),
+        supabase.from("asset_allocations").select("*, contingents:allocation_contingents(recipient_id, position)"),
+        supabase.from("wills").select("id, title, status, is_primary").order("updated_at", { ascending: false }),
+        supabase
+          .from("asset_documents")
+          .select("id, asset_id, name, description, mime_type, size_bytes, storage_path, uploaded_at")
+          .order("uploaded_at"),
+        supabase.from("vault_items").select("asset_id").not("asset_id", "is", null),
+        supabase
+          .from("liabilities")
+          .select("id, name, category, amount, currency, lender, notes, secured_asset_id")
+          .order("created_at"),
       ]);
 
       if (assetsRes.error) throw assetsRes.error;
       if (recipientsRes.error) throw recipientsRes.error;
       if (allocationsRes.error) throw allocationsRes.error;
+      if (willsRes.error) throw willsRes.error;
+      if (documentsRes.error) throw documentsRes.error;
+      if (liabilitiesRes.error) throw liabilitiesRes.error;
 
       const assetsWithAllocations = (assetsRes.data || []).map((asset) => ({
         ...asset,
@@ -113,10 +237,15 @@ const AssetManagement = () => {
             ...a,
             recipient: recipientsRes.data?.find((r) => r.id === a.recipient_id),
           })),
+        documents: (documentsRes.data || []).filter((d) => d.asset_id === asset.id),
+        vaultItemCount: (vaultItemsRes.data || []).filter((v) => v.asset_id === asset.id).length,
       }));
 
-      setAssets(assetsWithAllocations);
+      setAssets(assetsWithAllocations.filter((a) => !isResiduary(a)));
+      setResiduaryAssets(assetsWithAllocations.filter(isResiduary));
       setRecipients(recipientsRes.data || []);
+      setLiabilities(liabilitiesRes.data || []);
+      setWills(willsRes.data || []);
     } catch (error) {
       console.error("Error fetching data:", error);
       toast.error("Failed to load data");
@@ -125,6 +254,17 @@ const AssetManagement = () => {
     }
   };
 
+  // A finalized will can't be changed, so neither can the assets it distributes
+  const isWillCompleted = (willId: string | null) => wills.some((w) => w.id === willId && w.status === "completed");
+  const isLocked = (asset: Asset) => isWillCompleted(asset.will_id);
+
+  // New assets go to the will we arrived from, or the primary will, unless it is finalized
+  const openWills = wills.filter((w) => w.status !== "completed");
+  const activeWillId = openWills.some((w) => w.id === requestedWillId)
+    ? requestedWillId
+    : openWills.find((w) => w.is_primary)?.id || null;
+  const residuary = pickResiduary(residuaryAssets, activeWillId);
+
   const getCategoryIcon = (category: AssetCategory) => {
     const cat = categories.find((c) => c.id === category);
     return cat?.icon || Package;
@@ -146,6 +286,7 @@ const AssetManagement = () => {
       description: newAsset.description.trim() || undefined,
       estimated_value: parsedValue,
       category: newAsset.category,
+      currency: newAsset.currency,
     });
 
     if (!validation.success) {
@@ -156,16 +297,34 @@ const AssetManagement = () => {
 
     const validatedData = validation.data;
 
+    const detailsValidation = validateAssetDetails(validatedData.category, newAsset.details);
+    if (detailsValidation.success === false) {
+      toast.error(detailsValidation.error.errors[0].message);
+      return;
+    }
+
+    const ownershipValidation = validateAssetOwnership(newAsset.ownership);
+    if (!ownershipValidation.success) {
+      toast.error(ownershipValidation.error.errors[0].message);
+      return;
+    }
+
     setSaving(true);
     try {
       const { data, error } = await supabase
         .from("assets")
         .insert({
           user_id: user.id,
+          will_id: activeWillId,
           name: validatedData.name,
           category: validatedData.category,
           estimated_value: validatedData.estimated_value,
+          currency: validatedData.currency,
           description: validatedData.description || null,
+          details: detailsValidation.data,
+          ownership_percentage: ownershipValidation.data.ownership_percentage,
+          co_owners: ownershipValidation.data.co_owners || null,
+          right_of_survivorship: ownershipValidation.data.right_of_survivorship,
         })
         .select()
         .single();
@@ -173,7 +332,15 @@ const AssetManagement = () => {
       if (error) throw error;
 
       setAssets([{ ...data, allocations: [] }, ...assets]);
-      setNewAsset({ name: "", category: "property", estimated_value: "", description: "" });
+      setNewAsset({
+        name: "",
+        category: "property",
+        estimated_value: "",
+        currency: currencySettings.reportingCurrency,
+        description: "",
+        details: {},
+        ownership: SOLE_OWNERSHIP,
+      });
       setShowAddModal(false);
       toast.success("Asset added successfully");
     } catch (error) {
@@ -186,10 +353,19 @@ const AssetManagement = () => {
 
   const handleDeleteAsset = async (id: string) => {
     try {
+      // Document rows cascade with the asset, but their files have to be removed from storage
+      const paths = assets.find((a) => a.id === id)?.documents?.map((d) => d.storage_path) || [];
+      if (paths.length > 0) {
+        const { error: storageError } = await supabase.storage.from("asset-documents").remove(paths);
+        if (storageError) throw storageError;
+      }
+
       const { error } = await supabase.from("assets").delete().eq("id", id);
       if (error) throw error;
 
       setAssets(assets.filter((a) => a.id !== id));
+      // The database unlinks secured liabilities; they stay as unsecured debts
+      setLiabilities((prev) => prev.map((l) => (l.secured_asset_id === id ? { ...l, secured_asset_id: null } : l)));
       toast.success("Asset deleted");
     } catch (error) {
       console.error("Error deleting asset:", error);
@@ -199,10 +375,14 @@ const AssetManagement = () => {
 
   const openAllocationModal = (asset: Asset) => {
     setSelectedAsset(asset);
+    setAllocationError(null);
     setAllocations(
       asset.allocations?.map((a) => ({
         recipientId: a.recipient_id,
-        percentage: a.allocation_percentage.toString(),
+        kind: a.allocation_kind as AllocationKind,
+        value: String(a.allocation_kind === "fixed_amount" ? a.fixed_amount : a.allocation_percentage ?? ""),
+        lapseRule: a.lapse_rule as LapseRule,
+        contingentIds: contingentIds(a),
       })) || []
     );
     setShowAllocationModal(true);
@@ -216,55 +396,117 @@ const AssetManagement = () => {
       toast.error("All recipients have been assigned");
       return;
     }
-    setAllocations([...allocations, { recipientId: availableRecipients[0].id, percentage: "" }]);
+    const kind = isResiduary(selectedAsset) ? "residuary" : "percentage";
+    setAllocations([
+      ...allocations,
+      { recipientId: availableRecipients[0].id, kind, value: "", lapseRule: "redistribute", contingentIds: [] },
+    ]);
   };
 
   const removeAllocationRow = (index: number) => {
     setAllocations(allocations.filter((_, i) => i !== index));
+    setAllocationError(null);
   };
 
-  const updateAllocation = (index: number, field: "recipientId" | "percentage", value: string) => {
+  const updateAllocation = <K extends keyof AllocationRow>(index: number, field: K, value: AllocationRow[K]) => {
     const updated = [...allocations];
     updated[index] = { ...updated[index], [field]: value };
+    // A recipient can't also be their own contingent
+    if (field === "recipientId") {
+      updated[index].contingentIds = updated[index].contingentIds.filter((id) => id !== value);
+    }
     setAllocations(updated);
+    setAllocationError(null);
   };
 
+  const recipientName = (id: string) => recipients.find((r) => r.id === id)?.full_name || "Unknown";
+
+  const isShare = (kind: AllocationKind) => kind === "percentage" || kind === "residuary";
+
   const getTotalPercentage = () => {
-    return allocations.reduce((sum, a) => sum + (parseFloat(a.percentage) || 0), 0);
+    return allocations.filter((a) => isShare(a.kind)).reduce((sum, a) => sum + (parseFloat(a.value) || 0), 0);
   };
 
-  const saveAllocations = async () => {
-    if (!selectedAsset) return;
+  const toAllocationInput = (a: AllocationRow) => {
+    const amount = a.value ? parseFloat(a.value.replace(/[^0-9.]/g, "")) : NaN;
+    return {
+      recipient_id: a.recipientId,
+      allocation_kind: a.kind,
+      allocation_percentage: isShare(a.kind) ? (isNaN(amount) ? null : amount) : null,
+      fixed_amount: a.kind === "fixed_amount" ? (isNaN(amount) ? null : amount) : null,
+      lapse_rule: a.lapseRule,
+      contingent_recipient_ids: a.contingentIds,
+    };
+  };
+
+  // Opens the allocation modal for the residuary estate; it's created on first save
+  const openResiduaryModal = () =>
+    openAllocationModal(
+      residuary || {
+        id: "",
+        will_id: activeWillId,
+        name: "Residuary Estate",
+        category: RESIDUARY_CATEGORY,
+        estimated_value: null,
+        currency: currencySettings.reportingCurrency,
+        description: null,
+        location: null,
+        details: {},
+        ownership_percentage: 100,
+        co_owners: null,
+        right_of_survivorship: false,
+        allocations: [],
+      },
+    );
 
-    const total = getTotalPercentage();
-    if (allocations.length > 0 && total !== 100) {
-      toast.error("Allocations must total 100%");
+  const saveAllocations = async () => {
+    if (!user || !selectedAsset) return;
+    if (isLocked(selectedAsset)) {
+      setAllocationError({ message: "This asset belongs to a finalized will; add an amendment to change it" });
       return;
     }
 
-    for (const a of allocations) {
-      const pct = parseFloat(a.percentage);
-      if (!a.percentage || isNaN(pct) || pct <= 0 || pct > 100) {
-        toast.error("Each allocation must be between 1% and 100%");
-        return;
-      }
+    const inputs = allocations.map(toAllocationInput);
+    const validation = validateAllocations(inputs, selectedAsset);
+    if (!validation.valid) {
+      setAllocationError({ message: validation.error });
+      return;
     }
 
     setSaving(true);
     try {
-      // Delete existing allocations
-      await supabase.from("asset_allocations").delete().eq("asset_id", selectedAsset.id);
-
-      // Insert new allocations
-      if (allocations.length > 0) {
-        const { error } = await supabase.from("asset_allocations").insert(
-          allocations.map((a) => ({
-            asset_id: selectedAsset.id,
-            recipient_id: a.recipientId,
-            allocation_percentage: parseFloat(a.percentage),
-          }))
-        );
+      let assetId = selectedAsset.id;
+      if (!assetId) {
+        const { data, error } = await supabase
+          .from("assets")
+          .insert({
+            user_id: user.id,
+            will_id: selectedAsset.will_id,
+            name: selectedAsset.name,
+            category: RESIDUARY_CATEGORY,
+            currency: selectedAsset.currency,
+          })
+          .select("id")
+          .single();
         if (error) throw error;
+        assetId = data.id;
+        // Keep the new residuary estate even if the allocations below are rejected
+        const created = { ...selectedAsset, id: assetId };
+        setSelectedAsset(created);
+        setResiduaryAssets((prev) => [...prev, created]);
+      }
+
+      // Replaces the asset's allocations in one transaction, checking them again on the server
+      const { data, error } = await supabase.rpc("save_asset_allocations", {
+        p_asset_id: assetId,
+        p_allocations: inputs,
+      });
+      if (error) throw error;
+
+      const result = data as unknown as AllocationSaveResult;
+      if (!result.ok) {
+        setAllocationError({ message: result.message, index: result.index });
+        return;
       }
 
       // Refresh data
@@ -279,100 +521,115 @@ const AssetManagement = () => {
     }
   };
 
-  const formatCurrency = (value: number | null) => {
-    if (!value) return "—";
-    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
+  const { reportingCurrency, rates } = currencySettings;
+  const estate = calculateNetEstate(
+    residuary ? [...assets, residuary] : assets,
+    liabilities,
+    [...assets, ...(residuary ? [residuary] : [])].flatMap((a) => a.allocations || []),
+    reportingCurrency,
+    rates,
+  );
+
+  const currencyOptions = (selected: string) =>
+    (CURRENCIES.includes(selected) ? CURRENCIES : [selected, ...CURRENCIES]).map((c) => (
+      <option key={c} value={c}>
+        {c}
+      </option>
+    ));
+
+  const convertedValue = (asset: Asset) =>
+    asset.estimated_value ? convertAmount(asset.estimated_value, asset.currency, reportingCurrency, rates) : null;
+
+  const openDetailsModal = (asset: Asset) => {
+    setDetailsAsset(asset);
+    setDetailsDraft(parseAssetDetails(asset.details));
+    setOwnershipDraft({
+      ownership_percentage: String(Number(asset.ownership_percentage)),
+      co_owners: asset.co_owners || "",
+      right_of_survivorship: asset.right_of_survivorship,
+    });
   };
 
-  const handleFileUpload = async (assetId: string, file: File) => {
-    if (!user) return;
+  const saveDetails = async () => {
+    if (!detailsAsset) return;
 
-    // Validate file
-    const fileValidation = validateDocumentFile(file);
-    if (!fileValidation.valid) {
-      toast.error(fileValidation.error);
+    // The residuary estate has no details, so it never opens this modal
+    const validation = validateAssetDetails(detailsAsset.category as Exclude<AssetCategory, "residuary">, detailsDraft);
+    if (validation.success === false) {
+      toast.error(validation.error.errors[0].message);
       return;
     }
 
-    setUploadingAssetId(assetId);
-    try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Date.now()}.${fileExt}`;
-      const filePath = `${user.id}/${assetId}/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('asset-documents')
-        .upload(filePath, file);
+    const ownershipValidation = validateAssetOwnership(ownershipDraft);
+    if (!ownershipValidation.success) {
+      toast.error(ownershipValidation.error.errors[0].message);
+      return;
+    }
 
-      if (uploadError) throw uploadError;
+    const changes = {
+      details: validation.data,
+      ownership_percentage: ownershipValidation.data.ownership_percentage,
+      co_owners: ownershipValidation.data.co_owners || null,
+      right_of_survivorship: ownershipValidation.data.right_of_survivorship,
+    };
+
+    // A smaller share must still cover the fixed amounts already left from the asset
+    const fixedTotal = (detailsAsset.allocations || []).reduce((sum, a) => sum + (a.fixed_amount || 0), 0);
+    const share = ownerShare({ ...detailsAsset, ...changes });
+    if (share && fixedTotal > share) {
+      toast.error("Fixed amounts left from this asset add up to more than your share of it is worth");
+      return;
+    }
 
-      // Update the asset with the document URL
-      const { error: updateError } = await supabase
-        .from('assets')
-        .update({ documents_url: filePath })
-        .eq('id', assetId);
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("assets").update(changes).eq("id", detailsAsset.id);
 
-      if (updateError) throw updateError;
+      if (error) throw error;
 
-      setAssets(assets.map(a => 
-        a.id === assetId ? { ...a, documents_url: filePath } : a
-      ));
-      toast.success("Document uploaded successfully");
+      setAssets(assets.map((a) => (a.id === detailsAsset.id ? { ...a, ...changes } : a)));
+      setDetailsAsset(null);
+      toast.success("Details saved");
     } catch (error) {
-      console.error("Error uploading document:", error);
-      toast.error("Failed to upload document");
+      console.error("Error saving asset details:", error);
+      toast.error("Failed to save details");
     } finally {
-      setUploadingAssetId(null);
+      setSaving(false);
     }
   };
 
-  const handleDownloadDocument = async (asset: Asset) => {
-    if (!asset.documents_url) return;
-
+  const handleChangeCurrency = async (assetId: string, currency: string) => {
     try {
-      const { data, error } = await supabase.storage
-        .from('asset-documents')
-        .download(asset.documents_url);
+      const { error } = await supabase.from("assets").update({ currency }).eq("id", assetId);
 
       if (error) throw error;
 
-      // Create a download link
-      const url = URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = asset.documents_url.split('/').pop() || 'document';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      setAssets(assets.map((a) => (a.id === assetId ? { ...a, currency } : a)));
     } catch (error) {
-      console.error("Error downloading document:", error);
-      toast.error("Failed to download document");
+      console.error("Error changing currency:", error);
+      toast.error("Failed to change currency");
     }
   };
 
-  const handleDeleteDocument = async (assetId: string, documentPath: string) => {
-    try {
-      const { error: deleteError } = await supabase.storage
-        .from('asset-documents')
-        .remove([documentPath]);
-
-      if (deleteError) throw deleteError;
+  const handleMoveAsset = async (asset: Asset, willId: string) => {
+    if (isLocked(asset) || isWillCompleted(willId)) {
+      toast.error("Assets can't be moved into or out of a finalized will");
+      return;
+    }
 
-      const { error: updateError } = await supabase
-        .from('assets')
-        .update({ documents_url: null })
-        .eq('id', assetId);
+    try {
+      const { error } = await supabase
+        .from("assets")
+        .update({ will_id: willId })
+        .eq("id", asset.id);
 
-      if (updateError) throw updateError;
+      if (error) throw error;
 
-      setAssets(assets.map(a => 
-        a.id === assetId ? { ...a, documents_url: null } : a
-      ));
-      toast.success("Document deleted");
+      setAssets(assets.map((a) => (a.id === asset.id ? { ...a, will_id: willId } : a)));
+      toast.success("Asset moved");
     } catch (error) {
-      console.error("Error deleting document:", error);
-      toast.error("Failed to delete document");
+      console.error("Error moving asset:", error);
+      toast.error("Failed to move asset");
     }
   };
 
@@ -437,6 +694,34 @@ const AssetManagement = () => {
             <button className="px-4 py-2 rounded-full bg-gold text-primary text-sm font-medium">
               All Assets ({assets.length})
             </button>
+            <div className="ml-auto flex items-center gap-3">
+              <div className="text-right">
+                <p className="text-sm text-muted-foreground">
+                  Estate total:{" "}
+                  <span className="font-semibold text-foreground">
+                    {formatMoney(estate.gross, reportingCurrency)}
+                  </span>
+                </p>
+                {liabilities.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Net of debts:{" "}
+                    <span className={`font-semibold ${estate.net < 0 ? "text-destructive" : "text-foreground"}`}>
+                      {estate.net < 0 ? "−" : ""}
+                      {formatMoney(Math.abs(estate.net), reportingCurrency)}
+                    </span>
+                  </p>
+                )}
+                {estate.missing.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    Excludes {estate.missing.join(", ")} (no rate to {reportingCurrency})
+                  </p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" className="gap-1" onClick={() => setShowCurrencyModal(true)}>
+                <Coins className="w-4 h-4" />
+                {reportingCurrency}
+              </Button>
+            </div>
           </motion.div>
 
           {/* Assets List */}
@@ -457,97 +742,163 @@ const AssetManagement = () => {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between mb-1">
                         <h3 className="font-semibold text-foreground">{asset.name}</h3>
-                        <span className="font-serif text-lg font-semibold text-gold">
-                          {formatCurrency(asset.estimated_value)}
-                        </span>
+                        <div className="text-right">
+                          <span className="font-serif text-lg font-semibold text-gold">
+                            {formatMoney(asset.estimated_value, asset.currency)}
+                          </span>
+                          {asset.estimated_value && asset.currency !== reportingCurrency ? (
+                            <p className="text-xs text-muted-foreground">
+                              {convertedValue(asset) !== null
+                                ? `≈ ${formatMoney(convertedValue(asset), reportingCurrency)}`
+                                : `No ${asset.currency} → ${reportingCurrency} rate`}
+                            </p>
+                          ) : null}
+                          {asset.estimated_value && describeOwnership(asset) ? (
+                            <p className="text-xs text-muted-foreground">
+                              Your share: {formatMoney(ownerShare(asset), asset.currency)}
+                            </p>
+                          ) : null}
+                        </div>
                       </div>
                       <p className="text-sm text-muted-foreground mb-2 capitalize">
                         {asset.category.replace("_", " ")}
                       </p>
+                      {describeOwnership(asset) && (
+                        <p className="text-sm text-muted-foreground mb-2">Owned jointly: {describeOwnership(asset)}</p>
+                      )}
                       {asset.description && (
                         <p className="text-sm text-muted-foreground mb-3">{asset.description}</p>
                       )}
+                      {isLocked(asset) && (
+                        <p className="text-xs text-muted-foreground mb-3">
+                          Part of a finalized will; add an amendment to change it.
+                        </p>
+                      )}
 
-                      {/* Documents */}
+                      {/* Details */}
+                      {describeAssetDetails(asset.category, asset.details).length > 0 && (
+                        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-3">
+                          {describeAssetDetails(asset.category, asset.details).map((detail) => (
+                            <div key={detail.label} className="min-w-0">
+                              <dt className="text-xs text-muted-foreground">{detail.label}</dt>
+                              <dd className="text-foreground truncate" title={detail.value}>
+                                {detail.value}
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+
+                      {/* Vault */}
+                      {asset.category === "digital_asset" && (
+                        <Link
+                          to={asset.vaultItemCount ? "/vault" : `/vault?asset=${asset.id}`}
+                          className="inline-flex items-center gap-1 text-sm text-gold hover:underline mb-3"
+                        >
+                          <KeyRound className="w-4 h-4" />
+                          {asset.vaultItemCount
+                            ? `${asset.vaultItemCount} vault ${asset.vaultItemCount === 1 ? "item" : "items"}`
+                            : "Store credentials in the vault"}
+                        </Link>
+                      )}
+
+                      {/* Currency */}
                       <div className="flex items-center gap-2 mb-3">
-                        {asset.documents_url ? (
-                          <div className="flex items-center gap-2">
-                            <File className="w-4 h-4 text-gold" />
-                            <span className="text-sm text-muted-foreground">
-                              {asset.documents_url.split('/').pop()}
-                            </span>
-                            <button
-                              onClick={() => handleDownloadDocument(asset)}
-                              className="p-1 hover:bg-secondary rounded transition-colors"
-                              title="Download document"
-                            >
-                              <Download className="w-4 h-4 text-gold" />
-                            </button>
-                            <button
-                              onClick={() => handleDeleteDocument(asset.id, asset.documents_url!)}
-                              className="p-1 hover:bg-destructive/10 rounded transition-colors"
-                              title="Delete document"
-                            >
-                              <Trash2 className="w-3 h-3 text-destructive" />
-                            </button>
-                          </div>
-                        ) : (
-                          <label className="inline-flex items-center gap-1 text-sm text-gold hover:underline cursor-pointer">
-                            {uploadingAssetId === asset.id ? (
-                              <Loader2 className="w-4 h-4 animate-spin" />
-                            ) : (
-                              <Upload className="w-4 h-4" />
-                            )}
-                            Upload document
-                            <Input
-                              type="file"
-                              className="hidden"
-                              accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
-                              onChange={(e) => {
-                                const file = e.target.files?.[0];
-                                if (file) handleFileUpload(asset.id, file);
-                              }}
-                              disabled={uploadingAssetId === asset.id}
-                            />
-                          </label>
-                        )}
+                        <Coins className="w-4 h-4 text-muted-foreground" />
+                        <select
+                          value={asset.currency}
+                          onChange={(e) => handleChangeCurrency(asset.id, e.target.value)}
+                          disabled={isLocked(asset)}
+                          className="text-sm bg-transparent text-muted-foreground hover:text-foreground disabled:opacity-50"
+                          title="Currency"
+                        >
+                          {currencyOptions(asset.currency)}
+                        </select>
                       </div>
 
+                      {/* Will */}
+                      {wills.length > 1 && (
+                        <div className="flex items-center gap-2 mb-3">
+                          <FileText className="w-4 h-4 text-muted-foreground" />
+                          <select
+                            value={asset.will_id || ""}
+                            onChange={(e) => handleMoveAsset(asset, e.target.value)}
+                            disabled={isLocked(asset)}
+                            className="text-sm bg-transparent text-muted-foreground hover:text-foreground disabled:opacity-50"
+                          >
+                            {!asset.will_id && <option value="">No will</option>}
+                            {wills.map((w) => (
+                              <option key={w.id} value={w.id} disabled={w.status === "completed" && w.id !== asset.will_id}>
+                                {w.title}
+                                {w.is_primary ? " (primary)" : ""}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
+                      {/* Documents */}
+                      {user && (
+                        <AssetDocuments
+                          assetId={asset.id}
+                          userId={user.id}
+                          documents={asset.documents || []}
+                          onChange={(documents) =>
+                            setAssets((prev) => prev.map((a) => (a.id === asset.id ? { ...a, documents } : a)))
+                          }
+                        />
+                      )}
+
                       {/* Allocations */}
                       {asset.allocations && asset.allocations.length > 0 ? (
                         <div className="flex items-center gap-2 flex-wrap">
                           <Users className="w-4 h-4 text-muted-foreground" />
                           {asset.allocations.map((a) => (
-                            <span key={a.id} className="px-2 py-1 rounded-full bg-secondary text-xs font-medium">
-                              {a.recipient?.full_name}: {a.allocation_percentage}%
+                            <span
+                              key={a.id}
+                              className="px-2 py-1 rounded-full bg-secondary text-xs font-medium"
+                              title={`If ${a.recipient?.full_name} dies first: ${describeFallback(a, recipientName)}`}
+                            >
+                              {a.recipient?.full_name}: {describeAllocation(a, asset.currency)}
                             </span>
                           ))}
                         </div>
                       ) : (
+                        !isLocked(asset) && (
+                          <button
+                            onClick={() => openAllocationModal(asset)}
+                            className="inline-flex items-center gap-1 text-sm text-gold hover:underline"
+                          >
+                            <UserPlus className="w-4 h-4" />
+                            Assign recipients
+                          </button>
+                        )
+                      )}
+                    </div>
+                    {!isLocked(asset) && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          className="p-2 hover:bg-secondary rounded-lg transition-colors"
+                          onClick={() => openDetailsModal(asset)}
+                          title="Edit details"
+                        >
+                          <ClipboardList className="w-4 h-4 text-muted-foreground" />
+                        </button>
                         <button
+                          className="p-2 hover:bg-secondary rounded-lg transition-colors"
                           onClick={() => openAllocationModal(asset)}
-                          className="inline-flex items-center gap-1 text-sm text-gold hover:underline"
+                          title="Manage allocations"
                         >
-                          <UserPlus className="w-4 h-4" />
-                          Assign recipients
+                          <Percent className="w-4 h-4 text-muted-foreground" />
                         </button>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <button
-                        className="p-2 hover:bg-secondary rounded-lg transition-colors"
-                        onClick={() => openAllocationModal(asset)}
-                        title="Manage allocations"
-                      >
-                        <Percent className="w-4 h-4 text-muted-foreground" />
-                      </button>
-                      <button
-                        className="p-2 hover:bg-destructive/10 rounded-lg transition-colors"
-                        onClick={() => handleDeleteAsset(asset.id)}
-                      >
-                        <Trash2 className="w-4 h-4 text-destructive" />
-                      </button>
-                    </div>
+                        <button
+                          className="p-2 hover:bg-destructive/10 rounded-lg transition-colors"
+                          onClick={() => handleDeleteAsset(asset.id)}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -566,6 +917,68 @@ const AssetManagement = () => {
             )}
           </motion.div>
 
+          {/* Residuary Estate */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.22 }}
+            className="card-elevated mb-8"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1">
+                <h2 className="font-serif text-xl font-semibold text-foreground mb-1">Residuary Estate</h2>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Everything you haven't left to someone specifically, once debts are paid
+                  {estate.residue > 0 && ` — currently about ${formatMoney(estate.residue, reportingCurrency)}`}.
+                </p>
+                {residuary?.allocations && residuary.allocations.length > 0 ? (
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Users className="w-4 h-4 text-muted-foreground" />
+                    {residuary.allocations.map((a) => (
+                      <span
+                        key={a.id}
+                        className="px-2 py-1 rounded-full bg-secondary text-xs font-medium"
+                        title={`If ${a.recipient?.full_name} dies first: ${describeFallback(a, recipientName)}`}
+                      >
+                        {a.recipient?.full_name}: {describeAllocation(a, residuary.currency)}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <button onClick={openResiduaryModal} className="inline-flex items-center gap-1 text-sm text-gold hover:underline">
+                    <UserPlus className="w-4 h-4" />
+                    Choose residuary beneficiaries
+                  </button>
+                )}
+              </div>
+              <button
+                className="p-2 hover:bg-secondary rounded-lg transition-colors"
+                onClick={openResiduaryModal}
+                title="Manage residuary beneficiaries"
+              >
+                <Percent className="w-4 h-4 text-muted-foreground" />
+              </button>
+            </div>
+          </motion.div>
+
+          {/* Liabilities */}
+          {user && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.25 }}
+              className="mb-8"
+            >
+              <Liabilities
+                userId={user.id}
+                liabilities={liabilities}
+                assets={assets}
+                defaultCurrency={reportingCurrency}
+                onChange={setLiabilities}
+              />
+            </motion.div>
+          )}
+
           {/* Navigation */}
           <motion.div
             initial={{ opacity: 0 }}
@@ -579,7 +992,7 @@ const AssetManagement = () => {
                 Back
               </Button>
             </Link>
-            <Link to="/recipients">
+            <Link to={requestedWillId ? `/recipients?will=${requestedWillId}` : "/recipients"}>
               <Button variant="gold" className="gap-2">
                 Continue to Recipients
                 <ArrowRight className="w-4 h-4" />
@@ -603,7 +1016,7 @@ const AssetManagement = () => {
               initial={{ opacity: 0, scale: 0.95 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0, scale: 0.95 }}
-              className="card-elevated w-full max-w-md"
+              className="card-elevated w-full max-w-md max-h-[90vh] overflow-y-auto"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="flex items-center justify-between mb-6">
@@ -628,10 +1041,10 @@ const AssetManagement = () => {
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2">Category</label>
                   <div className="grid grid-cols-3 gap-2">
-                    {categories.slice(0, 6).map((cat) => (
+                    {categories.map((cat) => (
                       <button
                         key={cat.id}
-                        onClick={() => setNewAsset({ ...newAsset, category: cat.id as AssetCategory })}
+                        onClick={() => setNewAsset({ ...newAsset, category: cat.id as AssetCategory, details: {} })}
                         className={`p-3 rounded-lg flex flex-col items-center gap-1 transition-colors ${
                           newAsset.category === cat.id
                             ? "bg-gold text-primary"
@@ -647,13 +1060,22 @@ const AssetManagement = () => {
 
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2">Estimated Value</label>
-                  <input
-                    type="text"
-                    value={newAsset.estimated_value}
-                    onChange={(e) => setNewAsset({ ...newAsset, estimated_value: e.target.value })}
-                    placeholder="e.g., $100,000"
-                    className="input-elevated"
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newAsset.estimated_value}
+                      onChange={(e) => setNewAsset({ ...newAsset, estimated_value: e.target.value })}
+                      placeholder="e.g., 100,000"
+                      className="input-elevated"
+                    />
+                    <select
+                      value={newAsset.currency}
+                      onChange={(e) => setNewAsset({ ...newAsset, currency: e.target.value })}
+                      className="input-elevated w-28"
+                    >
+                      {currencyOptions(newAsset.currency)}
+                    </select>
+                  </div>
                 </div>
 
                 <div>
@@ -666,6 +1088,17 @@ const AssetManagement = () => {
                     className="input-elevated resize-none"
                   />
                 </div>
+
+                <AssetDetailsFields
+                  category={newAsset.category}
+                  values={newAsset.details}
+                  onChange={(details) => setNewAsset({ ...newAsset, details })}
+                />
+
+                <OwnershipFields
+                  values={newAsset.ownership}
+                  onChange={(ownership) => setNewAsset({ ...newAsset, ownership })}
+                />
               </div>
 
               <div className="flex gap-3 mt-6">
@@ -681,6 +1114,58 @@ const AssetManagement = () => {
         )}
       </AnimatePresence>
 
+      {/* Details Modal */}
+      <AnimatePresence>
+        {detailsAsset && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-foreground/20 backdrop-blur-sm"
+            onClick={() => setDetailsAsset(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="card-elevated w-full max-w-lg max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-6">
+                <div>
+                  <h2 className="font-serif text-xl font-semibold text-foreground">Asset Details</h2>
+                  <p className="text-sm text-muted-foreground">{detailsAsset.name}</p>
+                </div>
+                <button onClick={() => setDetailsAsset(null)} className="p-2 hover:bg-secondary rounded-lg">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <AssetDetailsFields category={detailsAsset.category} values={detailsDraft} onChange={setDetailsDraft} />
+                <OwnershipFields values={ownershipDraft} onChange={setOwnershipDraft} />
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <Button variant="ghost" className="flex-1" onClick={() => setDetailsAsset(null)}>
+                  Cancel
+                </Button>
+                <Button variant="gold" className="flex-1" onClick={saveDetails} disabled={saving}>
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save Details"}
+                </Button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <CurrencySettings
+        open={showCurrencyModal}
+        reportingCurrency={reportingCurrency}
+        onClose={() => setShowCurrencyModal(false)}
+        onChange={setCurrencySettings}
+      />
+
       {/* Allocation Modal */}
       <AnimatePresence>
         {showAllocationModal && selectedAsset && (
@@ -695,7 +1180,7 @@ const AssetManagement = () => {
               initial={{ opacity: 0, scale: 0.95 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0, scale: 0.95 }}
-              className="card-elevated w-full max-w-lg"
+              className="card-elevated w-full max-w-2xl"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="flex items-center justify-between mb-6">
@@ -721,38 +1206,112 @@ const AssetManagement = () => {
                 </div>
               ) : (
                 <>
-                  <div className="space-y-3 mb-4 max-h-64 overflow-y-auto">
+                  <div className="space-y-3 mb-4 max-h-96 overflow-y-auto">
                     {allocations.map((allocation, index) => (
-                      <div key={index} className="flex items-center gap-3">
-                        <select
-                          value={allocation.recipientId}
-                          onChange={(e) => updateAllocation(index, "recipientId", e.target.value)}
-                          className="input-elevated flex-1"
-                        >
-                          {recipients.map((r) => (
-                            <option key={r.id} value={r.id} disabled={allocations.some((a, i) => i !== index && a.recipientId === r.id)}>
-                              {r.full_name}
-                            </option>
+                      <div
+                        key={index}
+                        className={`p-3 rounded-lg bg-secondary/30 space-y-2 ${
+                          allocationError?.index === index ? "ring-1 ring-destructive" : ""
+                        }`}
+                      >
+                        <div className="flex items-center gap-3">
+                          <select
+                            value={allocation.recipientId}
+                            onChange={(e) => updateAllocation(index, "recipientId", e.target.value)}
+                            className="input-elevated flex-1"
+                          >
+                            {recipients.map((r) => (
+                              <option key={r.id} value={r.id} disabled={allocations.some((a, i) => i !== index && a.recipientId === r.id)}>
+                                {r.full_name}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={allocation.kind}
+                            onChange={(e) => updateAllocation(index, "kind", e.target.value as AllocationKind)}
+                            className="input-elevated w-36"
+                          >
+                            {ALLOCATION_KINDS.filter((k) =>
+                              isResiduary(selectedAsset)
+                                ? k.value === "residuary" || k.value === "fixed_amount"
+                                : k.value !== "residuary",
+                            ).map((k) => (
+                              <option key={k.value} value={k.value}>
+                                {k.label}
+                              </option>
+                            ))}
+                          </select>
+                          {allocation.kind !== "whole_item" && (
+                            <div className="relative w-28">
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={allocation.value}
+                                onChange={(e) => updateAllocation(index, "value", e.target.value)}
+                                placeholder="0"
+                                className={`input-elevated text-right ${isShare(allocation.kind) ? "pr-8" : "pr-14"}`}
+                              />
+                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                                {isShare(allocation.kind) ? "%" : selectedAsset.currency}
+                              </span>
+                            </div>
+                          )}
+                          <button
+                            onClick={() => removeAllocationRow(index)}
+                            className="p-2 hover:bg-destructive/10 rounded-lg transition-colors"
+                          >
+                            <X className="w-4 h-4 text-destructive" />
+                          </button>
+                        </div>
+
+                        {/* Who inherits if this recipient dies first */}
+                        <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                          <span>If they die first:</span>
+                          {allocation.contingentIds.map((id, i) => (
+                            <span key={id} className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-secondary text-foreground">
+                              {i + 1}. {recipientName(id)}
+                              <button
+                                onClick={() =>
+                                  updateAllocation(index, "contingentIds", allocation.contingentIds.filter((c) => c !== id))
+                                }
+                                className="hover:text-destructive"
+                                title="Remove"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
                           ))}
-                        </select>
-                        <div className="relative w-24">
-                          <input
-                            type="number"
-                            min="1"
-                            max="100"
-                            value={allocation.percentage}
-                            onChange={(e) => updateAllocation(index, "percentage", e.target.value)}
-                            placeholder="0"
-                            className="input-elevated pr-8 text-right"
-                          />
-                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+                          {allocation.contingentIds.length < 5 && (
+                            <select
+                              value=""
+                              onChange={(e) =>
+                                updateAllocation(index, "contingentIds", [...allocation.contingentIds, e.target.value])
+                              }
+                              className="input-elevated w-auto py-1 text-xs"
+                            >
+                              <option value="">{allocation.contingentIds.length ? "Then…" : "Add contingent…"}</option>
+                              {recipients
+                                .filter((r) => r.id !== allocation.recipientId && !allocation.contingentIds.includes(r.id))
+                                .map((r) => (
+                                  <option key={r.id} value={r.id}>
+                                    {r.full_name}
+                                  </option>
+                                ))}
+                            </select>
+                          )}
+                          <select
+                            value={allocation.lapseRule}
+                            onChange={(e) => updateAllocation(index, "lapseRule", e.target.value as LapseRule)}
+                            className="input-elevated w-auto py-1 text-xs"
+                            title={allocation.contingentIds.length ? "If none of them survive either" : undefined}
+                          >
+                            {LAPSE_RULES.map((r) => (
+                              <option key={r.value} value={r.value}>
+                                {allocation.contingentIds.length ? `Otherwise: ${r.label.toLowerCase()}` : r.label}
+                              </option>
+                            ))}
+                          </select>
                         </div>
-                        <button
-                          onClick={() => removeAllocationRow(index)}
-                          className="p-2 hover:bg-destructive/10 rounded-lg transition-colors"
-                        >
-                          <X className="w-4 h-4 text-destructive" />
-                        </button>
                       </div>
                     ))}
                   </div>
@@ -764,7 +1323,13 @@ const AssetManagement = () => {
                     </Button>
                   )}
 
-                  {allocations.length > 0 && (
+                  <p className="text-xs text-muted-foreground mb-4">
+                    {isResiduary(selectedAsset)
+                      ? "The residuary estate is everything you haven't left to someone specifically, after debts. Fixed amounts are paid from it first; shares split the rest."
+                      : "Fixed amounts are paid first and percentages split the rest. Anything not given away goes into your residuary estate."}
+                  </p>
+
+                  {allocations.some((a) => isShare(a.kind)) && (
                     <div className={`flex items-center justify-between p-3 rounded-lg mb-4 ${
                       getTotalPercentage() === 100 ? "bg-sage/20" : "bg-destructive/10"
                     }`}>
@@ -776,6 +1341,8 @@ const AssetManagement = () => {
                     </div>
                   )}
 
+                  {allocationError && <p className="text-sm text-destructive mb-4">{allocationError.message}</p>}
+
                   <div className="flex gap-3">
                     <Button variant="ghost" className="flex-1" onClick={() => setShowAllocationModal(false)}>
                       Cancel
@@ -784,7 +1351,7 @@ const AssetManagement = () => {
                       variant="gold"
                       className="flex-1"
                       onClick={saveAllocations}
-                      disabled={saving || (allocations.length > 0 && getTotalPercentage() !== 100)}
+                      disabled={saving || (allocations.some((a) => isShare(a.kind)) && getTotalPercentage() !== 100)}
                     >
                       {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save Allocations"}
                     </Button>
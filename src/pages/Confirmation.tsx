@@ -1,4 +1,5 @@
-import { Link } from "react-router-dom";
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
 import {
@@ -10,10 +11,40 @@ import {
   ArrowRight,
   Mail,
   Calendar,
+  Loader2,
 } from "lucide-react";
 import Header from "@/components/layout/Header";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { loadWillPackage } from "@/lib/willPackage";
+import { downloadWillPdf } from "@/lib/willPdf";
 
 const Confirmation = () => {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const willId = searchParams.get("will");
+  const [isExporting, setIsExporting] = useState(false);
+  const [documentHash, setDocumentHash] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    if (!user) return;
+
+    setIsExporting(true);
+    try {
+      const pkg = await loadWillPackage(user.id, willId);
+      if (!pkg) {
+        toast.error("No will found to export");
+        return;
+      }
+      setDocumentHash(await downloadWillPdf(pkg));
+    } catch (error) {
+      console.error("Error exporting will:", error);
+      toast.error("Failed to generate PDF");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const nextSteps = [
     {
       icon: Mail,
@@ -106,15 +137,20 @@ const Confirmation = () => {
             </div>
 
             <div className="flex flex-col sm:flex-row gap-3 justify-center">
-              <Button variant="outline" className="gap-2">
-                <Download className="w-4 h-4" />
-                Download Summary
+              <Button variant="outline" className="gap-2" onClick={handleDownload} disabled={isExporting}>
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download PDF
               </Button>
               <Button variant="outline" className="gap-2">
                 <Share2 className="w-4 h-4" />
                 Share Securely
               </Button>
             </div>
+            {documentHash && (
+              <p className="mt-4 text-xs text-muted-foreground break-all">
+                Document hash (SHA-256): <span className="font-mono">{documentHash}</span>
+              </p>
+            )}
           </motion.div>
 
           {/* Next Steps */}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { Link } from "react-router-dom";
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
 import {
@@ -13,14 +13,35 @@ import {
   Check,
   Shield,
   FileText,
+  Loader2,
 } from "lucide-react";
 import Header from "@/components/layout/Header";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { validateAudioFile } from "@/lib/validations";
+
+const getSupportedAudioMimeType = () => {
+  const candidates = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) || "";
+};
 
 const CreateAudioWill = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [hasRecording, setHasRecording] = useState(false);
+  const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [micError, setMicError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -28,25 +49,196 @@ const CreateAudioWill = () => {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const handleStartRecording = () => {
-    setIsRecording(true);
-    setHasRecording(true);
+  const stopMicrophone = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+        mediaRecorderRef.current.onstop = null;
+        mediaRecorderRef.current.stop();
+      }
+      stopMicrophone();
+    };
+  }, [stopMicrophone]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if (isRecording && !isPaused) {
+      interval = setInterval(() => {
+        setRecordingTime((prev) => prev + 1);
+      }, 1000);
+    }
+    return () => clearInterval(interval);
+  }, [isRecording, isPaused]);
+
+  const handleStartRecording = async () => {
+    try {
+      setMicError(null);
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      chunksRef.current = [];
+      const mimeType = getSupportedAudioMimeType();
+      const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          chunksRef.current.push(event.data);
+        }
+      };
+
+      mediaRecorder.onstop = () => {
+        const blob = new Blob(chunksRef.current, {
+          type: (mediaRecorder.mimeType || "audio/webm").split(";")[0],
+        });
+        setRecordedBlob(blob);
+        setPreviewUrl(URL.createObjectURL(blob));
+        setHasRecording(true);
+        stopMicrophone();
+      };
+
+      mediaRecorderRef.current = mediaRecorder;
+      mediaRecorder.start(1000); // Collect data every second
+      setIsRecording(true);
+      setIsPaused(false);
+      setHasRecording(false);
+      setRecordedBlob(null);
+      setPreviewUrl(null);
+      setRecordingTime(0);
+    } catch (error) {
+      console.error("Microphone access error:", error);
+      setMicError("Unable to access microphone. Please grant permission and try again.");
+      stopMicrophone();
+    }
   };
 
   const handleStopRecording = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+      mediaRecorderRef.current.stop();
+    }
     setIsRecording(false);
     setIsPaused(false);
   };
 
   const handlePauseResume = () => {
+    if (!mediaRecorderRef.current) return;
+
+    if (isPaused) {
+      mediaRecorderRef.current.resume();
+    } else {
+      mediaRecorderRef.current.pause();
+    }
     setIsPaused(!isPaused);
   };
 
   const handleReset = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+      mediaRecorderRef.current.onstop = null;
+      mediaRecorderRef.current.stop();
+    }
+    stopMicrophone();
+    chunksRef.current = [];
     setIsRecording(false);
     setIsPaused(false);
     setRecordingTime(0);
     setHasRecording(false);
+    setRecordedBlob(null);
+    setPreviewUrl(null);
+  };
+
+  const handleSaveAndContinue = async () => {
+    if (!recordedBlob || !user) {
+      toast.error("No recording to save");
+      return;
+    }
+
+    // Validate audio file
+    const audioValidation = validateAudioFile(recordedBlob);
+    if (!audioValidation.valid) {
+      toast.error(audioValidation.error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      let willId = searchParams.get("will");
+
+      // A finalized will can't be re-recorded; changes go through amendments
+      if (willId) {
+        const { data: targetWill, error: targetError } = await supabase
+          .from("wills")
+          .select("status")
+          .eq("id", willId)
+          .maybeSingle();
+        if (targetError) throw targetError;
+        if (targetWill?.status === "completed") {
+          toast.error("This will has been finalized. Add an amendment from the review page instead.");
+          return;
+        }
+      }
+
+      // Upload audio to storage
+      const extension = recordedBlob.type.includes("ogg") ? "ogg" : recordedBlob.type.includes("mp4") ? "m4a" : "webm";
+      const fileName = `${user.id}/audio-will-${Date.now()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from("asset-documents")
+        .upload(fileName, recordedBlob, { contentType: recordedBlob.type });
+
+      if (uploadError) throw uploadError;
+
+      // Re-record into the will we were opened for; otherwise the recording starts a new will
+      if (willId) {
+        const { data: updatedWill, error } = await supabase
+          .from("wills")
+          .update({
+            audio_url: fileName,
+            status: "in_progress",
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", willId)
+          .eq("type", "audio")
+          .select("id")
+          .maybeSingle();
+        if (error) throw error;
+        if (!updatedWill) throw new Error("Will not found");
+      } else {
+        const { data: newWill, error } = await supabase.from("wills").insert({
+          user_id: user.id,
+          type: "audio",
+          audio_url: fileName,
+          title: "My Audio Will",
+          status: "in_progress",
+        }).select("id").single();
+        if (error) throw error;
+        willId = newWill.id;
+      }
+
+      // Kick off server-side transcription; the review page picks up the result
+      supabase.functions
+        .invoke("transcribe-will", { body: { willId, mediaPath: fileName } })
+        .then(({ error }) => {
+          if (error) console.error("Error requesting transcription:", error);
+        });
+
+      toast.success("Recording saved successfully");
+      navigate(`/assets?will=${willId}`);
+    } catch (error) {
+      console.error("Error saving audio:", error);
+      toast.error("Failed to save recording");
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const prompts = [
@@ -126,16 +318,23 @@ const CreateAudioWill = () => {
 
             {/* Status Text */}
             <p className="text-muted-foreground mb-6">
-              {isRecording 
-                ? isPaused 
-                  ? "Recording paused" 
-                  : "Recording in progress..."
-                : hasRecording 
-                  ? "Recording complete" 
-                  : "Tap to start recording"
+              {micError
+                ? micError
+                : isRecording 
+                  ? isPaused 
+                    ? "Recording paused" 
+                    : "Recording in progress..."
+                  : hasRecording 
+                    ? "Recording complete - listen back or re-record" 
+                    : "Tap to start recording"
               }
             </p>
 
+            {/* Playback Preview */}
+            {hasRecording && previewUrl && !isRecording && (
+              <audio src={previewUrl} controls className="w-full mb-6" />
+            )}
+
             {/* Controls */}
             {(isRecording || hasRecording) && (
               <div className="flex items-center justify-center gap-4">
@@ -155,6 +354,7 @@ const CreateAudioWill = () => {
                   size="lg"
                   onClick={handleReset}
                   className="gap-2"
+                  disabled={isSaving}
                 >
                   <RotateCcw className="w-4 h-4" />
                   Start Over
@@ -204,12 +404,24 @@ const CreateAudioWill = () => {
                 <Shield className="w-4 h-4" />
                 Encrypted
               </p>
-              <Link to="/assets">
-                <Button variant="gold" className="gap-2" disabled={!hasRecording}>
-                  Continue to Assets
-                  <ArrowRight className="w-4 h-4" />
-                </Button>
-              </Link>
+              <Button
+                variant="gold"
+                className="gap-2"
+                disabled={!hasRecording || isRecording || isSaving}
+                onClick={handleSaveAndContinue}
+              >
+                {isSaving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    Continue to Assets
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </Button>
             </div>
           </motion.div>
         </div>
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { motion, AnimatePresence } from "framer-motion";
@@ -14,20 +14,83 @@ import {
   Bot,
   Loader2,
   Save,
+  BookOpen,
 } from "lucide-react";
 import Header from "@/components/layout/Header";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { chatMessageSchema, willTranscriptSchema } from "@/lib/validations";
+import ExtractionReview, { type EstateProposal } from "@/components/will/ExtractionReview";
+import ClauseLibrary from "@/components/will/ClauseLibrary";
+import type { ClauseTemplate } from "@/lib/clauseTemplates";
 
 type Message = { role: "user" | "assistant"; content: string };
 
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/will-chat`;
 
+type ChatErrorCode =
+  | "unauthorized"
+  | "invalid_request"
+  | "rate_limited"
+  | "token_budget_exceeded"
+  | "upstream_rate_limited"
+  | "upstream_timeout"
+  | "service_unavailable"
+  | "upstream_error"
+  | "internal_error";
+
+class ChatRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: ChatErrorCode,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ChatRequestError";
+  }
+}
+
+const formatRetryAfter = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds !== 1 ? "s" : ""}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes !== 1 ? "s" : ""}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours !== 1 ? "s" : ""}`;
+};
+
+// The will-chat function requires a signed-in user, not just the publishable key
+const getChatHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new ChatRequestError("Please sign in again to continue.", 401, "unauthorized");
+  }
+  return {
+    "Content-Type": "application/json",
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    Authorization: `Bearer ${session.access_token}`,
+  };
+};
+
+const toChatRequestError = async (resp: Response, fallback: string) => {
+  const errorData = await resp.json().catch(() => ({}));
+  const retryAfter = errorData.retryAfter ?? (Number(resp.headers.get("Retry-After")) || undefined);
+  let message = errorData.error || fallback;
+  if (retryAfter && (errorData.code === "rate_limited" || errorData.code === "token_budget_exceeded")) {
+    message = `${message} (try again in ${formatRetryAfter(retryAfter)})`;
+  }
+  return new ChatRequestError(message, resp.status, errorData.code, retryAfter);
+};
+
+// Throttle for writing a streaming assistant reply back to the database
+const PERSIST_INTERVAL_MS = 1000;
+
 const CreateChatWill = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const requestedWillId = searchParams.get("will");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -36,6 +99,12 @@ const CreateChatWill = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [hasStarted, setHasStarted] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [proposal, setProposal] = useState<EstateProposal | null>(null);
+  const [willId, setWillId] = useState<string | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(true);
+  const [isFinalized, setIsFinalized] = useState(false);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -45,29 +114,159 @@ const CreateChatWill = () => {
     scrollToBottom();
   }, [messages]);
 
+  // Reopen the requested chat will and restore its conversation; without one we start a new will
+  useEffect(() => {
+    if (!user) return;
+    if (!requestedWillId) {
+      setLoadingHistory(false);
+      return;
+    }
+
+    const loadConversation = async () => {
+      try {
+        const { data: existingWill, error: willError } = await supabase
+          .from("wills")
+          .select("id, status")
+          .eq("user_id", user.id)
+          .eq("type", "chat")
+          .eq("id", requestedWillId)
+          .maybeSingle();
+
+        if (willError) throw willError;
+        if (!existingWill) return;
+
+        setWillId(existingWill.id);
+        setIsFinalized(existingWill.status === "completed");
+
+        const { data: history, error: historyError } = await supabase
+          .from("will_chat_messages")
+          .select("role, content, position")
+          .eq("will_id", existingWill.id)
+          .order("position");
+
+        if (historyError) throw historyError;
+
+        if (history && history.length > 0) {
+          setMessages(history.map((m) => ({ role: m.role as Message["role"], content: m.content })));
+          setHasStarted(true);
+        }
+      } catch (error) {
+        console.error("Error loading conversation:", error);
+        toast.error("Failed to load your previous conversation");
+      } finally {
+        setLoadingHistory(false);
+      }
+    };
+
+    loadConversation();
+  }, [user, requestedWillId]);
+
+  const ensureWill = async () => {
+    if (willId) return willId;
+    if (!user) throw new Error("You must be logged in");
+
+    const { data, error } = await supabase
+      .from("wills")
+      .insert({
+        user_id: user.id,
+        type: "chat",
+        title: "My Chat-Based Will",
+        status: "draft",
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    setWillId(data.id);
+    return data.id;
+  };
+
+  const persistMessage = async (targetWillId: string, message: Message, position: number) => {
+    const { data, error } = await supabase
+      .from("will_chat_messages")
+      .insert({
+        will_id: targetWillId,
+        user_id: user!.id,
+        role: message.role,
+        content: message.content,
+        position,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  };
+
+  // Streams an assistant reply into state and writes it to the database as it arrives
+  const streamAssistantReply = async (targetWillId: string, history: Message[]) => {
+    const position = history.length;
+    let content = "";
+    let lastSavedAt = 0;
+    let rowId: string | null = null;
+    let pendingSave: Promise<void> = Promise.resolve();
+
+    // Saves are chained so an older snapshot can never overwrite a newer one
+    const save = () => {
+      const snapshot = content;
+      pendingSave = pendingSave.catch(() => undefined).then(async () => {
+        if (!rowId) {
+          rowId = await persistMessage(targetWillId, { role: "assistant", content: snapshot }, position);
+          return;
+        }
+        const { error } = await supabase.from("will_chat_messages").update({ content: snapshot }).eq("id", rowId);
+        if (error) throw error;
+      });
+      return pendingSave;
+    };
+
+    await streamChat({
+      messages: history,
+      onDelta: (chunk) => {
+        content += chunk;
+        setMessages((prev) => {
+          const last = prev[prev.length - 1];
+          if (last?.role === "assistant" && prev.length - 1 === position) {
+            return prev.map((m, i) =>
+              i === prev.length - 1 ? { ...m, content: m.content + chunk } : m
+            );
+          }
+          return [...prev, { role: "assistant", content: chunk }];
+        });
+
+        if (Date.now() - lastSavedAt > PERSIST_INTERVAL_MS) {
+          lastSavedAt = Date.now();
+          save().catch((error) => console.error("Error saving assistant message:", error));
+        }
+      },
+      onDone: () => setIsLoading(false),
+    });
+
+    if (content) await save();
+  };
+
+  const handleChatError = (error: unknown, fallback: string) => {
+    if (!(error instanceof ChatRequestError)) {
+      toast.error(fallback);
+      return;
+    }
+
+    toast.error(error.message);
+    if (error.code === "unauthorized") {
+      navigate("/login");
+    }
+  };
+
   const startConversation = async () => {
     setHasStarted(true);
     setIsLoading(true);
 
     try {
-      await streamChat({
-        messages: [],
-        onDelta: (chunk) => {
-          setMessages((prev) => {
-            const last = prev[prev.length - 1];
-            if (last?.role === "assistant") {
-              return prev.map((m, i) =>
-                i === prev.length - 1 ? { ...m, content: m.content + chunk } : m
-              );
-            }
-            return [...prev, { role: "assistant", content: chunk }];
-          });
-        },
-        onDone: () => setIsLoading(false),
-      });
+      const targetWillId = await ensureWill();
+      await streamAssistantReply(targetWillId, []);
     } catch (error) {
       console.error("Error starting conversation:", error);
-      toast.error("Failed to start conversation");
+      handleChatError(error, "Failed to start conversation");
       setIsLoading(false);
     }
   };
@@ -89,24 +288,12 @@ const CreateChatWill = () => {
     setIsLoading(true);
 
     try {
-      await streamChat({
-        messages: updatedMessages,
-        onDelta: (chunk) => {
-          setMessages((prev) => {
-            const last = prev[prev.length - 1];
-            if (last?.role === "assistant") {
-              return prev.map((m, i) =>
-                i === prev.length - 1 ? { ...m, content: m.content + chunk } : m
-              );
-            }
-            return [...prev, { role: "assistant", content: chunk }];
-          });
-        },
-        onDone: () => setIsLoading(false),
-      });
+      const targetWillId = await ensureWill();
+      await persistMessage(targetWillId, userMsg, messages.length);
+      await streamAssistantReply(targetWillId, updatedMessages);
     } catch (error) {
       console.error("Error sending message:", error);
-      toast.error("Failed to send message");
+      handleChatError(error, "Failed to send message");
       setIsLoading(false);
     }
   };
@@ -122,16 +309,12 @@ const CreateChatWill = () => {
   }) => {
     const resp = await fetch(CHAT_URL, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-      },
+      headers: await getChatHeaders(),
       body: JSON.stringify({ messages }),
     });
 
     if (!resp.ok) {
-      const errorData = await resp.json().catch(() => ({}));
-      throw new Error(errorData.error || "Failed to get response");
+      throw await toChatRequestError(resp, "Failed to get response");
     }
 
     if (!resp.body) throw new Error("No response body");
@@ -211,39 +394,22 @@ const CreateChatWill = () => {
         return;
       }
 
-      // Check for existing chat will
-      const { data: existingWill } = await supabase
+      // The conversation itself is already stored message by message;
+      // the transcript is a flattened copy for review and export.
+      const targetWillId = await ensureWill();
+      const { error } = await supabase
         .from("wills")
-        .select("id")
-        .eq("user_id", user.id)
-        .eq("type", "chat")
-        .maybeSingle();
-
-      if (existingWill) {
-        const { error } = await supabase
-          .from("wills")
-          .update({
-            transcript,
-            content: transcript,
-            status: "in_progress",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", existingWill.id);
-        if (error) throw error;
-      } else {
-        const { error } = await supabase.from("wills").insert({
-          user_id: user.id,
-          type: "chat",
-          title: "My Chat-Based Will",
+        .update({
           transcript,
           content: transcript,
           status: "in_progress",
-        });
-        if (error) throw error;
-      }
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", targetWillId);
+      if (error) throw error;
 
       toast.success("Conversation saved successfully");
-      navigate("/assets");
+      await extractEstateDetails(targetWillId);
     } catch (error) {
       console.error("Error saving will:", error);
       toast.error("Failed to save will");
@@ -252,6 +418,46 @@ const CreateChatWill = () => {
     }
   };
 
+  // Ask the assistant to pull assets, recipients and allocations out of the
+  // conversation so the user can confirm them instead of re-entering them.
+  const extractEstateDetails = async (targetWillId: string) => {
+    setIsExtracting(true);
+    try {
+      const resp = await fetch(CHAT_URL, {
+        method: "POST",
+        headers: await getChatHeaders(),
+        body: JSON.stringify({ messages, mode: "extract" }),
+      });
+
+      if (!resp.ok) {
+        throw await toChatRequestError(resp, "Failed to extract details");
+      }
+
+      const result: EstateProposal = await resp.json();
+      if (result.assets.length === 0 && result.recipients.length === 0 && result.asset_allocations.length === 0) {
+        navigate(`/assets?will=${targetWillId}`);
+        return;
+      }
+      setProposal(result);
+    } catch (error) {
+      console.error("Error extracting estate details:", error);
+      toast.error(
+        error instanceof ChatRequestError && error.status === 429
+          ? error.message
+          : "Couldn't pick out your assets automatically - you can add them on the next page"
+      );
+      navigate(`/assets?will=${targetWillId}`);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  // Drops the filled-in clause into the input so the user can adjust it before sending
+  const insertTemplate = (template: ClauseTemplate, clauses: string[]) => {
+    setInput(`I'd like to include this ${template.title.toLowerCase()} clause in my will: ${clauses.join(" ")}`.slice(0, 5000));
+    inputRef.current?.focus();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -290,10 +496,12 @@ const CreateChatWill = () => {
             className="text-center mb-6"
           >
             <h1 className="heading-section text-foreground mb-2">
-              Chat-Based Will Creation
+              {proposal ? "Confirm Your Details" : "Chat-Based Will Creation"}
             </h1>
             <p className="text-muted-foreground">
-              Have a guided conversation to create your will step by step.
+              {proposal
+                ? "Review what we found in your conversation before it's added to your estate."
+                : "Have a guided conversation to create your will step by step."}
             </p>
           </motion.div>
 
@@ -304,7 +512,18 @@ const CreateChatWill = () => {
             transition={{ delay: 0.1 }}
             className="card-elevated flex-1 flex flex-col min-h-[400px] max-h-[500px]"
           >
-            {!hasStarted ? (
+            {proposal ? (
+              <ExtractionReview
+                proposal={proposal}
+                willId={willId}
+                onComplete={() => navigate(`/assets?will=${willId}`)}
+                onSkip={() => navigate(`/assets?will=${willId}`)}
+              />
+            ) : loadingHistory ? (
+              <div className="flex-1 flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-gold" />
+              </div>
+            ) : !hasStarted ? (
               <div className="flex-1 flex flex-col items-center justify-center text-center p-6">
                 <div className="w-20 h-20 rounded-full bg-gradient-to-br from-gold to-gold-light flex items-center justify-center mb-6 shadow-gold">
                   <MessageSquare className="w-10 h-10 text-primary" />
@@ -376,31 +595,51 @@ const CreateChatWill = () => {
                 </div>
 
                 {/* Input */}
-                <div className="border-t border-border p-4">
-                  <div className="flex gap-2">
-                    <Input
-                      ref={inputRef}
-                      value={input}
-                      onChange={(e) => setInput(e.target.value)}
-                      onKeyDown={handleKeyDown}
-                      placeholder="Type your response..."
-                      disabled={isLoading}
-                      className="flex-1"
-                    />
-                    <Button
-                      onClick={sendMessage}
-                      disabled={!input.trim() || isLoading}
-                      size="icon"
-                      className="shrink-0"
-                    >
-                      {isLoading ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Send className="w-4 h-4" />
-                      )}
-                    </Button>
+                {isFinalized ? (
+                  <div className="border-t border-border p-4 text-sm text-muted-foreground text-center">
+                    This will has been finalized.{" "}
+                    <Link to={`/review?will=${willId}`} className="text-gold hover:underline">
+                      Add an amendment
+                    </Link>{" "}
+                    to change it.
                   </div>
-                </div>
+                ) : (
+                  <div className="border-t border-border p-4">
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="shrink-0"
+                        onClick={() => setShowLibrary(true)}
+                        disabled={isLoading}
+                        title="Clause library"
+                      >
+                        <BookOpen className="w-4 h-4" />
+                      </Button>
+                      <Input
+                        ref={inputRef}
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Type your response..."
+                        disabled={isLoading}
+                        className="flex-1"
+                      />
+                      <Button
+                        onClick={sendMessage}
+                        disabled={!input.trim() || isLoading}
+                        size="icon"
+                        className="shrink-0"
+                      >
+                        {isLoading ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Send className="w-4 h-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </>
             )}
           </motion.div>
@@ -426,13 +665,13 @@ const CreateChatWill = () => {
               <Button
                 variant="gold"
                 className="gap-2"
-                disabled={messages.length < 2 || isSaving}
+                disabled={messages.length < 2 || isSaving || isExtracting || !!proposal || isFinalized}
                 onClick={handleSaveAndContinue}
               >
-                {isSaving ? (
+                {isSaving || isExtracting ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin" />
-                    Saving...
+                    {isExtracting ? "Reviewing conversation..." : "Saving..."}
                   </>
                 ) : (
                   <>
@@ -446,6 +685,14 @@ const CreateChatWill = () => {
           </motion.div>
         </div>
       </main>
+
+      <ClauseLibrary
+        open={showLibrary}
+        willId={willId}
+        insertLabel="Use in Chat"
+        onClose={() => setShowLibrary(false)}
+        onInsert={insertTemplate}
+      />
     </div>
   );
 };
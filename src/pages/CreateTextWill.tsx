@@ -0,0 +1,621 @@
+import { useState, useRef, useEffect, useCallback, useMemo, Fragment } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  ArrowDown,
+  Bold,
+  Italic,
+  Plus,
+  Trash2,
+  Eye,
+  PenLine,
+  Check,
+  Shield,
+  Loader2,
+  AlertCircle,
+  BookOpen,
+} from "lucide-react";
+import Header from "@/components/layout/Header";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import ClauseLibrary from "@/components/will/ClauseLibrary";
+import { writtenWillSchema } from "@/lib/validations";
+import type { ClauseTemplate } from "@/lib/clauseTemplates";
+import {
+  createClause,
+  createSection,
+  defaultWillSections,
+  parseWillDocument,
+  serializeWillDocument,
+  type WillSection,
+} from "@/lib/willDocument";
+
+const AUTOSAVE_DELAY_MS = 5000;
+const MAX_CONTENT_LENGTH = 50000;
+
+type SaveState = "idle" | "saving" | "saved" | "error" | "invalid";
+
+const move = <T,>(items: T[], from: number, to: number) => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Renders the **bold** / *italic* subset used in clauses
+const renderInline = (text: string) =>
+  text.split(/(\*\*[^*]+\*\*|\*[^*]+\*)/g).map((part, index) =>
+    part.startsWith("**") && part.endsWith("**") && part.length > 4 ? (
+      <strong key={index}>{part.slice(2, -2)}</strong>
+    ) : part.startsWith("*") && part.endsWith("*") && part.length > 2 ? (
+      <em key={index}>{part.slice(1, -1)}</em>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    ),
+  );
+
+const CreateTextWill = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const requestedWillId = searchParams.get("will");
+
+  const [title, setTitle] = useState("My Written Will");
+  const [sections, setSections] = useState<WillSection[]>(defaultWillSections);
+  const [willId, setWillId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string>("draft");
+  const [loading, setLoading] = useState(true);
+  const [isPreview, setIsPreview] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [isContinuing, setIsContinuing] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [revision, setRevision] = useState(0);
+  const [savedRevision, setSavedRevision] = useState(0);
+
+  const willIdRef = useRef<string | null>(null);
+  const saveChain = useRef<Promise<unknown>>(Promise.resolve());
+  const activeClause = useRef<{ sectionId: string; clauseId: string; el: HTMLTextAreaElement } | null>(null);
+
+  const content = useMemo(() => serializeWillDocument(sections), [sections]);
+  const isFinalized = status === "completed";
+
+  // Reopen the requested written will; without one we start from a suggested outline
+  useEffect(() => {
+    if (!user) return;
+    if (!requestedWillId) {
+      setLoading(false);
+      return;
+    }
+
+    const loadWill = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("wills")
+          .select("id, title, content, status")
+          .eq("id", requestedWillId)
+          .eq("type", "text")
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+          toast.error("Will not found");
+          return;
+        }
+
+        const parsed = parseWillDocument(data.content);
+        willIdRef.current = data.id;
+        setWillId(data.id);
+        setTitle(data.title);
+        setStatus(data.status);
+        setSections(parsed.length ? parsed : defaultWillSections());
+        setLastSavedAt(null);
+      } catch (error) {
+        console.error("Error loading will:", error);
+        toast.error("Failed to load your will");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadWill();
+  }, [user, requestedWillId]);
+
+  // Saves run one after another so the first autosave's insert is never duplicated.
+  // Resolves to the saved will's id, or to why it couldn't be saved.
+  const persist = useCallback(
+    (nextTitle: string, nextContent: string, nextRevision: number) => {
+      const run = async (): Promise<{ willId: string | null; error: string | null }> => {
+        if (!user) return { willId: null, error: "You must be logged in" };
+
+        const validation = writtenWillSchema.safeParse({ title: nextTitle, content: nextContent });
+        if (!validation.success) {
+          const message = validation.error.errors[0].message;
+          setSaveState("invalid");
+          setSaveError(message);
+          return { willId: null, error: message };
+        }
+
+        setSaveState("saving");
+        setSaveError(null);
+        try {
+          if (willIdRef.current) {
+            const { error } = await supabase
+              .from("wills")
+              .update({ title: validation.data.title, content: validation.data.content })
+              .eq("id", willIdRef.current);
+            if (error) throw error;
+          } else {
+            const { data, error } = await supabase
+              .from("wills")
+              .insert({
+                user_id: user.id,
+                type: "text",
+                title: validation.data.title,
+                content: validation.data.content,
+                status: "draft",
+              })
+              .select("id")
+              .single();
+            if (error) throw error;
+            willIdRef.current = data.id;
+            setWillId(data.id);
+          }
+
+          setSavedRevision(nextRevision);
+          setSaveState("saved");
+          setLastSavedAt(new Date());
+          return { willId: willIdRef.current, error: null };
+        } catch (error) {
+          console.error("Error saving written will:", error);
+          setSaveState("error");
+          return { willId: null, error: null };
+        }
+      };
+
+      const next = saveChain.current.catch(() => undefined).then(run);
+      saveChain.current = next;
+      return next;
+    },
+    [user],
+  );
+
+  // Autosave once the user pauses typing
+  useEffect(() => {
+    if (revision === savedRevision || isFinalized) return;
+    const timer = setTimeout(() => persist(title, content, revision), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [revision, savedRevision, isFinalized, title, content, persist]);
+
+  const edit = (updater: (prev: WillSection[]) => WillSection[]) => {
+    setSections(updater);
+    setRevision((r) => r + 1);
+  };
+
+  const updateTitle = (value: string) => {
+    setTitle(value);
+    setRevision((r) => r + 1);
+  };
+
+  const updateHeading = (sectionId: string, heading: string) =>
+    edit((prev) => prev.map((s) => (s.id === sectionId ? { ...s, heading } : s)));
+
+  const updateClause = (sectionId: string, clauseId: string, text: string) =>
+    edit((prev) =>
+      prev.map((s) =>
+        s.id === sectionId ? { ...s, clauses: s.clauses.map((c) => (c.id === clauseId ? { ...c, text } : c)) } : s,
+      ),
+    );
+
+  const addSection = () => edit((prev) => [...prev, createSection()]);
+
+  const removeSection = (sectionId: string) => edit((prev) => prev.filter((s) => s.id !== sectionId));
+
+  const moveSection = (index: number, offset: number) => edit((prev) => move(prev, index, index + offset));
+
+  const addClause = (sectionId: string) =>
+    edit((prev) => prev.map((s) => (s.id === sectionId ? { ...s, clauses: [...s.clauses, createClause()] } : s)));
+
+  const removeClause = (sectionId: string, clauseId: string) =>
+    edit((prev) =>
+      prev.map((s) =>
+        s.id === sectionId && s.clauses.length > 1 ? { ...s, clauses: s.clauses.filter((c) => c.id !== clauseId) } : s,
+      ),
+    );
+
+  const moveClause = (sectionId: string, index: number, offset: number) =>
+    edit((prev) => prev.map((s) => (s.id === sectionId ? { ...s, clauses: move(s.clauses, index, index + offset) } : s)));
+
+  // Library clauses join the section they belong in, or start it if it doesn't exist yet
+  const insertTemplate = (template: ClauseTemplate, clauses: string[]) => {
+    const heading = template.section.toLowerCase();
+    edit((prev) => {
+      const target = prev.find((s) => s.heading.trim().toLowerCase() === heading);
+      if (!target) return [...prev, createSection(template.section, clauses)];
+
+      return prev.map((s) =>
+        s.id === target.id
+          ? { ...s, clauses: [...s.clauses.filter((c) => c.text.trim()), ...clauses.map((text) => createClause(text))] }
+          : s,
+      );
+    });
+    setIsPreview(false);
+    toast.success(`Added "${template.title}" to ${template.section}`);
+  };
+
+  // Wraps the selection in the focused clause with a Markdown marker
+  const applyFormat = (marker: string) => {
+    const active = activeClause.current;
+    if (!active) return;
+
+    const { el, sectionId, clauseId } = active;
+    const { selectionStart, selectionEnd, value } = el;
+    const selected = value.slice(selectionStart, selectionEnd) || "text";
+    const next = value.slice(0, selectionStart) + marker + selected + marker + value.slice(selectionEnd);
+    updateClause(sectionId, clauseId, next);
+
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(selectionStart + marker.length, selectionStart + marker.length + selected.length);
+    });
+  };
+
+  const handleSaveAndContinue = async () => {
+    setIsContinuing(true);
+    try {
+      const saved = revision === savedRevision && willIdRef.current
+        ? { willId: willIdRef.current, error: null }
+        : await persist(title, content, revision);
+      const savedId = saved.willId;
+
+      if (!savedId) {
+        toast.error(saved.error || "Failed to save will");
+        return;
+      }
+
+      if (status === "draft") {
+        const { error } = await supabase.from("wills").update({ status: "in_progress" }).eq("id", savedId);
+        if (error) throw error;
+        setStatus("in_progress");
+      }
+
+      toast.success("Written will saved");
+      navigate(`/assets?will=${savedId}`);
+    } catch (error) {
+      console.error("Error saving written will:", error);
+      toast.error("Failed to save will");
+    } finally {
+      setIsContinuing(false);
+    }
+  };
+
+  const saveLabel =
+    saveState === "saving"
+      ? "Saving..."
+      : saveState === "error"
+        ? "Couldn't save - we'll retry on your next change"
+        : saveState === "invalid"
+          ? saveError
+          : revision !== savedRevision
+            ? "Unsaved changes"
+            : lastSavedAt
+              ? `Saved at ${lastSavedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+              : willId
+                ? "All changes saved"
+                : "Not saved yet";
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="pt-24 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-gold" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="pt-24 pb-12 px-4">
+        <div className="container mx-auto max-w-3xl">
+          {/* Back Button */}
+          <Link to="/create" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-6">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Method Selection
+          </Link>
+
+          {/* Progress Indicator */}
+          <div className="flex items-center gap-2 mb-8">
+            {[1, 2, 3, 4].map((step) => (
+              <div key={step} className="flex items-center gap-2">
+                <div className={`progress-step ${step === 2 ? "progress-step-active" : step < 2 ? "progress-step-completed" : "progress-step-pending"}`}>
+                  {step < 2 ? <Check className="w-4 h-4" /> : step}
+                </div>
+                {step < 4 && <div className="w-8 h-0.5 bg-border" />}
+              </div>
+            ))}
+          </div>
+
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center mb-8"
+          >
+            <h1 className="heading-section text-foreground mb-4">Write Your Will</h1>
+            <p className="body-large max-w-xl mx-auto">
+              Organize your wishes into sections and numbered clauses. Your work is saved automatically.
+            </p>
+          </motion.div>
+
+          {isFinalized && (
+            <div className="card-elevated bg-sage/30 border-sage mb-6 text-sm text-foreground">
+              This will has been finalized and can no longer be edited.{" "}
+              <Link to={`/review?will=${willId}`} className="text-gold hover:underline">
+                Add an amendment
+              </Link>{" "}
+              to change it.
+            </div>
+          )}
+
+          {/* Editor */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="card-elevated mb-8"
+          >
+            {/* Toolbar */}
+            <div className="flex items-center justify-between gap-4 pb-4 mb-4 border-b border-border">
+              <div className="flex items-center gap-1">
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyFormat("**")}
+                  disabled={isPreview || isFinalized}
+                  className="p-2 rounded-lg hover:bg-secondary disabled:opacity-50"
+                  title="Bold"
+                >
+                  <Bold className="w-4 h-4" />
+                </button>
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyFormat("*")}
+                  disabled={isPreview || isFinalized}
+                  className="p-2 rounded-lg hover:bg-secondary disabled:opacity-50"
+                  title="Italic"
+                >
+                  <Italic className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setIsPreview(!isPreview)}
+                  className="ml-2 inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm hover:bg-secondary"
+                >
+                  {isPreview ? <PenLine className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  {isPreview ? "Edit" : "Preview"}
+                </button>
+                {!isFinalized && (
+                  <button
+                    onClick={() => setShowLibrary(true)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm hover:bg-secondary"
+                  >
+                    <BookOpen className="w-4 h-4" />
+                    Clause Library
+                  </button>
+                )}
+              </div>
+              <p
+                className={`text-xs flex items-center gap-1 ${
+                  saveState === "error" || saveState === "invalid" ? "text-destructive" : "text-muted-foreground"
+                }`}
+              >
+                {saveState === "saving" && <Loader2 className="w-3 h-3 animate-spin" />}
+                {(saveState === "error" || saveState === "invalid") && <AlertCircle className="w-3 h-3" />}
+                {saveLabel}
+              </p>
+            </div>
+
+            {isPreview || isFinalized ? (
+              <article className="space-y-6">
+                <h2 className="font-serif text-2xl font-semibold text-foreground text-center">{title}</h2>
+                {sections.map((section, i) => (
+                  <section key={section.id}>
+                    <h3 className="font-serif text-lg font-semibold text-foreground mb-2">
+                      {i + 1}. {section.heading || "Untitled Section"}
+                    </h3>
+                    <ol className="space-y-2">
+                      {section.clauses
+                        .filter((c) => c.text.trim())
+                        .map((clause, j) => (
+                          <li key={clause.id} className="flex gap-3 text-sm text-foreground">
+                            <span className="font-mono text-muted-foreground shrink-0">
+                              {i + 1}.{j + 1}.
+                            </span>
+                            <span className="whitespace-pre-wrap">{renderInline(clause.text)}</span>
+                          </li>
+                        ))}
+                    </ol>
+                  </section>
+                ))}
+              </article>
+            ) : (
+              <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Will Title</label>
+                  <input
+                    type="text"
+                    value={title}
+                    onChange={(e) => updateTitle(e.target.value)}
+                    maxLength={200}
+                    className="input-elevated"
+                  />
+                </div>
+
+                {sections.map((section, i) => (
+                  <div key={section.id} className="rounded-xl border border-border p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <span className="font-serif text-lg font-semibold text-gold w-8 shrink-0">{i + 1}.</span>
+                      <input
+                        type="text"
+                        value={section.heading}
+                        onChange={(e) => updateHeading(section.id, e.target.value)}
+                        placeholder="Section heading"
+                        maxLength={200}
+                        className="input-elevated font-serif font-semibold"
+                      />
+                      <button
+                        onClick={() => moveSection(i, -1)}
+                        disabled={i === 0}
+                        className="p-2 rounded-lg hover:bg-secondary disabled:opacity-30"
+                        title="Move section up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveSection(i, 1)}
+                        disabled={i === sections.length - 1}
+                        className="p-2 rounded-lg hover:bg-secondary disabled:opacity-30"
+                        title="Move section down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => removeSection(section.id)}
+                        className="p-2 rounded-lg hover:bg-destructive/10"
+                        title="Remove section"
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </button>
+                    </div>
+
+                    <div className="space-y-2 pl-10">
+                      {section.clauses.map((clause, j) => (
+                        <div key={clause.id} className="flex items-start gap-2">
+                          <span className="font-mono text-sm text-muted-foreground pt-3 w-10 shrink-0">
+                            {i + 1}.{j + 1}.
+                          </span>
+                          <textarea
+                            value={clause.text}
+                            onChange={(e) => updateClause(section.id, clause.id, e.target.value)}
+                            onFocus={(e) =>
+                              (activeClause.current = { sectionId: section.id, clauseId: clause.id, el: e.currentTarget })
+                            }
+                            placeholder="Write a clause..."
+                            rows={2}
+                            className="input-elevated resize-y text-sm"
+                          />
+                          <div className="flex flex-col">
+                            <button
+                              onClick={() => moveClause(section.id, j, -1)}
+                              disabled={j === 0}
+                              className="p-1 rounded hover:bg-secondary disabled:opacity-30"
+                              title="Move clause up"
+                            >
+                              <ArrowUp className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={() => moveClause(section.id, j, 1)}
+                              disabled={j === section.clauses.length - 1}
+                              className="p-1 rounded hover:bg-secondary disabled:opacity-30"
+                              title="Move clause down"
+                            >
+                              <ArrowDown className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={() => removeClause(section.id, clause.id)}
+                              disabled={section.clauses.length === 1}
+                              className="p-1 rounded hover:bg-destructive/10 disabled:opacity-30"
+                              title="Remove clause"
+                            >
+                              <Trash2 className="w-3 h-3 text-destructive" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => addClause(section.id)}
+                        className="inline-flex items-center gap-1 text-sm text-gold hover:underline"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Add clause
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between">
+                  <Button variant="outline" size="sm" className="gap-2" onClick={addSection}>
+                    <Plus className="w-4 h-4" />
+                    Add Section
+                  </Button>
+                  <span
+                    className={`text-xs ${content.length > MAX_CONTENT_LENGTH ? "text-destructive" : "text-muted-foreground"}`}
+                  >
+                    {content.length.toLocaleString()} / {MAX_CONTENT_LENGTH.toLocaleString()} characters
+                  </span>
+                </div>
+              </div>
+            )}
+          </motion.div>
+
+          {/* Navigation */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.2 }}
+            className="flex items-center justify-between"
+          >
+            <Link to="/create">
+              <Button variant="ghost" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-4">
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Shield className="w-4 h-4" />
+                Encrypted
+              </p>
+              <Button
+                variant="gold"
+                className="gap-2"
+                disabled={isContinuing || isFinalized || sections.length === 0}
+                onClick={handleSaveAndContinue}
+              >
+                {isContinuing ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    Continue to Assets
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </Button>
+            </div>
+          </motion.div>
+        </div>
+      </main>
+
+      <ClauseLibrary
+        open={showLibrary}
+        willId={willId}
+        onClose={() => setShowLibrary(false)}
+        onInsert={insertTemplate}
+      />
+    </div>
+  );
+};
+
+export default CreateTextWill;
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
 import {
@@ -26,6 +26,7 @@ import { validateVideoFile } from "@/lib/validations";
 const CreateVideoWill = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const videoRef = useRef<HTMLVideoElement>(null);
   const previewRef = useRef<HTMLVideoElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -179,6 +180,22 @@ const CreateVideoWill = () => {
 
     setIsSaving(true);
     try {
+      let willId = searchParams.get("will");
+
+      // A finalized will can't be re-recorded; changes go through amendments
+      if (willId) {
+        const { data: targetWill, error: targetError } = await supabase
+          .from("wills")
+          .select("status")
+          .eq("id", willId)
+          .maybeSingle();
+        if (targetError) throw targetError;
+        if (targetWill?.status === "completed") {
+          toast.error("This will has been finalized. Add an amendment from the review page instead.");
+          return;
+        }
+      }
+
       // Upload video to storage
       const fileName = `${user.id}/video-will-${Date.now()}.webm`;
       const { error: uploadError } = await supabase.storage
@@ -187,37 +204,42 @@ const CreateVideoWill = () => {
 
       if (uploadError) throw uploadError;
 
-      // Create or update will record
-      const { data: existingWill } = await supabase
-        .from("wills")
-        .select("id")
-        .eq("user_id", user.id)
-        .eq("type", "video")
-        .maybeSingle();
-
-      if (existingWill) {
-        const { error } = await supabase
+      // Re-record into the will we were opened for; otherwise the recording starts a new will
+      if (willId) {
+        const { data: updatedWill, error } = await supabase
           .from("wills")
           .update({
             video_url: fileName,
             status: "in_progress",
             updated_at: new Date().toISOString(),
           })
-          .eq("id", existingWill.id);
+          .eq("id", willId)
+          .eq("type", "video")
+          .select("id")
+          .maybeSingle();
         if (error) throw error;
+        if (!updatedWill) throw new Error("Will not found");
       } else {
-        const { error } = await supabase.from("wills").insert({
+        const { data: newWill, error } = await supabase.from("wills").insert({
           user_id: user.id,
           type: "video",
           video_url: fileName,
           title: "My Video Will",
           status: "in_progress",
-        });
+        }).select("id").single();
         if (error) throw error;
+        willId = newWill.id;
       }
 
+      // Kick off server-side transcription; the review page picks up the result
+      supabase.functions
+        .invoke("transcribe-will", { body: { willId, mediaPath: fileName } })
+        .then(({ error }) => {
+          if (error) console.error("Error requesting transcription:", error);
+        });
+
       toast.success("Video saved successfully");
-      navigate("/assets");
+      navigate(`/assets?will=${willId}`);
     } catch (error) {
       console.error("Error saving video:", error);
       toast.error("Failed to save video");
@@ -6,6 +6,7 @@ import {
   Mic,
   Video,
   MessageSquare,
+  PenLine,
   ArrowLeft,
   ArrowRight,
   Check,
@@ -15,7 +16,7 @@ import {
 } from "lucide-react";
 import Header from "@/components/layout/Header";
 
-type Method = "audio" | "video" | "chat" | null;
+type Method = "audio" | "video" | "chat" | "text" | null;
 
 const CreateWill = () => {
   const [selectedMethod, setSelectedMethod] = useState<Method>(null);
@@ -49,6 +50,15 @@ const CreateWill = () => {
       time: "10-15 min",
       color: "from-sage-dark to-sage",
     },
+    {
+      id: "text" as Method,
+      icon: PenLine,
+      title: "Written Will",
+      description: "Draft your will yourself in clear sections and numbered clauses.",
+      features: ["Structured clauses", "Autosaves as you type", "Full control"],
+      time: "15-30 min",
+      color: "from-navy to-navy-light",
+    },
   ];
 
   const handleContinue = () => {
@@ -88,7 +98,7 @@ const CreateWill = () => {
           </motion.div>
 
           {/* Method Selection */}
-          <div className="grid md:grid-cols-3 gap-6 mb-8">
+          <div className="grid md:grid-cols-2 gap-6 mb-8">
             {methods.map((method, index) => (
               <motion.button
                 key={method.id}
@@ -14,6 +14,7 @@ import {
   ChevronRight,
   Clock,
   Loader2,
+  Star,
 } from "lucide-react";
 import Header from "@/components/layout/Header";
 import { useAuth } from "@/hooks/useAuth";
@@ -24,6 +25,7 @@ interface Will {
   title: string;
   status: string;
   type: string;
+  is_primary: boolean;
   updated_at: string;
 }
 
@@ -44,7 +46,7 @@ const Dashboard = () => {
     try {
       const [willsRes, assetsRes, recipientsRes] = await Promise.all([
         supabase.from("wills").select("*").order("updated_at", { ascending: false }),
-        supabase.from("assets").select("id", { count: "exact" }),
+        supabase.from("assets").select("id", { count: "exact" }).neq("category", "residuary"),
         supabase.from("recipients").select("id", { count: "exact" }),
       ]);
 
@@ -179,7 +181,14 @@ const Dashboard = () => {
 
             <div className="space-y-4">
               {wills.map((will) => (
-                <Link key={will.id} to={`/will/${will.id}`}>
+                <Link
+                  key={will.id}
+                  to={
+                    will.type === "chat" || will.type === "text"
+                      ? `/create/${will.type}?will=${will.id}`
+                      : `/review?will=${will.id}`
+                  }
+                >
                   <div className="card-interactive flex items-center gap-4">
                     <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-gold to-gold-light flex items-center justify-center">
                       <FileText className="w-6 h-6 text-primary" />
@@ -195,6 +204,12 @@ const Dashboard = () => {
                         }`}>
                           {getStatusLabel(will.status)}
                         </span>
+                        {will.is_primary && (
+                          <span className="flex items-center gap-1 text-xs text-gold font-medium">
+                            <Star className="w-3 h-3 fill-current" />
+                            Primary
+                          </span>
+                        )}
                       </div>
                       
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
@@ -0,0 +1,476 @@
+import { useState, useEffect } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { motion } from "framer-motion";
+import { ArrowLeft, Check, Gift, Loader2, Mail, MapPin, MessageSquare, Phone, Scale, ShieldAlert, Users } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { DEFAULT_CURRENCY, formatMoney, loadCurrencySettings, type CurrencySettings } from "@/lib/currency";
+import {
+  calculateNetEstate,
+  contingentIds,
+  describeAllocation,
+  describeFallback,
+  isResiduary,
+  liabilitiesForAssets,
+  pickResiduary,
+  type EstateAllocation,
+  type Liability,
+} from "@/lib/estate";
+import { personalMessageSchema } from "@/lib/validations";
+
+interface Recipient {
+  id: string;
+  full_name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  relationship: string | null;
+  is_verified: boolean;
+  personal_message: string | null;
+}
+
+interface Will {
+  id: string;
+  title: string;
+  is_primary: boolean;
+}
+
+interface Asset {
+  id: string;
+  will_id: string | null;
+  name: string;
+  category: string;
+  estimated_value: number | null;
+  currency: string;
+  ownership_percentage: number;
+  right_of_survivorship: boolean;
+}
+
+interface Allocation extends EstateAllocation {
+  id: string;
+}
+
+// Everything one recipient is left under a will, with projected values, so owners can
+// compare what each person receives
+const RecipientDetail = () => {
+  const { user } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedWillId = searchParams.get("will");
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [wills, setWills] = useState<Will[]>([]);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [allocations, setAllocations] = useState<Allocation[]>([]);
+  const [liabilities, setLiabilities] = useState<Pick<Liability, "amount" | "currency" | "secured_asset_id">[]>([]);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>({
+    reportingCurrency: DEFAULT_CURRENCY,
+    rates: [],
+  });
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    Promise.all([
+      supabase
+        .from("recipients")
+        .select("id, full_name, email, phone, address, relationship, is_verified, personal_message")
+        .order("full_name"),
+      supabase.from("wills").select("id, title, is_primary").order("updated_at", { ascending: false }),
+      supabase
+        .from("assets")
+        .select("id, will_id, name, category, estimated_value, currency, ownership_percentage, right_of_survivorship")
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("asset_allocations")
+        .select(
+          "id, asset_id, recipient_id, allocation_kind, allocation_percentage, fixed_amount, lapse_rule, contingents:allocation_contingents(recipient_id, position)",
+        ),
+      supabase.from("liabilities").select("amount, currency, secured_asset_id"),
+      loadCurrencySettings(user.id),
+    ])
+      .then(([recipientsRes, willsRes, assetsRes, allocationsRes, liabilitiesRes, settings]) => {
+        if (recipientsRes.error) throw recipientsRes.error;
+        if (willsRes.error) throw willsRes.error;
+        if (assetsRes.error) throw assetsRes.error;
+        if (allocationsRes.error) throw allocationsRes.error;
+        if (liabilitiesRes.error) throw liabilitiesRes.error;
+        if (cancelled) return;
+
+        setRecipients(recipientsRes.data || []);
+        setWills(willsRes.data || []);
+        setAssets(assetsRes.data || []);
+        setAllocations(allocationsRes.data || []);
+        setLiabilities(liabilitiesRes.data || []);
+        setCurrencySettings(settings);
+      })
+      .catch((error) => {
+        console.error("Error fetching recipient summary:", error);
+        toast.error("Failed to load recipient");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // An unsaved message draft belongs to the recipient it was written for
+  useEffect(() => {
+    setMessage(null);
+  }, [id]);
+
+  const recipient = recipients.find((r) => r.id === id);
+
+  const handleSaveMessage = async () => {
+    if (!recipient || message === null) return;
+
+    const validation = personalMessageSchema.safeParse(message.trim());
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const personalMessage = validation.data || null;
+      const { error } = await supabase
+        .from("recipients")
+        .update({ personal_message: personalMessage })
+        .eq("id", recipient.id);
+      if (error) throw error;
+
+      setRecipients((prev) => prev.map((r) => (r.id === recipient.id ? { ...r, personal_message: personalMessage } : r)));
+      setMessage(null);
+      toast.success("Message saved");
+    } catch (error) {
+      console.error("Error saving personal message:", error);
+      toast.error("Failed to save message");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="pt-24 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-gold" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!recipient) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-4xl text-center">
+            <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h1 className="font-serif text-2xl font-semibold text-foreground mb-4">Recipient not found</h1>
+            <Link to="/recipients">
+              <Button variant="gold">Back to Recipients</Button>
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Same estate as the review page: the chosen will's assets plus those not yet tied to a will
+  const will = wills.find((w) => w.id === requestedWillId) || wills.find((w) => w.is_primary) || wills[0] || null;
+  const willAssets = assets.filter((a) => !a.will_id || a.will_id === will?.id);
+  const residuary = pickResiduary(willAssets, will?.id ?? null);
+  const estateAssets = willAssets.filter((a) => !isResiduary(a) || a === residuary);
+  const estateAllocations = allocations.filter((a) => estateAssets.some((asset) => asset.id === a.asset_id));
+
+  const { reportingCurrency, rates } = currencySettings;
+  const estate = calculateNetEstate(
+    estateAssets,
+    liabilitiesForAssets(liabilities, willAssets),
+    estateAllocations,
+    reportingCurrency,
+    rates,
+  );
+
+  const recipientName = (recipientId: string) => recipients.find((r) => r.id === recipientId)?.full_name || "Unknown";
+  const assetName = (asset: Asset) => (isResiduary(asset) ? "Residuary estate" : asset.name);
+  const projected = (assetId: string, recipientId: string) =>
+    estate.shares
+      .filter((s) => s.assetId === assetId && s.recipientId === recipientId)
+      .reduce((sum, s) => sum + s.amount, 0);
+
+  const gifts = estateAllocations
+    .filter((a) => a.recipient_id === recipient.id)
+    .map((allocation) => ({ allocation, asset: estateAssets.find((a) => a.id === allocation.asset_id)! }))
+    // The residuary estate is settled last, so list it last too
+    .sort((a, b) => Number(isResiduary(a.asset)) - Number(isResiduary(b.asset)));
+  const backups = estateAllocations
+    .filter((a) => contingentIds(a).includes(recipient.id))
+    .map((allocation) => ({
+      allocation,
+      asset: estateAssets.find((a) => a.id === allocation.asset_id)!,
+      position: contingentIds(allocation).indexOf(recipient.id) + 1,
+    }));
+
+  const total = estate.recipients[recipient.id] || 0;
+  const comparison = [...recipients].sort((a, b) => (estate.recipients[b.id] || 0) - (estate.recipients[a.id] || 0));
+  const largest = Math.max(...comparison.map((r) => estate.recipients[r.id] || 0), 0);
+  const draft = message ?? recipient.personal_message ?? "";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="pt-24 pb-12 px-4">
+        <div className="container mx-auto max-w-4xl">
+          <Link
+            to={requestedWillId ? `/recipients?will=${requestedWillId}` : "/recipients"}
+            className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-6"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Recipients
+          </Link>
+
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex flex-wrap items-center justify-between gap-4 mb-8"
+          >
+            <div className="flex items-center gap-4">
+              <div className="w-16 h-16 rounded-full bg-gradient-to-br from-navy to-navy-light flex items-center justify-center text-primary-foreground font-semibold text-2xl">
+                {recipient.full_name.charAt(0)}
+              </div>
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <h1 className="heading-section text-foreground">{recipient.full_name}</h1>
+                  {recipient.is_verified && (
+                    <span className="px-2 py-0.5 rounded-full bg-sage text-xs font-medium text-foreground flex items-center gap-1">
+                      <Check className="w-3 h-3" />
+                      Verified
+                    </span>
+                  )}
+                </div>
+                <p className="text-muted-foreground">
+                  {recipient.relationship || "Recipient"}
+                  {" · "}
+                  projected to receive{" "}
+                  <span className="font-semibold text-foreground">{formatMoney(total, reportingCurrency)}</span>
+                </p>
+              </div>
+            </div>
+            {wills.length > 1 && (
+              <select
+                value={will?.id || ""}
+                onChange={(e) => setSearchParams({ will: e.target.value })}
+                className="input-elevated w-auto"
+              >
+                {wills.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.title}
+                    {w.is_primary ? " (primary)" : ""}
+                  </option>
+                ))}
+              </select>
+            )}
+          </motion.div>
+
+          <div className="space-y-6">
+            {/* Contact details */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 }}
+              className="card-elevated"
+            >
+              <h2 className="font-serif text-xl font-semibold text-foreground mb-4">Contact Details</h2>
+              <div className="grid sm:grid-cols-3 gap-4 text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Mail className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <span className="truncate">{recipient.email || "No email"}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Phone className="w-4 h-4 text-muted-foreground shrink-0" />
+                  {recipient.phone || "No phone"}
+                </div>
+                <div className="flex items-center gap-2">
+                  <MapPin className="w-4 h-4 text-muted-foreground shrink-0" />
+                  {recipient.address || "No address"}
+                </div>
+              </div>
+            </motion.div>
+
+            {/* Inheritance */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="card-elevated"
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <Gift className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">
+                  Inheritance{will ? ` under "${will.title}"` : ""}
+                </h2>
+              </div>
+
+              {gifts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {recipient.full_name} hasn't been allocated anything yet.{" "}
+                  <Link to={will ? `/assets?will=${will.id}` : "/assets"} className="text-gold hover:underline">
+                    Assign assets
+                  </Link>
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Share</TableHead>
+                      <TableHead className="text-right">Projected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gifts.map(({ allocation, asset }) => (
+                      <TableRow key={allocation.id}>
+                        <TableCell>
+                          <p className="font-medium">{assetName(asset)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            If {recipient.full_name} dies first: {describeFallback(allocation, recipientName)}
+                          </p>
+                        </TableCell>
+                        <TableCell>{describeAllocation(allocation, asset.currency)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(projected(asset.id, recipient.id), reportingCurrency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={2} className="font-semibold">
+                        Total
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">{formatMoney(total, reportingCurrency)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+
+              {backups.length > 0 && (
+                <div className="mt-4">
+                  <p className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+                    <ShieldAlert className="w-4 h-4 text-muted-foreground" />
+                    Named as a contingent recipient
+                  </p>
+                  <ul className="space-y-1 text-sm text-muted-foreground">
+                    {backups.map(({ allocation, asset, position }) => (
+                      <li key={allocation.id}>
+                        {position === 1 ? "First" : `Choice ${position}`} in line for {recipientName(allocation.recipient_id)}'s{" "}
+                        {describeAllocation(allocation, asset.currency)} of {assetName(asset)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground mt-4">
+                Projected from estimated values after debts, assuming every recipient survives you.
+                {estate.missing.length > 0 &&
+                  ` Excludes ${estate.missing.join(", ")} amounts (no rate to ${reportingCurrency}).`}
+              </p>
+            </motion.div>
+
+            {/* Comparison with the other recipients */}
+            {recipients.length > 1 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.15 }}
+                className="card-elevated"
+              >
+                <div className="flex items-center gap-3 mb-4">
+                  <Scale className="w-5 h-5 text-gold" />
+                  <h2 className="font-serif text-xl font-semibold text-foreground">Compared With Others</h2>
+                </div>
+                <div className="space-y-3">
+                  {comparison.map((r) => {
+                    const amount = estate.recipients[r.id] || 0;
+                    return (
+                      <div key={r.id}>
+                        <div className="flex justify-between gap-4 text-sm mb-1">
+                          {r.id === recipient.id ? (
+                            <span className="font-semibold text-foreground">{r.full_name}</span>
+                          ) : (
+                            <Link
+                              to={`/recipients/${r.id}${will ? `?will=${will.id}` : ""}`}
+                              className="text-foreground hover:text-gold transition-colors"
+                            >
+                              {r.full_name}
+                            </Link>
+                          )}
+                          <span className="text-muted-foreground">
+                            {formatMoney(amount, reportingCurrency)}
+                            {estate.net > 0 && ` · ${Math.round((amount / estate.net) * 100)}%`}
+                          </span>
+                        </div>
+                        <div className="h-2 rounded-full bg-secondary overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${r.id === recipient.id ? "bg-gold" : "bg-navy/40"}`}
+                            style={{ width: `${largest > 0 ? (amount / largest) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Personal message */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="card-elevated"
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <MessageSquare className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">Personal Message</h2>
+              </div>
+              <textarea
+                value={draft}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={5}
+                placeholder={`Anything you'd like ${recipient.full_name} to know`}
+                className="input-elevated resize-none mb-3"
+              />
+              <div className="flex justify-end gap-3">
+                {message !== null && (
+                  <Button variant="ghost" onClick={() => setMessage(null)}>
+                    Discard
+                  </Button>
+                )}
+                <Button variant="gold" onClick={handleSaveMessage} disabled={saving || message === null}>
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save Message"}
+                </Button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default RecipientDetail;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -34,7 +34,11 @@ interface Recipient {
 
 const Recipients = () => {
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const requestedWillId = searchParams.get("will");
   const [recipients, setRecipients] = useState<Recipient[]>([]);
+  // Recipients named in a finalized will, who can no longer be removed
+  const [lockedIds, setLockedIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -53,13 +57,28 @@ const Recipients = () => {
 
   const fetchRecipients = async () => {
     try {
-      const { data, error } = await supabase
-        .from("recipients")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const [recipientsRes, willsRes, assetsRes, allocationsRes] = await Promise.all([
+        supabase.from("recipients").select("*").order("created_at", { ascending: false }),
+        supabase.from("wills").select("id").eq("status", "completed"),
+        supabase.from("assets").select("id, will_id").not("will_id", "is", null),
+        supabase.from("asset_allocations").select("asset_id, recipient_id, contingents:allocation_contingents(recipient_id)"),
+      ]);
 
-      if (error) throw error;
-      if (data) setRecipients(data);
+      if (recipientsRes.error) throw recipientsRes.error;
+      if (willsRes.error) throw willsRes.error;
+      if (assetsRes.error) throw assetsRes.error;
+      if (allocationsRes.error) throw allocationsRes.error;
+
+      const completedWillIds = new Set((willsRes.data || []).map((w) => w.id));
+      const lockedAssetIds = new Set(
+        (assetsRes.data || []).filter((a) => completedWillIds.has(a.will_id)).map((a) => a.id),
+      );
+      const locked = (allocationsRes.data || [])
+        .filter((a) => lockedAssetIds.has(a.asset_id))
+        .flatMap((a) => [a.recipient_id, ...(a.contingents || []).map((c) => c.recipient_id)]);
+
+      setRecipients(recipientsRes.data || []);
+      setLockedIds(new Set(locked));
     } catch (error) {
       console.error("Error fetching recipients:", error);
       toast.error("Failed to load recipients");
@@ -119,6 +138,11 @@ const Recipients = () => {
   };
 
   const handleDeleteRecipient = async (id: string) => {
+    if (lockedIds.has(id)) {
+      toast.error("This recipient is named in a finalized will; add an amendment to change it");
+      return;
+    }
+
     try {
       const { error } = await supabase.from("recipients").delete().eq("id", id);
       if (error) throw error;
@@ -197,7 +221,12 @@ const Recipients = () => {
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
-                      <h3 className="font-semibold text-foreground">{recipient.full_name}</h3>
+                      <Link
+                        to={`/recipients/${recipient.id}${requestedWillId ? `?will=${requestedWillId}` : ""}`}
+                        className="font-semibold text-foreground hover:text-gold transition-colors"
+                      >
+                        {recipient.full_name}
+                      </Link>
                       {recipient.relationship && (
                         <span className="px-2 py-0.5 rounded-full bg-secondary text-xs font-medium text-secondary-foreground">
                           {recipient.relationship}
@@ -231,12 +260,17 @@ const Recipients = () => {
                         Send Invite
                       </Button>
                     )}
-                    <button className="p-2 hover:bg-secondary rounded-lg transition-colors">
+                    <button
+                      className="p-2 hover:bg-secondary rounded-lg transition-colors disabled:opacity-50"
+                      disabled={lockedIds.has(recipient.id)}
+                    >
                       <Edit2 className="w-4 h-4 text-muted-foreground" />
                     </button>
                     <button 
-                      className="p-2 hover:bg-destructive/10 rounded-lg transition-colors"
+                      className="p-2 hover:bg-destructive/10 rounded-lg transition-colors disabled:opacity-50"
                       onClick={() => handleDeleteRecipient(recipient.id)}
+                      disabled={lockedIds.has(recipient.id)}
+                      title={lockedIds.has(recipient.id) ? "Named in a finalized will" : undefined}
                     >
                       <Trash2 className="w-4 h-4 text-destructive" />
                     </button>
@@ -265,7 +299,7 @@ const Recipients = () => {
             transition={{ delay: 0.2 }}
             className="flex items-center justify-between"
           >
-            <Link to="/assets">
+            <Link to={requestedWillId ? `/assets?will=${requestedWillId}` : "/assets"}>
               <Button variant="ghost" className="gap-2">
                 <ArrowLeft className="w-4 h-4" />
                 Back
@@ -276,7 +310,7 @@ const Recipients = () => {
                 <Shield className="w-4 h-4" />
                 Secure & Encrypted
               </p>
-              <Link to="/review">
+              <Link to={requestedWillId ? `/review?will=${requestedWillId}` : "/review"}>
                 <Button variant="gold" className="gap-2">
                   Review & Finalize
                   <ArrowRight className="w-4 h-4" />
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
 import {
@@ -18,11 +18,43 @@ import {
   ChevronUp,
   Video,
   MessageSquare,
+  RefreshCw,
+  History,
+  Star,
+  Pencil,
+  Download,
+  PenLine,
+  ShieldCheck,
 } from "lucide-react";
 import Header from "@/components/layout/Header";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import VersionHistory from "@/components/will/VersionHistory";
+import Amendments from "@/components/will/Amendments";
+import SigningCeremony from "@/components/will/SigningCeremony";
+import SealVerification from "@/components/will/SealVerification";
+import { downloadWillPdf } from "@/lib/willPdf";
+import {
+  DEFAULT_CURRENCY,
+  convertAmount,
+  formatMoney,
+  loadCurrencySettings,
+  type CurrencySettings,
+} from "@/lib/currency";
+import {
+  LIABILITY_CATEGORIES,
+  calculateNetEstate,
+  describeAllocation,
+  describeFallback,
+  describeOwnership,
+  isResiduary,
+  liabilitiesForAssets,
+  ownerShare,
+  pickResiduary,
+  type Liability,
+} from "@/lib/estate";
+import { loadWillSignatures, type WillPackage } from "@/lib/willPackage";
 import {
   Table,
   TableBody,
@@ -41,17 +73,36 @@ interface Will {
   audio_url: string | null;
   video_url: string | null;
   transcript: string | null;
+  is_primary: boolean;
   created_at: string;
   updated_at: string;
 }
 
+interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Transcription {
+  id: string;
+  status: "pending" | "processing" | "completed" | "failed";
+  segments: TranscriptSegment[];
+  transcript: string | null;
+  error: string | null;
+}
+
 interface Asset {
   id: string;
+  will_id: string | null;
   name: string;
   category: string;
   estimated_value: number | null;
+  currency: string;
   description: string | null;
-  documents_url: string | null;
+  ownership_percentage: number;
+  co_owners: string | null;
+  right_of_survivorship: boolean;
 }
 
 interface Recipient {
@@ -66,20 +117,46 @@ interface Allocation {
   id: string;
   asset_id: string;
   recipient_id: string;
-  allocation_percentage: number;
+  allocation_kind: string;
+  allocation_percentage: number | null;
+  fixed_amount: number | null;
+  lapse_rule: string;
+  contingents: { recipient_id: string; position: number }[];
 }
 
+const getMediaPath = (will: Will) =>
+  will.type === "video" ? will.video_url : will.type === "audio" ? will.audio_url : null;
+
 const ReviewWill = () => {
   const { user } = useAuth();
   const [agreed, setAgreed] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedWillId = searchParams.get("will");
 
+  const [wills, setWills] = useState<Will[]>([]);
   const [will, setWill] = useState<Will | null>(null);
+  const [titleDraft, setTitleDraft] = useState<string | null>(null);
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [residuary, setResiduary] = useState<Asset | null>(null);
   const [recipients, setRecipients] = useState<Recipient[]>([]);
   const [allocations, setAllocations] = useState<Allocation[]>([]);
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
+  // undefined until the profile has loaded
+  const [ownerName, setOwnerName] = useState<string | null | undefined>(undefined);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>({
+    reportingCurrency: DEFAULT_CURRENCY,
+    rates: [],
+  });
+  const [signingComplete, setSigningComplete] = useState(false);
+  const [transcription, setTranscription] = useState<Transcription | null>(null);
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
 
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     will: true,
@@ -88,25 +165,59 @@ const ReviewWill = () => {
   });
 
   useEffect(() => {
-    if (user) fetchData();
+    if (user) fetchData(requestedWillId);
+  }, [user, requestedWillId]);
+
+  // The owner's name is part of the signed and exported will
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data }) => setOwnerName(data?.full_name || null));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadCurrencySettings(user.id)
+      .then(setCurrencySettings)
+      .catch((error) => console.error("Error loading currency settings:", error));
   }, [user]);
 
-  const fetchData = async () => {
+  // Reviews the requested will, falling back to the primary (then most recent) one
+  const fetchData = async (selectedWillId: string | null) => {
     try {
-      const [willRes, assetsRes, recipientsRes, allocationsRes] = await Promise.all([
-        supabase.from("wills").select("*").order("updated_at", { ascending: false }).limit(1).maybeSingle(),
+      const [willsRes, assetsRes, recipientsRes, allocationsRes, liabilitiesRes] = await Promise.all([
+        supabase.from("wills").select("*").order("updated_at", { ascending: false }),
         supabase.from("assets").select("*").order("created_at", { ascending: false }),
         supabase.from("recipients").select("*").order("full_name"),
-        supabase.from("asset_allocations").select("*"),
+        supabase.from("asset_allocations").select("*, contingents:allocation_contingents(recipient_id, position)"),
+        supabase
+          .from("liabilities")
+          .select("id, name, category, amount, currency, lender, notes, secured_asset_id")
+          .order("created_at"),
       ]);
 
-      if (willRes.error) throw willRes.error;
+      if (willsRes.error) throw willsRes.error;
       if (assetsRes.error) throw assetsRes.error;
       if (recipientsRes.error) throw recipientsRes.error;
       if (allocationsRes.error) throw allocationsRes.error;
+      if (liabilitiesRes.error) throw liabilitiesRes.error;
 
-      setWill(willRes.data);
-      setAssets(assetsRes.data || []);
+      const allWills = willsRes.data || [];
+      const selected =
+        allWills.find((w) => w.id === selectedWillId) || allWills.find((w) => w.is_primary) || allWills[0] || null;
+
+      setWills(allWills);
+      setWill(selected);
+      setTitleDraft(null);
+      // Assets not yet tied to a will are shown too; finalizing claims them for this will
+      const willAssets = (assetsRes.data || []).filter((a) => !a.will_id || a.will_id === selected?.id);
+      setAssets(willAssets.filter((a) => !isResiduary(a)));
+      setResiduary(pickResiduary(willAssets, selected?.id ?? null));
+      setLiabilities(liabilitiesForAssets(liabilitiesRes.data || [], willAssets));
       setRecipients(recipientsRes.data || []);
       setAllocations(allocationsRes.data || []);
     } catch (error) {
@@ -117,6 +228,161 @@ const ReviewWill = () => {
     }
   };
 
+  const fetchTranscription = async (willId: string) => {
+    const { data, error } = await supabase
+      .from("will_transcriptions")
+      .select("id, status, segments, transcript, error")
+      .eq("will_id", willId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching transcription:", error);
+      return;
+    }
+
+    setTranscription(data ? { ...data, segments: (data.segments as unknown as TranscriptSegment[]) || [] } : null);
+    if (data?.status === "completed") {
+      setWill((prev) => (prev ? { ...prev, transcript: data.transcript } : prev));
+    }
+  };
+
+  const isFinalized = will?.status === "completed";
+
+  // What gets signed and exported; memoized so the signing hash is only refetched on real changes
+  const willPackage = useMemo<WillPackage | null>(
+    () =>
+      will && ownerName !== undefined
+        ? { owner: ownerName, will, assets: residuary ? [...assets, residuary] : assets, recipients, allocations }
+        : null,
+    [will, ownerName, assets, residuary, recipients, allocations],
+  );
+  const willId = will?.id;
+  const willMediaPath = will ? getMediaPath(will) : null;
+
+  // Load the recording and its latest transcription for audio and video wills
+  useEffect(() => {
+    if (!willId || !willMediaPath) return;
+
+    supabase.storage
+      .from("asset-documents")
+      .createSignedUrl(willMediaPath, 60 * 60)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading recording:", error);
+        } else {
+          setMediaUrl(data.signedUrl);
+        }
+      });
+
+    fetchTranscription(willId);
+  }, [willId, willMediaPath]);
+
+  // Poll while a transcription job is still running
+  const pollingWillId =
+    will && (transcription?.status === "pending" || transcription?.status === "processing") ? will.id : null;
+
+  useEffect(() => {
+    if (!pollingWillId) return;
+    const interval = setInterval(() => fetchTranscription(pollingWillId), 5000);
+    return () => clearInterval(interval);
+  }, [pollingWillId]);
+
+  const handleTranscribe = async () => {
+    if (!will) return;
+    const mediaPath = getMediaPath(will);
+    if (!mediaPath) return;
+
+    setIsTranscribing(true);
+    setTranscription((prev) => (prev ? { ...prev, status: "processing" } : { id: "", status: "processing", segments: [], transcript: null, error: null }));
+    try {
+      const { error } = await supabase.functions.invoke("transcribe-will", {
+        body: { willId: will.id, mediaPath },
+      });
+      if (error) throw error;
+      toast.success("Transcription complete");
+    } catch (error) {
+      console.error("Error transcribing will:", error);
+      toast.error("Failed to transcribe recording");
+    } finally {
+      await fetchTranscription(will.id);
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!willPackage) return;
+
+    setIsExporting(true);
+    try {
+      await downloadWillPdf({
+        ...willPackage,
+        signatures: await loadWillSignatures(willPackage.will.id),
+        valuation: currencySettings,
+      });
+    } catch (error) {
+      console.error("Error exporting will:", error);
+      toast.error("Failed to generate PDF");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectWill = (id: string) => {
+    setMediaUrl(null);
+    setTranscription(null);
+    setSearchParams({ will: id });
+  };
+
+  const handleSetPrimary = async () => {
+    if (!will) return;
+    try {
+      const { error } = await supabase.rpc("set_primary_will", { p_will_id: will.id });
+      if (error) throw error;
+
+      setWills((prev) => prev.map((w) => ({ ...w, is_primary: w.id === will.id })));
+      setWill({ ...will, is_primary: true });
+      toast.success(`"${will.title}" is now your primary will`);
+    } catch (error) {
+      console.error("Error setting primary will:", error);
+      toast.error("Failed to set primary will");
+    }
+  };
+
+  const handleRename = async () => {
+    if (!will || titleDraft === null) return;
+    const title = titleDraft.trim();
+    if (!title || title.length > 200) {
+      toast.error("Will title must be between 1 and 200 characters");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("wills").update({ title }).eq("id", will.id);
+      if (error) throw error;
+
+      setWills((prev) => prev.map((w) => (w.id === will.id ? { ...w, title } : w)));
+      setWill({ ...will, title });
+      setTitleDraft(null);
+    } catch (error) {
+      console.error("Error renaming will:", error);
+      toast.error("Failed to rename will");
+    }
+  };
+
+  const seekTo = (seconds: number) => {
+    if (!mediaRef.current) return;
+    mediaRef.current.currentTime = seconds;
+    mediaRef.current.play();
+  };
+
+  const formatTimestamp = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  };
+
   const toggleSection = (section: string) => {
     setExpandedSections((prev) => ({ ...prev, [section]: !prev[section] }));
   };
@@ -128,6 +394,8 @@ const ReviewWill = () => {
         return Video;
       case "chat":
         return MessageSquare;
+      case "text":
+        return FileText;
       default:
         return Mic;
     }
@@ -147,13 +415,20 @@ const ReviewWill = () => {
     }
   };
 
-  const formatCurrency = (value: number | null) => {
-    if (!value) return "—";
-    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
-  };
+  const { reportingCurrency, rates } = currencySettings;
+  const netEstate = calculateNetEstate(
+    residuary ? [...assets, residuary] : assets,
+    liabilities,
+    allocations,
+    reportingCurrency,
+    rates,
+  );
+  const formatSigned = (value: number) => `${value < 0 ? "−" : ""}${formatMoney(Math.abs(value), reportingCurrency)}`;
 
-  const getTotalValue = () => {
-    return assets.reduce((sum, a) => sum + (a.estimated_value || 0), 0);
+  const formatConverted = (asset: Asset) => {
+    if (!asset.estimated_value || asset.currency === reportingCurrency) return null;
+    const converted = convertAmount(ownerShare(asset), asset.currency, reportingCurrency, rates);
+    return converted === null ? "no rate" : `≈ ${formatMoney(converted, reportingCurrency)}`;
   };
 
   const getRecipientName = (recipientId: string) => {
@@ -164,6 +439,17 @@ const ReviewWill = () => {
     return allocations.filter((a) => a.asset_id === assetId);
   };
 
+  // Who each share passes to if its recipient dies before the owner
+  const renderFallbacks = (assetAllocations: Allocation[]) => (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {assetAllocations.map((a) => (
+        <li key={a.id}>
+          If {getRecipientName(a.recipient_id)} dies first: {describeFallback(a, getRecipientName)}
+        </li>
+      ))}
+    </ul>
+  );
+
   const sections = [
     {
       key: "will",
@@ -177,7 +463,9 @@ const ReviewWill = () => {
       icon: FolderOpen,
       title: "Assets",
       status: assets.length > 0 ? "complete" : "pending",
-      details: `${assets.length} asset${assets.length !== 1 ? "s" : ""} • ${formatCurrency(getTotalValue())} total`,
+      details: `${assets.length} asset${assets.length !== 1 ? "s" : ""} • ${formatMoney(netEstate.gross, reportingCurrency)} total${
+        liabilities.length > 0 ? ` • ${formatSigned(netEstate.net)} net of debts` : ""
+      }${netEstate.missing.length > 0 ? ` (excludes ${netEstate.missing.join(", ")})` : ""}`,
     },
     {
       key: "recipients",
@@ -193,17 +481,35 @@ const ReviewWill = () => {
       toast.error("Please create a will before finalizing");
       return;
     }
+    if (will.status === "draft") {
+      toast.error("Please save your will before finalizing it");
+      return;
+    }
+    if (!signingComplete) {
+      toast.error("You and every witness must sign the will before it can be finalized");
+      return;
+    }
 
     setIsSubmitting(true);
     try {
-      // Update will status
-      const { error } = await supabase
-        .from("wills")
-        .update({ status: "completed" })
-        .eq("id", will.id);
+      // The signing function checks every signature against the will as it is stored now,
+      // then completes it and ties any unassigned assets to it in one transaction
+      const { error } = await supabase.functions.invoke("will-signing", {
+        body: { action: "finalize", willId: will.id },
+      });
 
       if (error) throw error;
 
+      // Seal the finalized will so later tampering with its text, recording or documents shows up
+      const { error: sealError } = await supabase.functions.invoke("will-seal", {
+        body: { action: "seal", willId: will.id },
+      });
+
+      if (sealError) {
+        console.error("Error sealing will:", sealError);
+        toast.warning("Will finalized, but it could not be sealed yet. We'll try again when you next open it.");
+      }
+
       // Get user profile for owner name
       const { data: profile } = await supabase
         .from("profiles")
@@ -234,7 +540,7 @@ const ReviewWill = () => {
         }
       }
 
-      navigate("/confirmation");
+      navigate(`/confirmation?will=${will.id}`);
     } catch (error) {
       console.error("Error finalizing will:", error);
       toast.error("Failed to finalize will");
@@ -291,6 +597,50 @@ const ReviewWill = () => {
             <p className="text-muted-foreground">Please review all sections before finalizing your digital will.</p>
           </motion.div>
 
+          {/* Will Picker */}
+          {wills.length > 1 && will && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 }}
+              className="card-elevated mb-4"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-foreground">Which will are you finalizing?</h3>
+                {!will.is_primary && (
+                  <Button variant="outline" size="sm" className="gap-1" onClick={handleSetPrimary}>
+                    <Star className="w-3 h-3" />
+                    Make primary
+                  </Button>
+                )}
+              </div>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {wills.map((w) => (
+                  <button
+                    key={w.id}
+                    onClick={() => w.id !== will.id && selectWill(w.id)}
+                    className={`flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
+                      w.id === will.id ? "bg-gold/20 ring-1 ring-gold" : "bg-secondary/50 hover:bg-secondary"
+                    }`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{w.title}</p>
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {w.type} • {w.status.replace("_", " ")}
+                      </p>
+                    </div>
+                    {w.is_primary && (
+                      <span className="flex items-center gap-1 text-xs text-gold font-medium shrink-0">
+                        <Star className="w-3 h-3 fill-current" />
+                        Primary
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+
           {/* Summary Cards with Expandable Details */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -340,9 +690,36 @@ const ReviewWill = () => {
                   >
                     {section.key === "will" && will && (
                       <div className="space-y-2">
-                        <div className="flex justify-between text-sm">
+                        <div className="flex justify-between items-center gap-4 text-sm">
                           <span className="text-muted-foreground">Title:</span>
-                          <span className="text-foreground font-medium">{will.title}</span>
+                          {titleDraft !== null ? (
+                            <div className="flex items-center gap-2">
+                              <input
+                                value={titleDraft}
+                                onChange={(e) => setTitleDraft(e.target.value)}
+                                onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                                maxLength={200}
+                                className="input-elevated py-1 text-sm"
+                                autoFocus
+                              />
+                              <Button variant="gold" size="sm" onClick={handleRename}>
+                                Save
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setTitleDraft(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          ) : isFinalized ? (
+                            <span className="text-foreground font-medium">{will.title}</span>
+                          ) : (
+                            <button
+                              onClick={() => setTitleDraft(will.title)}
+                              className="inline-flex items-center gap-1 text-foreground font-medium hover:text-gold"
+                            >
+                              {will.title}
+                              <Pencil className="w-3 h-3" />
+                            </button>
+                          )}
                         </div>
                         <div className="flex justify-between text-sm">
                           <span className="text-muted-foreground">Type:</span>
@@ -352,7 +729,86 @@ const ReviewWill = () => {
                           <span className="text-muted-foreground">Status:</span>
                           <span className="text-foreground capitalize">{will.status}</span>
                         </div>
-                        {will.transcript && (
+                        <div className="flex justify-end gap-4">
+                          <button
+                            onClick={handleDownloadPdf}
+                            disabled={isExporting}
+                            className="inline-flex items-center gap-1 text-xs text-gold hover:underline disabled:opacity-50"
+                          >
+                            {isExporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+                            Download PDF
+                          </button>
+                          <button
+                            onClick={() => setShowHistory(true)}
+                            className="inline-flex items-center gap-1 text-xs text-gold hover:underline"
+                          >
+                            <History className="w-3 h-3" />
+                            Version history
+                          </button>
+                        </div>
+                        {mediaUrl && (
+                          <div className="mt-3 grid gap-4 md:grid-cols-2">
+                            <div>
+                              <p className="text-sm text-muted-foreground mb-1">Recording:</p>
+                              {will.type === "video" ? (
+                                <video
+                                  ref={(el) => (mediaRef.current = el)}
+                                  src={mediaUrl}
+                                  controls
+                                  playsInline
+                                  className="w-full rounded-lg bg-secondary"
+                                />
+                              ) : (
+                                <audio ref={(el) => (mediaRef.current = el)} src={mediaUrl} controls className="w-full" />
+                              )}
+                            </div>
+                            <div>
+                              <div className="flex items-center justify-between mb-1">
+                                <p className="text-sm text-muted-foreground">Transcript:</p>
+                                {!isFinalized && transcription?.status !== "processing" && transcription?.status !== "pending" && (
+                                  <button
+                                    onClick={handleTranscribe}
+                                    disabled={isTranscribing}
+                                    className="inline-flex items-center gap-1 text-xs text-gold hover:underline"
+                                  >
+                                    <RefreshCw className="w-3 h-3" />
+                                    {transcription ? "Re-transcribe" : "Transcribe"}
+                                  </button>
+                                )}
+                              </div>
+                              {transcription?.status === "pending" || transcription?.status === "processing" ? (
+                                <p className="text-sm text-muted-foreground flex items-center gap-2 bg-secondary/50 p-3 rounded-lg">
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                  Transcribing your recording...
+                                </p>
+                              ) : transcription?.status === "failed" ? (
+                                <p className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+                                  Transcription failed. Please try again.
+                                </p>
+                              ) : transcription?.segments.length ? (
+                                <div className="max-h-64 overflow-y-auto space-y-1 bg-secondary/50 p-3 rounded-lg">
+                                  {transcription.segments.map((segment, index) => (
+                                    <button
+                                      key={index}
+                                      onClick={() => seekTo(segment.start)}
+                                      className="w-full flex gap-3 text-left text-sm hover:bg-secondary rounded px-1"
+                                    >
+                                      <span className="font-mono text-xs text-gold pt-0.5 shrink-0">
+                                        {formatTimestamp(segment.start)}
+                                      </span>
+                                      <span className="text-foreground">{segment.text}</span>
+                                    </button>
+                                  ))}
+                                </div>
+                              ) : (
+                                <p className="text-sm text-muted-foreground bg-secondary/50 p-3 rounded-lg">
+                                  {will.transcript || "No transcript yet."}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                        {will.transcript && !mediaUrl && (
                           <div className="mt-3">
                             <p className="text-sm text-muted-foreground mb-1">Transcript preview:</p>
                             <p className="text-sm text-foreground bg-secondary/50 p-3 rounded-lg line-clamp-3">
@@ -362,12 +818,29 @@ const ReviewWill = () => {
                         )}
                         {will.content && (
                           <div className="mt-3">
-                            <p className="text-sm text-muted-foreground mb-1">Content preview:</p>
+                            <div className="flex items-center justify-between mb-1">
+                              <p className="text-sm text-muted-foreground">Content preview:</p>
+                              {will.type === "text" && !isFinalized && (
+                                <Link
+                                  to={`/create/text?will=${will.id}`}
+                                  className="inline-flex items-center gap-1 text-xs text-gold hover:underline"
+                                >
+                                  <Pencil className="w-3 h-3" />
+                                  Edit
+                                </Link>
+                              )}
+                            </div>
                             <p className="text-sm text-foreground bg-secondary/50 p-3 rounded-lg line-clamp-3">
                               {will.content}
                             </p>
                           </div>
                         )}
+                        {isFinalized && (
+                          <div className="mt-3">
+                            <p className="text-sm text-muted-foreground mb-1">Amendments:</p>
+                            <Amendments willId={will.id} />
+                          </div>
+                        )}
                       </div>
                     )}
                     {section.key === "will" && !will && (
@@ -399,16 +872,29 @@ const ReviewWill = () => {
                                 <TableRow key={asset.id}>
                                   <TableCell className="font-medium">{asset.name}</TableCell>
                                   <TableCell className="capitalize">{asset.category.replace("_", " ")}</TableCell>
-                                  <TableCell className="text-right">{formatCurrency(asset.estimated_value)}</TableCell>
+                                  <TableCell className="text-right">
+                                    {formatMoney(ownerShare(asset), asset.currency)}
+                                    {formatConverted(asset) && (
+                                      <p className="text-xs text-muted-foreground">{formatConverted(asset)}</p>
+                                    )}
+                                    {describeOwnership(asset) && (
+                                      <p className="text-xs text-muted-foreground">
+                                        Whole asset {formatMoney(asset.estimated_value, asset.currency)} · {describeOwnership(asset)}
+                                      </p>
+                                    )}
+                                  </TableCell>
                                   <TableCell>
                                     {assetAllocations.length > 0 ? (
-                                      <div className="flex flex-wrap gap-1">
-                                        {assetAllocations.map((a) => (
-                                          <span key={a.id} className="px-2 py-0.5 rounded-full bg-secondary text-xs">
-                                            {getRecipientName(a.recipient_id)}: {a.allocation_percentage}%
-                                          </span>
-                                        ))}
-                                      </div>
+                                      <>
+                                        <div className="flex flex-wrap gap-1">
+                                          {assetAllocations.map((a) => (
+                                            <span key={a.id} className="px-2 py-0.5 rounded-full bg-secondary text-xs">
+                                              {getRecipientName(a.recipient_id)}: {describeAllocation(a, asset.currency)}
+                                            </span>
+                                          ))}
+                                        </div>
+                                        {renderFallbacks(assetAllocations)}
+                                      </>
                                     ) : (
                                       <span className="text-muted-foreground text-sm">Not assigned</span>
                                     )}
@@ -416,8 +902,75 @@ const ReviewWill = () => {
                                 </TableRow>
                               );
                             })}
+                            <TableRow>
+                              <TableCell className="font-medium">Residuary estate</TableCell>
+                              <TableCell className="text-muted-foreground">Everything else</TableCell>
+                              <TableCell className="text-right">
+                                {netEstate.residue > 0 ? `≈ ${formatMoney(netEstate.residue, reportingCurrency)}` : "—"}
+                              </TableCell>
+                              <TableCell>
+                                {residuary && getAssetAllocations(residuary.id).length > 0 ? (
+                                  <>
+                                    <div className="flex flex-wrap gap-1">
+                                      {getAssetAllocations(residuary.id).map((a) => (
+                                        <span key={a.id} className="px-2 py-0.5 rounded-full bg-secondary text-xs">
+                                          {getRecipientName(a.recipient_id)}: {describeAllocation(a, residuary.currency)}
+                                        </span>
+                                      ))}
+                                    </div>
+                                    {renderFallbacks(getAssetAllocations(residuary.id))}
+                                  </>
+                                ) : (
+                                  <span className="text-muted-foreground text-sm">Not assigned</span>
+                                )}
+                              </TableCell>
+                            </TableRow>
                           </TableBody>
                         </Table>
+
+                        {/* Liabilities and net estate */}
+                        {liabilities.length > 0 && (
+                          <div className="mt-4 space-y-2">
+                            <p className="text-sm text-muted-foreground">Liabilities:</p>
+                            {liabilities.map((liability) => (
+                              <div key={liability.id} className="flex justify-between gap-4 text-sm p-2 rounded bg-secondary/50">
+                                <span>
+                                  {liability.name}
+                                  <span className="text-muted-foreground">
+                                    {" "}
+                                    · {LIABILITY_CATEGORIES.find((c) => c.value === liability.category)?.label || liability.category}
+                                    {liability.secured_asset_id &&
+                                      ` · secured against ${assets.find((a) => a.id === liability.secured_asset_id)?.name}`}
+                                  </span>
+                                </span>
+                                <span className="text-destructive">−{formatMoney(liability.amount, liability.currency)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        <dl className="mt-4 grid grid-cols-3 gap-4 text-sm">
+                          <div>
+                            <dt className="text-muted-foreground">Gross estate</dt>
+                            <dd className="font-semibold text-foreground">{formatMoney(netEstate.gross, reportingCurrency)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-muted-foreground">Liabilities</dt>
+                            <dd className="font-semibold text-destructive">
+                              {netEstate.liabilities ? `−${formatMoney(netEstate.liabilities, reportingCurrency)}` : "—"}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt className="text-muted-foreground">Net estate</dt>
+                            <dd className={`font-semibold ${netEstate.net < 0 ? "text-destructive" : "text-gold"}`}>
+                              {formatSigned(netEstate.net)}
+                            </dd>
+                          </div>
+                        </dl>
+                        {netEstate.missing.length > 0 && (
+                          <p className="text-xs text-destructive mt-2">
+                            Excludes {netEstate.missing.join(", ")} amounts (no rate to {reportingCurrency})
+                          </p>
+                        )}
                       </div>
                     )}
                     {section.key === "assets" && assets.length === 0 && (
@@ -440,12 +993,20 @@ const ReviewWill = () => {
                               <TableHead>Relationship</TableHead>
                               <TableHead>Email</TableHead>
                               <TableHead>Status</TableHead>
+                              <TableHead className="text-right">Projected Net</TableHead>
                             </TableRow>
                           </TableHeader>
                           <TableBody>
                             {recipients.map((recipient) => (
                               <TableRow key={recipient.id}>
-                                <TableCell className="font-medium">{recipient.full_name}</TableCell>
+                                <TableCell className="font-medium">
+                                  <Link
+                                    to={`/recipients/${recipient.id}${will ? `?will=${will.id}` : ""}`}
+                                    className="hover:text-gold transition-colors"
+                                  >
+                                    {recipient.full_name}
+                                  </Link>
+                                </TableCell>
                                 <TableCell className="capitalize">{recipient.relationship || "—"}</TableCell>
                                 <TableCell>{recipient.email || "—"}</TableCell>
                                 <TableCell>
@@ -458,10 +1019,19 @@ const ReviewWill = () => {
                                     <span className="text-muted-foreground text-sm">Pending</span>
                                   )}
                                 </TableCell>
+                                <TableCell className="text-right">
+                                  {formatMoney(netEstate.recipients[recipient.id] || 0, reportingCurrency)}
+                                </TableCell>
                               </TableRow>
                             ))}
                           </TableBody>
                         </Table>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Projected amounts are after debts: secured debts come out of the asset they are held against
+                          and other debts out of the residuary estate, reducing other gifts only if it runs short.
+                          {netEstate.unallocated > 0 &&
+                            ` ${formatMoney(netEstate.unallocated, reportingCurrency)} is not yet assigned to anyone.`}
+                        </p>
                       </div>
                     )}
                     {section.key === "recipients" && recipients.length === 0 && (
@@ -480,6 +1050,43 @@ const ReviewWill = () => {
             ))}
           </motion.div>
 
+          {/* Signing */}
+          {willPackage && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15 }}
+              className="card-elevated mb-8"
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <PenLine className="w-5 h-5 text-gold" />
+                <h3 className="font-semibold text-foreground">Signatures & Witnesses</h3>
+              </div>
+              <SigningCeremony
+                pkg={willPackage}
+                finalized={isFinalized}
+                onCompleteChange={setSigningComplete}
+                onStatusChange={() => fetchData(willPackage.will.id)}
+              />
+            </motion.div>
+          )}
+
+          {/* Seal */}
+          {will && isFinalized && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15 }}
+              className="card-elevated mb-8"
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <ShieldCheck className="w-5 h-5 text-gold" />
+                <h3 className="font-semibold text-foreground">Integrity Seal</h3>
+              </div>
+              <SealVerification willId={will.id} />
+            </motion.div>
+          )}
+
           {/* Security Notice */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -501,69 +1108,95 @@ const ReviewWill = () => {
             </div>
           </motion.div>
 
-          {/* Agreement */}
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.3 }}
-            className="mb-8"
-          >
-            <label className="flex items-start gap-3 cursor-pointer">
-              <div className="relative mt-1">
-                <input
-                  type="checkbox"
-                  checked={agreed}
-                  onChange={(e) => setAgreed(e.target.checked)}
-                  className="sr-only"
-                />
-                <div className={`w-5 h-5 rounded border-2 transition-all ${
-                  agreed
-                    ? "bg-gold border-gold"
-                    : "border-border"
-                }`}>
-                  {agreed && <Check className="w-4 h-4 text-primary absolute top-0.5 left-0.5" />}
-                </div>
-              </div>
-              <span className="text-sm text-muted-foreground">
-                I confirm that all the information provided is accurate and represents my true wishes.
-                I understand that this digital will can be updated at any time and that recipients will
-                only receive access under the conditions I have specified.
-              </span>
-            </label>
-          </motion.div>
-
-          {/* Actions */}
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.4 }}
-            className="flex flex-col items-center gap-4"
-          >
-            <Button
-              variant="hero"
-              size="xl"
-              onClick={handleSubmit}
-              disabled={!agreed || isSubmitting || !will}
-              className="gap-2 w-full sm:w-auto"
+          {isFinalized ? (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+              className="flex items-center justify-center gap-2 text-sm text-sage-dark font-medium"
             >
-              {isSubmitting ? (
-                <>
-                  <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-                  Securing Your Will...
-                </>
-              ) : (
-                <>
-                  <Shield className="w-5 h-5" />
-                  Finalize & Secure Will
-                </>
-              )}
-            </Button>
-            <p className="text-sm text-muted-foreground text-center">
-              You can make changes to your will at any time after submission
-            </p>
-          </motion.div>
+              <CheckCircle className="w-4 h-4" />
+              This will has been finalized. Record any changes as amendments above.
+            </motion.div>
+          ) : (
+            <>
+              {/* Agreement */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="mb-8"
+              >
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <div className="relative mt-1">
+                    <input
+                      type="checkbox"
+                      checked={agreed}
+                      onChange={(e) => setAgreed(e.target.checked)}
+                      className="sr-only"
+                    />
+                    <div className={`w-5 h-5 rounded border-2 transition-all ${
+                      agreed
+                        ? "bg-gold border-gold"
+                        : "border-border"
+                    }`}>
+                      {agreed && <Check className="w-4 h-4 text-primary absolute top-0.5 left-0.5" />}
+                    </div>
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    I confirm that all the information provided is accurate and represents my true wishes.
+                    I understand that once finalized this digital will can only be changed through amendments, and that
+                    recipients will only receive access under the conditions I have specified.
+                  </span>
+                </label>
+              </motion.div>
+
+              {/* Actions */}
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.4 }}
+                className="flex flex-col items-center gap-4"
+              >
+                <Button
+                  variant="hero"
+                  size="xl"
+                  onClick={handleSubmit}
+                  disabled={!agreed || !signingComplete || isSubmitting || !will}
+                  className="gap-2 w-full sm:w-auto"
+                >
+                  {isSubmitting ? (
+                    <>
+                      <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                      Securing Your Will...
+                    </>
+                  ) : (
+                    <>
+                      <Shield className="w-5 h-5" />
+                      Finalize & Secure Will
+                    </>
+                  )}
+                </Button>
+                <p className="text-sm text-muted-foreground text-center">
+                  {signingComplete
+                    ? "After finalizing, you can still add amendments to your will at any time"
+                    : "You can finalize once you and every witness have signed"}
+                </p>
+              </motion.div>
+            </>
+          )}
         </div>
       </main>
+
+      {will && (
+        <VersionHistory
+          willId={will.id}
+          canRestore={!isFinalized}
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => fetchData(will.id)}
+        />
+      )}
     </div>
   );
 };
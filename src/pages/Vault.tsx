@@ -0,0 +1,889 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Copy,
+  Eye,
+  EyeOff,
+  KeyRound,
+  Loader2,
+  Lock,
+  Pencil,
+  Plus,
+  ShieldCheck,
+  Trash2,
+  Unlock,
+  X,
+} from "lucide-react";
+import Header from "@/components/layout/Header";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { vaultItemSchema, vaultPassphraseSchema } from "@/lib/validations";
+import {
+  VAULT_ITEM_TYPES,
+  createRecipientKey,
+  createVaultKey,
+  decryptSecret,
+  encryptSecret,
+  generateKey,
+  unlockVaultKey,
+  unwrapKey,
+  wrapKey,
+  type VaultItemType,
+  type VaultSecret,
+} from "@/lib/vault";
+
+interface VaultRow {
+  user_id: string;
+  kdf_salt: string;
+  kdf_iterations: number;
+  wrapped_vault_key: string;
+  release_delay_days: number;
+  release_requested_at: string | null;
+  release_requested_by: string | null;
+}
+
+interface VaultItem {
+  id: string;
+  asset_id: string | null;
+  item_type: VaultItemType;
+  ciphertext: string;
+  wrapped_key: string;
+}
+
+interface RecipientKey {
+  id: string;
+  recipient_id: string;
+  wrapped_by_vault: string;
+  created_at: string;
+}
+
+interface Grant {
+  vault_item_id: string;
+  recipient_key_id: string;
+}
+
+interface Recipient {
+  id: string;
+  full_name: string;
+}
+
+interface DigitalAsset {
+  id: string;
+  name: string;
+}
+
+interface ItemDraft {
+  id: string | null;
+  item_type: VaultItemType;
+  asset_id: string;
+  title: string;
+  username: string;
+  secret: string;
+  notes: string;
+  recipientKeyIds: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEASE_DELAYS = [3, 7, 14, 30, 60, 90];
+
+const emptyDraft = (assetId = ""): ItemDraft => ({
+  id: null,
+  item_type: "login",
+  asset_id: assetId,
+  title: "",
+  username: "",
+  secret: "",
+  notes: "",
+  recipientKeyIds: [],
+});
+
+// Digital-asset vault. Secrets are encrypted here before they are saved; the server only
+// ever sees ciphertext and wrapped keys. Recipients open their items at /vault/access.
+const Vault = () => {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [loading, setLoading] = useState(true);
+  const [vault, setVault] = useState<VaultRow | null>(null);
+  const [items, setItems] = useState<VaultItem[]>([]);
+  const [recipientKeys, setRecipientKeys] = useState<RecipientKey[]>([]);
+  const [grants, setGrants] = useState<Grant[]>([]);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [digitalAssets, setDigitalAssets] = useState<DigitalAsset[]>([]);
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [secrets, setSecrets] = useState<Record<string, VaultSecret>>({});
+  const [revealed, setRevealed] = useState<Record<string, boolean>>({});
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [working, setWorking] = useState(false);
+  const [draft, setDraft] = useState<ItemDraft | null>(null);
+  const [issuedCode, setIssuedCode] = useState<{ name: string; code: string } | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const loadVault = async () => {
+      try {
+        const [vaultRes, itemsRes, keysRes, grantsRes, recipientsRes, assetsRes] = await Promise.all([
+          supabase.from("vaults").select("*").eq("user_id", user.id).maybeSingle(),
+          supabase.from("vault_items").select("id, asset_id, item_type, ciphertext, wrapped_key").order("created_at"),
+          supabase.from("vault_recipient_keys").select("id, recipient_id, wrapped_by_vault, created_at"),
+          supabase.from("vault_item_grants").select("vault_item_id, recipient_key_id"),
+          supabase.from("recipients").select("id, full_name").order("full_name"),
+          supabase.from("assets").select("id, name").eq("category", "digital_asset").order("name"),
+        ]);
+
+        if (vaultRes.error) throw vaultRes.error;
+        if (itemsRes.error) throw itemsRes.error;
+        if (keysRes.error) throw keysRes.error;
+        if (grantsRes.error) throw grantsRes.error;
+        if (cancelled) return;
+
+        setVault(vaultRes.data);
+        setItems((itemsRes.data || []) as VaultItem[]);
+        setRecipientKeys(keysRes.data || []);
+        setGrants(grantsRes.data || []);
+        setRecipients(recipientsRes.data || []);
+        setDigitalAssets(assetsRes.data || []);
+      } catch (error) {
+        console.error("Error loading vault:", error);
+        toast.error("Failed to load your vault");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadVault();
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const recipientName = (id: string | null) => recipients.find((r) => r.id === id)?.full_name || "A recipient";
+  const assetName = (id: string | null) => digitalAssets.find((a) => a.id === id)?.name;
+  const keyForRecipient = (recipientId: string) => recipientKeys.find((k) => k.recipient_id === recipientId);
+
+  const decryptItems = async (key: CryptoKey, rows: VaultItem[]) => {
+    const entries = await Promise.all(
+      rows.map(async (item) => [item.id, await decryptSecret(await unwrapKey(item.wrapped_key, key), item.ciphertext)] as const),
+    );
+    return Object.fromEntries(entries);
+  };
+
+  const handleSetup = async () => {
+    if (!user) return;
+    const result = vaultPassphraseSchema.safeParse(passphrase);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      toast.error("Passphrases do not match");
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const { vaultKey: key, row } = await createVaultKey(passphrase);
+      const { data, error } = await supabase
+        .from("vaults")
+        .insert({ user_id: user.id, ...row })
+        .select()
+        .single();
+      if (error) throw error;
+
+      setVault(data);
+      setVaultKey(key);
+      setPassphrase("");
+      setConfirmPassphrase("");
+      toast.success("Vault created");
+    } catch (error) {
+      console.error("Error creating vault:", error);
+      toast.error("Failed to create vault");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!vault) return;
+    setWorking(true);
+    try {
+      let key: CryptoKey;
+      try {
+        key = await unlockVaultKey(vault, passphrase);
+      } catch {
+        toast.error("Incorrect passphrase");
+        return;
+      }
+      setSecrets(await decryptItems(key, items));
+      setVaultKey(key);
+      setPassphrase("");
+    } catch (error) {
+      console.error("Error unlocking vault:", error);
+      toast.error("Failed to decrypt vault items");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleLock = () => {
+    setVaultKey(null);
+    setSecrets({});
+    setRevealed({});
+    setDraft(null);
+  };
+
+  const openEditor = (item?: VaultItem) => {
+    if (!item) {
+      const linkedAsset = searchParams.get("asset");
+      setDraft(emptyDraft(digitalAssets.some((a) => a.id === linkedAsset) ? linkedAsset! : ""));
+      return;
+    }
+    const secret = secrets[item.id];
+    setDraft({
+      id: item.id,
+      item_type: item.item_type,
+      asset_id: item.asset_id || "",
+      title: secret?.title || "",
+      username: secret?.username || "",
+      secret: secret?.secret || "",
+      notes: secret?.notes || "",
+      recipientKeyIds: grants.filter((g) => g.vault_item_id === item.id).map((g) => g.recipient_key_id),
+    });
+  };
+
+  const saveItem = async () => {
+    if (!user || !vaultKey || !draft) return;
+    const result = vaultItemSchema.safeParse(draft);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const secret: VaultSecret = {
+        title: result.data.title,
+        username: result.data.username || undefined,
+        secret: result.data.secret,
+        notes: result.data.notes || undefined,
+      };
+      const existing = items.find((i) => i.id === draft.id);
+      const itemKey = existing ? await unwrapKey(existing.wrapped_key, vaultKey) : await generateKey();
+      const ciphertext = await encryptSecret(itemKey, secret);
+      const fields = { item_type: draft.item_type, asset_id: draft.asset_id || null, ciphertext };
+
+      const { data: saved, error } = existing
+        ? await supabase
+            .from("vault_items")
+            .update(fields)
+            .eq("id", existing.id)
+            .select("id, asset_id, item_type, ciphertext, wrapped_key")
+            .single()
+        : await supabase
+            .from("vault_items")
+            .insert({ ...fields, user_id: user.id, wrapped_key: await wrapKey(itemKey, vaultKey) })
+            .select("id, asset_id, item_type, ciphertext, wrapped_key")
+            .single();
+      if (error) throw error;
+
+      // Re-wrap the item key for newly granted recipients; revoked grants are simply deleted
+      const current = grants.filter((g) => g.vault_item_id === saved.id).map((g) => g.recipient_key_id);
+      const removed = current.filter((id) => !draft.recipientKeyIds.includes(id));
+      const added = recipientKeys.filter((k) => draft.recipientKeyIds.includes(k.id) && !current.includes(k.id));
+
+      if (removed.length > 0) {
+        const { error: deleteError } = await supabase
+          .from("vault_item_grants")
+          .delete()
+          .eq("vault_item_id", saved.id)
+          .in("recipient_key_id", removed);
+        if (deleteError) throw deleteError;
+      }
+      if (added.length > 0) {
+        const rows = await Promise.all(
+          added.map(async (k) => ({
+            vault_item_id: saved.id,
+            recipient_key_id: k.id,
+            user_id: user.id,
+            wrapped_key: await wrapKey(itemKey, await unwrapKey(k.wrapped_by_vault, vaultKey)),
+          })),
+        );
+        const { error: grantError } = await supabase.from("vault_item_grants").insert(rows);
+        if (grantError) throw grantError;
+      }
+
+      setItems(existing ? items.map((i) => (i.id === saved.id ? (saved as VaultItem) : i)) : [...items, saved as VaultItem]);
+      setSecrets({ ...secrets, [saved.id]: secret });
+      setGrants([
+        ...grants.filter((g) => g.vault_item_id !== saved.id),
+        ...draft.recipientKeyIds.map((id) => ({ vault_item_id: saved.id, recipient_key_id: id })),
+      ]);
+      setDraft(null);
+      toast.success(existing ? "Vault item updated" : "Vault item added");
+    } catch (error) {
+      console.error("Error saving vault item:", error);
+      toast.error("Failed to save vault item");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const deleteItem = async (id: string) => {
+    try {
+      const { error } = await supabase.from("vault_items").delete().eq("id", id);
+      if (error) throw error;
+
+      setItems(items.filter((i) => i.id !== id));
+      setGrants(grants.filter((g) => g.vault_item_id !== id));
+      toast.success("Vault item deleted");
+    } catch (error) {
+      console.error("Error deleting vault item:", error);
+      toast.error("Failed to delete vault item");
+    }
+  };
+
+  // Issues a new access code. Replacing an existing code keeps the recipient's grants.
+  const issueAccessCode = async (recipient: Recipient) => {
+    if (!user || !vaultKey) return;
+    setWorking(true);
+    try {
+      const previous = keyForRecipient(recipient.id);
+      const grantedItems = previous ? grants.filter((g) => g.recipient_key_id === previous.id).map((g) => g.vault_item_id) : [];
+
+      if (previous) {
+        const { error } = await supabase.from("vault_recipient_keys").delete().eq("id", previous.id);
+        if (error) throw error;
+      }
+
+      const { code, recipientKey, row } = await createRecipientKey(vaultKey);
+      const { data: key, error } = await supabase
+        .from("vault_recipient_keys")
+        .insert({ ...row, user_id: user.id, recipient_id: recipient.id })
+        .select("id, recipient_id, wrapped_by_vault, created_at")
+        .single();
+      if (error) throw error;
+
+      if (grantedItems.length > 0) {
+        const rows = await Promise.all(
+          items
+            .filter((i) => grantedItems.includes(i.id))
+            .map(async (item) => ({
+              vault_item_id: item.id,
+              recipient_key_id: key.id,
+              user_id: user.id,
+              wrapped_key: await wrapKey(await unwrapKey(item.wrapped_key, vaultKey), recipientKey),
+            })),
+        );
+        const { error: grantError } = await supabase.from("vault_item_grants").insert(rows);
+        if (grantError) throw grantError;
+      }
+
+      setRecipientKeys([...recipientKeys.filter((k) => k.id !== previous?.id), key]);
+      setGrants([
+        ...grants.filter((g) => g.recipient_key_id !== previous?.id),
+        ...grantedItems.map((id) => ({ vault_item_id: id, recipient_key_id: key.id })),
+      ]);
+      setIssuedCode({ name: recipient.full_name, code });
+    } catch (error) {
+      console.error("Error issuing access code:", error);
+      toast.error("Failed to issue access code");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const revokeAccess = async (key: RecipientKey) => {
+    try {
+      const { error } = await supabase.from("vault_recipient_keys").delete().eq("id", key.id);
+      if (error) throw error;
+
+      setRecipientKeys(recipientKeys.filter((k) => k.id !== key.id));
+      setGrants(grants.filter((g) => g.recipient_key_id !== key.id));
+      toast.success("Access revoked");
+    } catch (error) {
+      console.error("Error revoking access:", error);
+      toast.error("Failed to revoke access");
+    }
+  };
+
+  const updateVault = async (updates: { release_delay_days?: number; release_requested_at?: null }, message: string) => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase.from("vaults").update(updates).eq("user_id", user.id).select().single();
+      if (error) throw error;
+
+      setVault(data);
+      toast.success(message);
+    } catch (error) {
+      console.error("Error updating vault:", error);
+      toast.error("Failed to update vault");
+    }
+  };
+
+  const copyCode = async () => {
+    if (!issuedCode) return;
+    await navigator.clipboard.writeText(issuedCode.code);
+    toast.success("Access code copied");
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="pt-24 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-gold" />
+        </div>
+      </div>
+    );
+  }
+
+  const releaseAt = vault?.release_requested_at
+    ? new Date(new Date(vault.release_requested_at).getTime() + vault.release_delay_days * DAY_MS)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="pt-24 pb-12 px-4">
+        <div className="container mx-auto max-w-4xl">
+          <Link to="/assets" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors mb-6">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Assets
+          </Link>
+
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex items-center justify-between mb-8"
+          >
+            <div>
+              <h1 className="heading-section text-foreground mb-2">Digital Vault</h1>
+              <p className="text-muted-foreground">
+                Logins, recovery codes and wallet details, encrypted on this device before they are saved.
+              </p>
+            </div>
+            {vaultKey && (
+              <Button variant="outline" className="gap-2" onClick={handleLock}>
+                <Lock className="w-4 h-4" />
+                Lock
+              </Button>
+            )}
+          </motion.div>
+
+          {/* Release request */}
+          {vault?.release_requested_at && releaseAt && (
+            <div className="card-elevated border-destructive/40 mb-6 flex items-start gap-4">
+              <AlertTriangle className="w-6 h-6 text-destructive flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-semibold text-foreground">
+                  {recipientName(vault.release_requested_by)} has requested access to your vault
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {releaseAt.getTime() <= Date.now()
+                    ? "The waiting period has passed and recipients can now open the items shared with them."
+                    : `Recipients can open the items shared with them from ${releaseAt.toLocaleString()} unless you cancel.`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => updateVault({ release_requested_at: null }, "Release request cancelled")}
+              >
+                Cancel Release
+              </Button>
+            </div>
+          )}
+
+          {!vault ? (
+            /* Setup */
+            <div className="card-elevated max-w-lg mx-auto">
+              <div className="flex items-center gap-3 mb-4">
+                <KeyRound className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">Create Your Vault</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                Choose a vault passphrase. It never leaves this device and cannot be recovered — if you forget it,
+                the items in your vault are lost.
+              </p>
+              <div className="space-y-3">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Vault passphrase (12+ characters)"
+                  className="input-elevated"
+                  autoComplete="new-password"
+                />
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Confirm passphrase"
+                  className="input-elevated"
+                  autoComplete="new-password"
+                />
+                <Button variant="gold" className="w-full" onClick={handleSetup} disabled={working}>
+                  {working ? <Loader2 className="w-4 h-4 animate-spin" /> : "Create Vault"}
+                </Button>
+              </div>
+            </div>
+          ) : !vaultKey ? (
+            /* Unlock */
+            <div className="card-elevated max-w-lg mx-auto">
+              <div className="flex items-center gap-3 mb-4">
+                <Lock className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">Unlock Your Vault</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                {items.length} encrypted {items.length === 1 ? "item" : "items"}. Enter your vault passphrase to view or
+                change them.
+              </p>
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleUnlock();
+                }}
+              >
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Vault passphrase"
+                  className="input-elevated"
+                  autoComplete="current-password"
+                />
+                <Button type="submit" variant="gold" className="w-full gap-2" disabled={working || !passphrase}>
+                  {working ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+                  Unlock
+                </Button>
+              </form>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Items */}
+              <div className="card-elevated">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="font-serif text-xl font-semibold text-foreground">Vault Items</h2>
+                  <Button variant="gold" size="sm" className="gap-2" onClick={() => openEditor()}>
+                    <Plus className="w-4 h-4" />
+                    Add Item
+                  </Button>
+                </div>
+
+                {items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No items yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {items.map((item) => {
+                      const secret = secrets[item.id];
+                      const sharedWith = grants
+                        .filter((g) => g.vault_item_id === item.id)
+                        .map((g) => recipientName(recipientKeys.find((k) => k.id === g.recipient_key_id)?.recipient_id || null));
+
+                      return (
+                        <div key={item.id} className="p-4 rounded-lg bg-secondary/50">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <p className="font-medium text-foreground">{secret?.title}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {VAULT_ITEM_TYPES.find((t) => t.value === item.item_type)?.label}
+                                {assetName(item.asset_id) && ` · ${assetName(item.asset_id)}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={() => setRevealed({ ...revealed, [item.id]: !revealed[item.id] })}
+                                className="p-2 hover:bg-secondary rounded-lg"
+                                title={revealed[item.id] ? "Hide" : "Show"}
+                              >
+                                {revealed[item.id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                              </button>
+                              <button onClick={() => openEditor(item)} className="p-2 hover:bg-secondary rounded-lg" title="Edit">
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => deleteItem(item.id)}
+                                className="p-2 hover:bg-destructive/10 text-destructive rounded-lg"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+
+                          {revealed[item.id] && secret && (
+                            <div className="mt-3 space-y-1 text-sm">
+                              {secret.username && (
+                                <p>
+                                  <span className="text-muted-foreground">Username: </span>
+                                  {secret.username}
+                                </p>
+                              )}
+                              <p className="font-mono whitespace-pre-wrap break-all bg-background p-2 rounded">{secret.secret}</p>
+                              {secret.notes && <p className="text-muted-foreground whitespace-pre-wrap">{secret.notes}</p>}
+                            </div>
+                          )}
+
+                          <p className="text-xs text-muted-foreground mt-2">
+                            {sharedWith.length > 0 ? `Released to ${sharedWith.join(", ")}` : "Not shared with anyone"}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Recipient access */}
+              <div className="card-elevated">
+                <h2 className="font-serif text-xl font-semibold text-foreground mb-1">Recipient Access</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Give each recipient an access code. They can request access at any time; you are emailed and the
+                  vault opens for them only if you don't cancel within the waiting period.
+                </p>
+
+                <div className="flex items-center gap-3 mb-4">
+                  <label className="text-sm text-foreground">Waiting period</label>
+                  <select
+                    value={vault.release_delay_days}
+                    onChange={(e) => updateVault({ release_delay_days: Number(e.target.value) }, "Waiting period updated")}
+                    className="input-elevated w-auto"
+                  >
+                    {RELEASE_DELAYS.map((days) => (
+                      <option key={days} value={days}>
+                        {days} days
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {recipients.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    <Link to="/recipients" className="text-gold hover:underline">Add recipients</Link> first.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {recipients.map((recipient) => {
+                      const key = keyForRecipient(recipient.id);
+                      return (
+                        <div key={recipient.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-secondary/50">
+                          <div>
+                            <p className="font-medium text-foreground">{recipient.full_name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {key ? `Code issued ${new Date(key.created_at).toLocaleDateString()}` : "No access code"}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => issueAccessCode(recipient)} disabled={working}>
+                              {key ? "New Code" : "Issue Code"}
+                            </Button>
+                            {key && (
+                              <Button variant="ghost" size="sm" className="text-destructive" onClick={() => revokeAccess(key)}>
+                                Revoke
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Item Editor */}
+      <AnimatePresence>
+        {draft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-foreground/20 backdrop-blur-sm"
+            onClick={() => setDraft(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="card-elevated w-full max-w-lg max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="font-serif text-xl font-semibold text-foreground">
+                  {draft.id ? "Edit Vault Item" : "Add Vault Item"}
+                </h2>
+                <button onClick={() => setDraft(null)} className="p-2 hover:bg-secondary rounded-lg">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">Type</label>
+                    <select
+                      value={draft.item_type}
+                      onChange={(e) => setDraft({ ...draft, item_type: e.target.value as VaultItemType })}
+                      className="input-elevated"
+                    >
+                      {VAULT_ITEM_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">Asset</label>
+                    <select
+                      value={draft.asset_id}
+                      onChange={(e) => setDraft({ ...draft, asset_id: e.target.value })}
+                      className="input-elevated"
+                    >
+                      <option value="">None</option>
+                      {digitalAssets.map((asset) => (
+                        <option key={asset.id} value={asset.id}>
+                          {asset.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Title</label>
+                  <input
+                    type="text"
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                    placeholder="e.g., Coinbase account"
+                    className="input-elevated"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Username (optional)</label>
+                  <input
+                    type="text"
+                    value={draft.username}
+                    onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+                    className="input-elevated"
+                    autoComplete="off"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Secret</label>
+                  <textarea
+                    value={draft.secret}
+                    onChange={(e) => setDraft({ ...draft, secret: e.target.value })}
+                    placeholder="Password, recovery codes, or where the seed phrase is kept"
+                    rows={3}
+                    className="input-elevated resize-none font-mono"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Notes (optional)</label>
+                  <textarea
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    rows={2}
+                    className="input-elevated resize-none"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Release to</label>
+                  {recipientKeys.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Issue an access code to a recipient to share this item.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {recipientKeys.map((key) => (
+                        <label key={key.id} className="flex items-center gap-2 text-sm text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={draft.recipientKeyIds.includes(key.id)}
+                            onChange={(e) =>
+                              setDraft({
+                                ...draft,
+                                recipientKeyIds: e.target.checked
+                                  ? [...draft.recipientKeyIds, key.id]
+                                  : draft.recipientKeyIds.filter((id) => id !== key.id),
+                              })
+                            }
+                          />
+                          {recipientName(key.recipient_id)}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <Button variant="ghost" className="flex-1" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button variant="gold" className="flex-1" onClick={saveItem} disabled={working}>
+                  {working ? <Loader2 className="w-4 h-4 animate-spin" /> : "Encrypt & Save"}
+                </Button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Issued Access Code */}
+      <AnimatePresence>
+        {issuedCode && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-foreground/20 backdrop-blur-sm"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="card-elevated w-full max-w-lg"
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <ShieldCheck className="w-5 h-5 text-gold" />
+                <h2 className="font-serif text-xl font-semibold text-foreground">Access Code for {issuedCode.name}</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                Write this down and give it to {issuedCode.name} somewhere safe, such as with your physical will. It is
+                shown only once and cannot be recovered. They will enter it at {window.location.origin}/vault/access.
+              </p>
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/50 mb-6">
+                <code className="flex-1 font-mono text-sm break-all text-foreground">{issuedCode.code}</code>
+                <button onClick={copyCode} className="p-2 hover:bg-secondary rounded-lg" title="Copy">
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              <Button variant="gold" className="w-full" onClick={() => setIssuedCode(null)}>
+                I've Saved the Code
+              </Button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Vault;
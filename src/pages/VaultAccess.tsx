@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { motion } from "framer-motion";
+import { Clock, Eye, EyeOff, KeyRound, Loader2, ShieldCheck } from "lucide-react";
+import Header from "@/components/layout/Header";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  VAULT_ITEM_TYPES,
+  accessCodeHash,
+  decryptSecret,
+  isAccessCode,
+  openRecipientKey,
+  unwrapKey,
+  type VaultSecret,
+} from "@/lib/vault";
+
+interface VaultStatus {
+  ownerName: string | null;
+  recipientName: string;
+  releaseDelayDays: number;
+  requestedAt: string | null;
+  releaseAt: string | null;
+  released: boolean;
+}
+
+interface OpenedItem {
+  id: string;
+  item_type: string;
+  asset_name: string | null;
+  secret: VaultSecret;
+}
+
+interface OpenResponse extends VaultStatus {
+  key: { kdf_salt: string; kdf_iterations: number; wrapped_by_code: string };
+  items: { id: string; item_type: string; ciphertext: string; asset_name: string | null; wrapped_key: string }[];
+}
+
+// Where a recipient opens the vault items shared with them. There is no login: only the
+// hash of the access code is sent to the vault-access function, and the items it returns
+// are decrypted here with a key derived from the code itself.
+const VaultAccess = () => {
+  // A code in the link fragment (/vault/access#CODE) is never sent to the server
+  const [code, setCode] = useState(() => decodeURIComponent(window.location.hash.slice(1)));
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [items, setItems] = useState<OpenedItem[] | null>(null);
+  const [revealed, setRevealed] = useState<Record<string, boolean>>({});
+  const [working, setWorking] = useState(false);
+
+  const callVault = async (action: "status" | "request" | "open") => {
+    const { data, error } = await supabase.functions.invoke("vault-access", {
+      body: { action, accessHash: await accessCodeHash(code) },
+    });
+    if (error) throw error;
+    return data;
+  };
+
+  const checkCode = async () => {
+    if (!isAccessCode(code)) {
+      toast.error("Enter the full access code you were given");
+      return;
+    }
+    setWorking(true);
+    try {
+      setStatus(await callVault("status"));
+    } catch (error) {
+      console.error("Error checking access code:", error);
+      toast.error("This access code is not valid");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const requestRelease = async () => {
+    setWorking(true);
+    try {
+      setStatus(await callVault("request"));
+      toast.success("Access requested");
+    } catch (error) {
+      console.error("Error requesting vault release:", error);
+      toast.error("Failed to request access");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openVault = async () => {
+    setWorking(true);
+    try {
+      const result = (await callVault("open")) as OpenResponse;
+      const recipientKey = await openRecipientKey(result.key, code);
+      const opened = await Promise.all(
+        result.items.map(async (item) => ({
+          id: item.id,
+          item_type: item.item_type,
+          asset_name: item.asset_name,
+          secret: await decryptSecret(await unwrapKey(item.wrapped_key, recipientKey), item.ciphertext),
+        })),
+      );
+      setStatus(result);
+      setItems(opened);
+    } catch (error) {
+      console.error("Error opening vault:", error);
+      toast.error("Failed to open the vault");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const owner = status?.ownerName || "The owner";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="pt-24 pb-12 px-4">
+        <div className="container mx-auto max-w-2xl">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center mb-8"
+          >
+            <div className="w-16 h-16 rounded-full bg-gradient-to-br from-gold to-gold-light flex items-center justify-center mx-auto mb-4 shadow-gold">
+              <KeyRound className="w-8 h-8 text-primary" />
+            </div>
+            <h1 className="heading-section text-foreground mb-2">Open a Digital Vault</h1>
+            <p className="text-muted-foreground">
+              {status
+                ? `${owner} shared items from their vault with you, ${status.recipientName}.`
+                : "Enter the access code you were given."}
+            </p>
+          </motion.div>
+
+          {!status ? (
+            <form
+              className="card-elevated space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                checkCode();
+              }}
+            >
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                className="input-elevated font-mono"
+                autoComplete="off"
+                spellCheck={false}
+              />
+              <Button type="submit" variant="gold" className="w-full" disabled={working || !code.trim()}>
+                {working ? <Loader2 className="w-4 h-4 animate-spin" /> : "Continue"}
+              </Button>
+            </form>
+          ) : items ? (
+            <div className="space-y-3">
+              {items.length === 0 && (
+                <div className="card-elevated text-center text-muted-foreground">No items have been shared with you.</div>
+              )}
+              {items.map((item) => (
+                <div key={item.id} className="card-elevated">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-foreground">{item.secret.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {VAULT_ITEM_TYPES.find((t) => t.value === item.item_type)?.label}
+                        {item.asset_name && ` · ${item.asset_name}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setRevealed({ ...revealed, [item.id]: !revealed[item.id] })}
+                      className="p-2 hover:bg-secondary rounded-lg"
+                      title={revealed[item.id] ? "Hide" : "Show"}
+                    >
+                      {revealed[item.id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  {revealed[item.id] && (
+                    <div className="mt-3 space-y-1 text-sm">
+                      {item.secret.username && (
+                        <p>
+                          <span className="text-muted-foreground">Username: </span>
+                          {item.secret.username}
+                        </p>
+                      )}
+                      <p className="font-mono whitespace-pre-wrap break-all bg-secondary/50 p-2 rounded">{item.secret.secret}</p>
+                      {item.secret.notes && <p className="text-muted-foreground whitespace-pre-wrap">{item.secret.notes}</p>}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : status.released ? (
+            <div className="card-elevated text-center">
+              <ShieldCheck className="w-10 h-10 text-sage-dark mx-auto mb-4" />
+              <p className="text-muted-foreground mb-6">The vault has been released to you.</p>
+              <Button variant="gold" onClick={openVault} disabled={working}>
+                {working ? <Loader2 className="w-4 h-4 animate-spin" /> : "Open Vault"}
+              </Button>
+            </div>
+          ) : status.releaseAt ? (
+            <div className="card-elevated text-center">
+              <Clock className="w-10 h-10 text-gold mx-auto mb-4" />
+              <p className="text-foreground font-medium mb-2">Access has been requested</p>
+              <p className="text-muted-foreground">
+                The vault opens on {new Date(status.releaseAt).toLocaleString()} unless the owner cancels the request.
+                Come back then with the same code.
+              </p>
+            </div>
+          ) : (
+            <div className="card-elevated text-center">
+              <p className="text-muted-foreground mb-6">
+                Requesting access notifies {owner === "The owner" ? "the owner" : owner}. If they don't cancel within{" "}
+                {status.releaseDelayDays} days, you will be able to open the items they shared with you.
+              </p>
+              <Button variant="gold" onClick={requestRelease} disabled={working}>
+                {working ? <Loader2 className="w-4 h-4 animate-spin" /> : "Request Access"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default VaultAccess;
@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { motion } from "framer-motion";
+import { AlertCircle, Check, CheckCircle, FileText, Loader2, PenLine, Shield } from "lucide-react";
+import Header from "@/components/layout/Header";
+import SignaturePad from "@/components/will/SignaturePad";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { formatMoney } from "@/lib/currency";
+import { describeAllocation, describeFallback, describeOwnership, ownerShare } from "@/lib/estate";
+import { isSignatureComplete, type SignatureInput } from "@/lib/signature";
+import { parseWillDocument } from "@/lib/willDocument";
+import type { WillPackage } from "@/lib/willPackage";
+
+interface WitnessView {
+  witness: { fullName: string; status: string; signedAt: string | null };
+  documentHash: string;
+  currentHash: string;
+  package: WillPackage;
+}
+
+// Read-only copy of a will for a witness invited by email. There is no login: the
+// token in the link identifies the invitation and the will-signing function checks it.
+const WitnessSign = () => {
+  const { token } = useParams<{ token: string }>();
+  const [view, setView] = useState<WitnessView | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Hash of the copy shown on this page, which is what the witness attests to
+  const [reviewedHash, setReviewedHash] = useState<string | null>(null);
+  const [fullName, setFullName] = useState("");
+  const [signature, setSignature] = useState<SignatureInput | null>(null);
+  const [attested, setAttested] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [signedAt, setSignedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadInvitation = async () => {
+      try {
+        const { data, error } = await supabase.functions.invoke("will-signing", {
+          body: { action: "view", token },
+        });
+        if (error) throw error;
+        if (cancelled) return;
+
+        const result = data as WitnessView;
+        setView(result);
+        // The hash of the copy shown here, so the witness signs exactly this copy
+        setReviewedHash(result.currentHash);
+        setFullName(result.witness.fullName);
+        setSignedAt(result.witness.signedAt);
+      } catch (error) {
+        console.error("Error loading signing invitation:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadInvitation();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleSign = async () => {
+    if (!view || !isSignatureComplete(signature) || !fullName.trim()) return;
+
+    setIsSigning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("will-signing", {
+        body: { action: "sign", token, fullName: fullName.trim(), documentHash: reviewedHash, signature },
+      });
+      if (error) throw error;
+
+      setSignedAt(data.signedAt);
+      toast.success("Thank you — your signature has been recorded");
+    } catch (error) {
+      console.error("Error signing will:", error);
+      toast.error("Failed to record your signature. The will may have changed; ask the owner for a new link.");
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="pt-24 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-gold" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="pt-24 pb-12 px-4">
+          <div className="container mx-auto max-w-xl card-elevated text-center">
+            <AlertCircle className="w-10 h-10 text-destructive mx-auto mb-4" />
+            <h1 className="font-serif text-2xl font-semibold text-foreground mb-2">Link Unavailable</h1>
+            <p className="text-muted-foreground">
+              This signing link is no longer valid. The owner may have cancelled the signing or sent a new link.
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const { owner, will, assets, recipients, allocations } = view.package;
+  const sections = will.type === "text" ? parseWillDocument(will.content) : [];
+  const recipientName = (id: string) => recipients.find((r) => r.id === id)?.full_name || "Unknown recipient";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="pt-24 pb-12 px-4">
+        <div className="container mx-auto max-w-3xl">
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center mb-8"
+          >
+            <div className="w-16 h-16 rounded-full bg-gradient-to-br from-gold to-gold-light flex items-center justify-center mx-auto mb-4 shadow-gold">
+              <PenLine className="w-8 h-8 text-primary" />
+            </div>
+            <h1 className="heading-section text-foreground mb-2">Witness a Will</h1>
+            <p className="text-muted-foreground">
+              {owner || "The owner"} has signed the will below and asked you, {view.witness.fullName}, to witness it.
+            </p>
+          </motion.div>
+
+          {/* Will */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="card-elevated mb-6 space-y-6"
+          >
+            <div className="flex items-center gap-3">
+              <FileText className="w-5 h-5 text-gold" />
+              <h2 className="font-serif text-xl font-semibold text-foreground">{will.title}</h2>
+            </div>
+
+            {sections.length > 0 ? (
+              <div className="space-y-4">
+                {sections.map((section, i) => (
+                  <div key={section.id}>
+                    <p className="font-semibold text-foreground mb-1">
+                      {i + 1}. {section.heading}
+                    </p>
+                    {section.clauses.map((clause, j) => (
+                      <p key={clause.id} className="text-sm text-foreground whitespace-pre-wrap">
+                        {i + 1}.{j + 1}. {clause.text.replace(/\*\*([^*]+)\*\*/g, "$1").replace(/\*([^*]+)\*/g, "$1")}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ) : will.content || will.transcript ? (
+              <p className="text-sm text-foreground whitespace-pre-wrap bg-secondary/50 p-3 rounded-lg max-h-96 overflow-y-auto">
+                {will.content || will.transcript}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">This will has no written content.</p>
+            )}
+
+            {assets.length > 0 && (
+              <div>
+                <p className="text-sm text-muted-foreground mb-2">Assets and who receives them</p>
+                <div className="space-y-2">
+                  {assets.map((asset) => (
+                    <div key={asset.id} className="p-3 rounded-lg bg-secondary/50 text-sm">
+                      <div className="flex justify-between gap-4">
+                        <span className="font-medium text-foreground">{asset.name}</span>
+                        <span className="text-muted-foreground">{formatMoney(ownerShare(asset), asset.currency)}</span>
+                      </div>
+                      {describeOwnership(asset) && (
+                        <p className="text-xs text-muted-foreground">Owned {describeOwnership(asset)}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {allocations
+                          .filter((a) => a.asset_id === asset.id)
+                          .map((a) => `${recipientName(a.recipient_id)} (${describeAllocation(a, asset.currency)})`)
+                          .join(", ") || "Not allocated"}
+                      </p>
+                      {allocations
+                        .filter((a) => a.asset_id === asset.id)
+                        .map((a) => (
+                          <p key={a.recipient_id} className="text-xs text-muted-foreground">
+                            If {recipientName(a.recipient_id)} dies first: {describeFallback(a, recipientName)}
+                          </p>
+                        ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </motion.div>
+
+          {/* Signature */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="card-elevated"
+          >
+            {signedAt ? (
+              <div className="text-center py-4">
+                <CheckCircle className="w-10 h-10 text-sage-dark mx-auto mb-3" />
+                <p className="font-semibold text-foreground">You signed as a witness</p>
+                <p className="text-sm text-muted-foreground">{new Date(signedAt).toLocaleString()}</p>
+              </div>
+            ) : reviewedHash !== view.documentHash ? (
+              <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-lg">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                This will has changed since {owner || "the owner"} signed it, so it can't be witnessed from this link.
+                Please ask them to sign again and send you a new link.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Your full name</label>
+                  <input
+                    type="text"
+                    value={fullName}
+                    onChange={(e) => setFullName(e.target.value)}
+                    maxLength={100}
+                    className="input-elevated"
+                  />
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium text-foreground mb-2">Your signature</p>
+                  <SignaturePad value={signature} onChange={setSignature} disabled={isSigning} />
+                </div>
+
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <div className="relative mt-1">
+                    <input
+                      type="checkbox"
+                      checked={attested}
+                      onChange={(e) => setAttested(e.target.checked)}
+                      className="sr-only"
+                    />
+                    <div className={`w-5 h-5 rounded border-2 transition-all ${attested ? "bg-gold border-gold" : "border-border"}`}>
+                      {attested && <Check className="w-4 h-4 text-primary absolute top-0.5 left-0.5" />}
+                    </div>
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    I confirm that {owner || "the owner"} signed this will as their own, and I am signing as a witness.
+                    I am not a beneficiary under this will.
+                  </span>
+                </label>
+
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Shield className="w-4 h-4" />
+                    Your IP address and browser are recorded with your signature
+                  </p>
+                  <Button
+                    variant="gold"
+                    className="gap-2"
+                    onClick={handleSign}
+                    disabled={!attested || !fullName.trim() || !isSignatureComplete(signature) || isSigning}
+                  >
+                    {isSigning ? <Loader2 className="w-4 h-4 animate-spin" /> : <PenLine className="w-4 h-4" />}
+                    Sign as Witness
+                  </Button>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default WitnessSign;
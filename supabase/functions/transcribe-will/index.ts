@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSpeechToTextProvider } from "./providers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface TranscribeRequest {
+  willId: string;
+  mediaPath?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "No authorization header" }, 401);
+    }
+
+    // Create Supabase client with user's auth so RLS applies to every query
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { willId, mediaPath }: TranscribeRequest = await req.json();
+    if (!willId) {
+      return jsonResponse({ error: "willId is required" }, 400);
+    }
+
+    const { data: will, error: willError } = await supabase
+      .from("wills")
+      .select("id, type, audio_url, video_url")
+      .eq("id", willId)
+      .maybeSingle();
+
+    if (willError) throw willError;
+    if (!will) {
+      return jsonResponse({ error: "Will not found" }, 404);
+    }
+
+    const path = mediaPath || (will.type === "video" ? will.video_url : will.audio_url);
+    if (!path) {
+      return jsonResponse({ error: "Will has no recording to transcribe" }, 400);
+    }
+    if (path !== will.audio_url && path !== will.video_url) {
+      return jsonResponse({ error: "Media does not belong to this will" }, 400);
+    }
+
+    const provider = getSpeechToTextProvider();
+
+    const { data: job, error: jobError } = await supabase
+      .from("will_transcriptions")
+      .insert({
+        will_id: will.id,
+        user_id: user.id,
+        media_path: path,
+        status: "processing",
+        provider: provider.name,
+        started_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (jobError) throw jobError;
+
+    console.log(`Transcribing ${path} for will ${will.id} with ${provider.name}`);
+
+    try {
+      const { data: media, error: downloadError } = await supabase.storage
+        .from("asset-documents")
+        .download(path);
+
+      if (downloadError) throw downloadError;
+
+      const result = await provider.transcribe(media, path.split("/").pop() || "recording.webm");
+
+      const { error: updateJobError } = await supabase
+        .from("will_transcriptions")
+        .update({
+          status: "completed",
+          transcript: result.text,
+          segments: result.segments,
+          language: result.language,
+          duration_seconds: result.duration,
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", job.id);
+
+      if (updateJobError) throw updateJobError;
+
+      const { error: updateWillError } = await supabase
+        .from("wills")
+        .update({ transcript: result.text })
+        .eq("id", will.id);
+
+      if (updateWillError) throw updateWillError;
+
+      return jsonResponse({
+        success: true,
+        jobId: job.id,
+        status: "completed",
+        transcript: result.text,
+        segments: result.segments,
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`Transcription job ${job.id} failed:`, error);
+
+      await supabase
+        .from("will_transcriptions")
+        .update({ status: "failed", error: errorMessage, completed_at: new Date().toISOString() })
+        .eq("id", job.id);
+
+      return jsonResponse({ error: "Transcription failed", jobId: job.id, status: "failed" }, 502);
+    }
+  } catch (error: unknown) {
+    console.error("Error in transcribe-will function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+};
+
+serve(handler);
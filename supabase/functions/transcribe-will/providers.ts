@@ -0,0 +1,112 @@
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  segments: TranscriptSegment[];
+  language: string | null;
+  duration: number | null;
+}
+
+export interface SpeechToTextProvider {
+  name: string;
+  transcribe(media: Blob, fileName: string): Promise<TranscriptionResult>;
+}
+
+// Whisper-compatible HTTP backend (OpenAI, Groq, a self-hosted faster-whisper server, ...)
+class OpenAICompatibleProvider implements SpeechToTextProvider {
+  name = "openai";
+
+  constructor(
+    private apiUrl: string,
+    private apiKey: string,
+    private model: string,
+  ) {}
+
+  async transcribe(media: Blob, fileName: string): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append("file", media, fileName);
+    form.append("model", this.model);
+    form.append("response_format", "verbose_json");
+    form.append("timestamp_granularities[]", "segment");
+
+    const response = await fetch(`${this.apiUrl.replace(/\/$/, "")}/audio/transcriptions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Speech-to-text backend error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    const segments: TranscriptSegment[] = (data.segments || []).map(
+      (s: { start: number; end: number; text: string }) => ({
+        start: Number(s.start) || 0,
+        end: Number(s.end) || 0,
+        text: String(s.text || "").trim(),
+      }),
+    );
+
+    return {
+      text: String(data.text || segments.map((s) => s.text).join(" ")).trim(),
+      segments,
+      language: data.language ?? null,
+      duration: typeof data.duration === "number" ? data.duration : null,
+    };
+  }
+}
+
+// Deterministic stand-in used for local development and automated tests.
+// Never calls out to the network; the text can be overridden with LOCAL_TRANSCRIPT_TEXT.
+class LocalProvider implements SpeechToTextProvider {
+  name = "local";
+
+  constructor(private text: string) {}
+
+  transcribe(_media: Blob, _fileName: string): Promise<TranscriptionResult> {
+    const sentences = this.text.match(/[^.!?]+[.!?]*/g)?.map((s) => s.trim()).filter(Boolean) || [];
+    const segments = sentences.map((text, index) => ({
+      start: index * 5,
+      end: (index + 1) * 5,
+      text,
+    }));
+
+    return Promise.resolve({
+      text: sentences.join(" "),
+      segments,
+      language: "en",
+      duration: segments.length * 5,
+    });
+  }
+}
+
+const DEFAULT_LOCAL_TRANSCRIPT =
+  "This is a local test transcript. My name is Test User. I leave my estate to my family.";
+
+export function getSpeechToTextProvider(): SpeechToTextProvider {
+  const provider = Deno.env.get("TRANSCRIPTION_PROVIDER") || "openai";
+
+  switch (provider) {
+    case "local":
+      return new LocalProvider(Deno.env.get("LOCAL_TRANSCRIPT_TEXT") || DEFAULT_LOCAL_TRANSCRIPT);
+    case "openai": {
+      const apiKey = Deno.env.get("TRANSCRIPTION_API_KEY");
+      if (!apiKey) {
+        throw new Error("TRANSCRIPTION_API_KEY is not configured");
+      }
+      return new OpenAICompatibleProvider(
+        Deno.env.get("TRANSCRIPTION_API_URL") || "https://api.openai.com/v1",
+        apiKey,
+        Deno.env.get("TRANSCRIPTION_MODEL") || "whisper-1",
+      );
+    }
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,233 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Recipient side of the digital-asset vault. Recipients have no account; they identify
+// themselves with the SHA-256 lookup hash of their access code (the code itself, which
+// derives their decryption key, never reaches the server):
+//   status  - who the vault belongs to and where the release stands
+//   request - start the release; the owner is emailed and can cancel during the waiting period
+//   open    - after release, return the recipient's wrapped key and their granted items
+// Only ciphertext and wrapped keys are returned; decryption happens in the browser.
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AccessRequest {
+  action: "status" | "request" | "open";
+  accessHash: string;
+}
+
+interface VaultRow {
+  user_id: string;
+  release_delay_days: number;
+  release_requested_at: string | null;
+  release_requested_by: string | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const releaseState = (vault: VaultRow) => {
+  if (!vault.release_requested_at) return { requestedAt: null, releaseAt: null, released: false };
+  const releaseAt = new Date(new Date(vault.release_requested_at).getTime() + vault.release_delay_days * DAY_MS);
+  return {
+    requestedAt: vault.release_requested_at,
+    releaseAt: releaseAt.toISOString(),
+    released: releaseAt.getTime() <= Date.now(),
+  };
+};
+
+const notifyOwner = async (
+  admin: SupabaseClient,
+  vault: VaultRow,
+  recipientName: string,
+  releaseAt: string,
+  siteUrl: string,
+) => {
+  try {
+    const { data, error } = await admin.auth.admin.getUserById(vault.user_id);
+    if (error || !data.user?.email) throw error || new Error("Owner has no email address");
+
+    const emailResponse = await resend.emails.send({
+      from: "LegacyVault <onboarding@resend.dev>",
+      to: [data.user.email],
+      subject: `${recipientName} has requested access to your vault`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 40px 20px; }
+            .header { text-align: center; margin-bottom: 30px; }
+            .logo { font-size: 28px; font-weight: bold; color: #1a1a2e; }
+            .gold { color: #c9a227; }
+            .card { background: #f8f9fa; border-radius: 12px; padding: 30px; margin: 20px 0; }
+            .button { display: inline-block; background: linear-gradient(135deg, #c9a227, #d4af37); color: #1a1a2e; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; }
+            .footer { text-align: center; margin-top: 40px; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">Legacy<span class="gold">Vault</span></div>
+            </div>
+
+            <p><strong>${escapeHtml(recipientName)}</strong> has used their access code to request the release of your digital-asset vault.</p>
+
+            <div class="card" style="text-align: center;">
+              <p style="margin-top: 0;">If you do nothing, they will be able to open the items you shared with them on <strong>${new Date(releaseAt).toUTCString()}</strong>.</p>
+              <a class="button" href="${siteUrl}/vault">Review or Cancel</a>
+            </div>
+
+            <p>If you did not expect this, cancel the request and consider revoking their access code.</p>
+
+            <div class="footer">
+              <p>This is an automated notification from LegacyVault.</p>
+              <p>© ${new Date().getFullYear()} LegacyVault. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    console.log(`Vault release notice sent for ${vault.user_id}:`, emailResponse);
+  } catch (error) {
+    console.error(`Failed to send vault release notice for ${vault.user_id}:`, error);
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, accessHash }: AccessRequest = await req.json();
+    if (typeof accessHash !== "string" || !/^[0-9a-f]{64}$/.test(accessHash)) {
+      return jsonResponse({ error: "A valid access code is required" }, 400);
+    }
+
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: key, error: keyError } = await admin
+      .from("vault_recipient_keys")
+      .select("id, user_id, kdf_salt, kdf_iterations, wrapped_by_code, recipient:recipients(id, full_name)")
+      .eq("access_code_hash", accessHash)
+      .maybeSingle();
+
+    if (keyError) throw keyError;
+    if (!key) {
+      return jsonResponse({ error: "This access code is not valid" }, 404);
+    }
+
+    const [{ data: vault, error: vaultError }, { data: profile }] = await Promise.all([
+      admin
+        .from("vaults")
+        .select("user_id, release_delay_days, release_requested_at, release_requested_by")
+        .eq("user_id", key.user_id)
+        .single(),
+      admin.from("profiles").select("full_name").eq("user_id", key.user_id).maybeSingle(),
+    ]);
+
+    if (vaultError) throw vaultError;
+
+    const recipient = key.recipient as unknown as { id: string; full_name: string };
+    const summary = {
+      ownerName: profile?.full_name || null,
+      recipientName: recipient.full_name,
+      releaseDelayDays: vault.release_delay_days,
+    };
+
+    if (action === "status") {
+      return jsonResponse({ ...summary, ...releaseState(vault) });
+    }
+
+    if (action === "request") {
+      if (vault.release_requested_at) {
+        return jsonResponse({ ...summary, ...releaseState(vault) });
+      }
+
+      // Only the first request starts the clock
+      const { data: updated, error: updateError } = await admin
+        .from("vaults")
+        .update({ release_requested_at: new Date().toISOString(), release_requested_by: recipient.id })
+        .eq("user_id", vault.user_id)
+        .is("release_requested_at", null)
+        .select("user_id, release_delay_days, release_requested_at, release_requested_by")
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      const current = (updated || vault) as VaultRow;
+      const state = releaseState(current);
+
+      if (updated && state.releaseAt) {
+        const siteUrl = Deno.env.get("SITE_URL") || req.headers.get("origin") || "";
+        await notifyOwner(admin, current, recipient.full_name, state.releaseAt, siteUrl);
+      }
+
+      console.log(`Vault release requested for ${vault.user_id} by recipient ${recipient.id}`);
+      return jsonResponse({ ...summary, ...state });
+    }
+
+    if (action === "open") {
+      const state = releaseState(vault);
+      if (!state.released) {
+        return jsonResponse({ error: "This vault has not been released yet", ...summary, ...state }, 403);
+      }
+
+      const { data: grants, error: grantsError } = await admin
+        .from("vault_item_grants")
+        .select("wrapped_key, item:vault_items(id, item_type, ciphertext, asset:assets(name))")
+        .eq("recipient_key_id", key.id);
+
+      if (grantsError) throw grantsError;
+
+      console.log(`Vault ${vault.user_id} opened by recipient ${recipient.id}`);
+      return jsonResponse({
+        ...summary,
+        ...state,
+        key: { kdf_salt: key.kdf_salt, kdf_iterations: key.kdf_iterations, wrapped_by_code: key.wrapped_by_code },
+        items: (grants || []).map((grant) => {
+          const item = grant.item as unknown as {
+            id: string;
+            item_type: string;
+            ciphertext: string;
+            asset: { name: string } | null;
+          };
+          return {
+            id: item.id,
+            item_type: item.item_type,
+            ciphertext: item.ciphertext,
+            asset_name: item.asset?.name || null,
+            wrapped_key: grant.wrapped_key,
+          };
+        }),
+      });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in vault-access function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+};
+
+serve(handler);
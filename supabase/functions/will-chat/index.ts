@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLLMProvider, type LLMProvider, type ProviderMessage } from "./providers.ts";
+import { estateContextPrompt, loadEstateContext } from "./context.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,7 +16,7 @@ const systemPrompt = `You are a compassionate and professional estate planning a
 4. Help users think through important decisions about their assets and beneficiaries
 5. Summarize information they provide and confirm understanding
 
-Start by introducing yourself and asking the user their full legal name. Then guide them through:
+Start by introducing yourself and asking the user their full legal name, unless it is already on file. Then guide them through:
 - Personal information (full name, date of birth, address)
 - Their wishes for their estate
 - Key assets they want to include
@@ -25,64 +28,342 @@ Keep responses concise but warm. After gathering sufficient information, offer t
 
 Important: Do NOT provide legal advice. Remind users that for legal validity, they should consult with an attorney in their jurisdiction.`;
 
+const extractionPrompt = `You are reviewing a will-planning conversation between a user and an estate planning assistant. Extract every asset, recipient (beneficiary) and allocation the USER clearly stated. Only include facts the user actually said - never invent values, emails or percentages. If the user did not give a value, leave it out. Allocation percentages for a single asset must add up to 100; if the user said an asset should be split equally, divide it evenly. Call the propose_estate_records function exactly once with your findings.`;
+
+const ASSET_CATEGORIES = ["property", "investment", "bank_account", "vehicle", "jewelry", "digital_asset", "insurance", "business", "other"];
+
+const extractionTool = {
+  type: "function",
+  function: {
+    name: "propose_estate_records",
+    description: "Propose assets, recipients and asset allocations mentioned by the user.",
+    parameters: {
+      type: "object",
+      properties: {
+        assets: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "Short name, e.g. 'Family home'" },
+              category: { type: "string", enum: ASSET_CATEGORIES },
+              description: { type: "string" },
+              estimated_value: { type: "number", description: "Value in the user's currency, if stated" },
+            },
+            required: ["name", "category"],
+          },
+        },
+        recipients: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              full_name: { type: "string" },
+              relationship: { type: "string", description: "e.g. Spouse, Child, Sibling, Friend, Charity" },
+              email: { type: "string" },
+              phone: { type: "string" },
+            },
+            required: ["full_name"],
+          },
+        },
+        asset_allocations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              asset_name: { type: "string", description: "Must match one of the asset names" },
+              recipient_name: { type: "string", description: "Must match one of the recipient full names" },
+              allocation_percentage: { type: "number" },
+              notes: { type: "string" },
+            },
+            required: ["asset_name", "recipient_name", "allocation_percentage"],
+          },
+        },
+      },
+      required: ["assets", "recipients", "asset_allocations"],
+    },
+  },
+};
+
+type ChatErrorCode =
+  | "unauthorized"
+  | "invalid_request"
+  | "rate_limited"
+  | "token_budget_exceeded"
+  | "upstream_rate_limited"
+  | "upstream_timeout"
+  | "service_unavailable"
+  | "upstream_error"
+  | "internal_error";
+
+const jsonError = (message: string, status: number, code: ChatErrorCode, extra: Record<string, unknown> = {}) => {
+  const headers: Record<string, string> = { ...corsHeaders, "Content-Type": "application/json" };
+  if (typeof extra.retryAfter === "number") headers["Retry-After"] = String(extra.retryAfter);
+  return new Response(JSON.stringify({ error: message, code, ...extra }), { status, headers });
+};
+
+const gatewayErrorResponse = async (response: Response) => {
+  if (response.status === 429) {
+    return jsonError("Rate limit exceeded. Please try again in a moment.", 429, "upstream_rate_limited");
+  }
+  if (response.status === 402) {
+    return jsonError("Service temporarily unavailable. Please try again later.", 402, "service_unavailable");
+  }
+  if (response.status === 504) {
+    return jsonError("The assistant took too long to respond. Please try again.", 504, "upstream_timeout");
+  }
+  const errorText = await response.text();
+  console.error("AI gateway error:", response.status, errorText);
+  return jsonError("Failed to get AI response", 500, "upstream_error");
+};
+
+const MAX_MESSAGES = 200;
+const MAX_CONVERSATION_CHARS = 100000;
+
+// Rough token estimate (~4 characters per token) used when the gateway does not report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+type ChatMessage = { role: "user" | "assistant"; content: string };
+type UsageRecorder = (promptTokens: number, completionTokens: number) => Promise<void>;
+
+const isValidMessages = (messages: unknown): messages is ChatMessage[] =>
+  Array.isArray(messages) &&
+  messages.length <= MAX_MESSAGES &&
+  messages.every(
+    (m) => m && (m.role === "user" || m.role === "assistant") && typeof m.content === "string",
+  );
+
+interface QuotaResult {
+  allowed: boolean;
+  event_id?: string;
+  reason?: "requests" | "tokens";
+  limit?: number;
+  retry_after?: number;
+}
+
+const consumeQuota = async (supabase: SupabaseClient, mode: string, promptTokens: number) => {
+  const { data, error } = await supabase.rpc("consume_chat_quota", {
+    p_mode: mode,
+    p_prompt_tokens: promptTokens,
+  });
+  if (error) throw error;
+  return data as QuotaResult;
+};
+
+const quotaErrorResponse = (quota: QuotaResult) => {
+  if (quota.reason === "tokens") {
+    return jsonError(
+      "You've reached today's assistant usage limit. Please try again later.",
+      429,
+      "token_budget_exceeded",
+      { limit: quota.limit, retryAfter: quota.retry_after },
+    );
+  }
+  return jsonError(
+    "You're sending messages too quickly. Please wait before trying again.",
+    429,
+    "rate_limited",
+    { limit: quota.limit, retryAfter: quota.retry_after },
+  );
+};
+
+// Passes the SSE stream through untouched while tallying usage for the quota
+const meterStream = (body: ReadableStream<Uint8Array>, promptTokens: number, recordUsage: UsageRecorder) => {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let completionChars = 0;
+  let reported: { prompt: number; completion: number } | null = null;
+
+  const inspectLine = (line: string) => {
+    if (!line.startsWith("data: ")) return;
+    const jsonStr = line.slice(6).trim();
+    if (jsonStr === "[DONE]") return;
+    try {
+      const parsed = JSON.parse(jsonStr);
+      completionChars += (parsed.choices?.[0]?.delta?.content || "").length;
+      if (parsed.usage) {
+        reported = { prompt: parsed.usage.prompt_tokens || 0, completion: parsed.usage.completion_tokens || 0 };
+      }
+    } catch {
+      /* partial or non-JSON line */
+    }
+  };
+
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        buffer += decoder.decode(chunk, { stream: true });
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+          inspectLine(buffer.slice(0, newlineIndex).replace(/\r$/, ""));
+          buffer = buffer.slice(newlineIndex + 1);
+        }
+      },
+      async flush() {
+        if (buffer) inspectLine(buffer.replace(/\r$/, ""));
+        const usage = reported ?? { prompt: promptTokens, completion: Math.ceil(completionChars / 4) };
+        await recordUsage(usage.prompt, usage.completion).catch((error) =>
+          console.error("Failed to record chat usage:", error),
+        );
+      },
+    }),
+  );
+};
+
+// Tool arguments are model output, so they may not be JSON or not an object at all
+const parseToolArguments = (text: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Extraction reads the whole conversation as one transcript under its own prompt
+const extractionMessages = (messages: ChatMessage[]): ProviderMessage[] => [
+  { role: "system", content: extractionPrompt },
+  {
+    role: "user",
+    content: messages.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`).join("\n\n"),
+  },
+];
+
+const extractRecords = async (
+  provider: LLMProvider,
+  prompt: ProviderMessage[],
+  promptTokens: number,
+  recordUsage: UsageRecorder,
+) => {
+  const response = await provider.complete({
+    messages: prompt,
+    tools: [extractionTool],
+    toolChoice: { type: "function", function: { name: "propose_estate_records" } },
+  });
+
+  if (!response.ok) {
+    return gatewayErrorResponse(response);
+  }
+
+  let data;
+  try {
+    data = await response.json();
+  } catch (error) {
+    // The provider aborts a body that stops arriving
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return jsonError("The assistant took too long to respond. Please try again.", 504, "upstream_timeout");
+    }
+    console.error("Extraction returned an unreadable response:", error);
+    return jsonError("Could not extract details from the conversation", 500, "upstream_error");
+  }
+  await recordUsage(data.usage?.prompt_tokens ?? promptTokens, data.usage?.completion_tokens ?? 0).catch(
+    (error) => console.error("Failed to record chat usage:", error),
+  );
+
+  const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
+  if (!toolCall?.function?.arguments) {
+    console.error("Extraction returned no tool call:", JSON.stringify(data));
+    return jsonError("Could not extract details from the conversation", 500, "upstream_error");
+  }
+
+  const proposal = parseToolArguments(toolCall.function.arguments);
+  if (!proposal) {
+    console.error("Extraction returned invalid tool arguments:", toolCall.function.arguments);
+    return jsonError("Could not extract details from the conversation", 500, "upstream_error");
+  }
+  return new Response(
+    JSON.stringify({
+      assets: Array.isArray(proposal.assets) ? proposal.assets : [],
+      recipients: Array.isArray(proposal.recipients) ? proposal.recipients : [],
+      asset_allocations: Array.isArray(proposal.asset_allocations) ? proposal.asset_allocations : [],
+    }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { messages } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonError("Please sign in to use the assistant.", 401, "unauthorized");
     }
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          ...messages,
-        ],
-        stream: true,
-      }),
+    // Create Supabase client with user's auth; the anon key alone is not a session
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Service temporarily unavailable. Please try again later." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "Failed to get AI response" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return jsonError("Your session has expired. Please sign in again.", 401, "unauthorized");
+    }
+
+    const { messages, mode } = await req.json();
+    if (!isValidMessages(messages)) {
+      return jsonError("Invalid conversation", 400, "invalid_request");
+    }
+
+    const conversationText = messages.map((m) => m.content).join("\n");
+    if (conversationText.length > MAX_CONVERSATION_CHARS) {
+      return jsonError("This conversation is too long to continue.", 400, "invalid_request");
+    }
+
+    const provider = getLLMProvider();
+
+    const requestMode = mode === "extract" ? "extract" : "chat";
+
+    const chatPrompt = [{ role: "system" as const, content: systemPrompt }];
+    if (requestMode === "chat") {
+      // A missing summary only costs the assistant some context, so never fail the turn over it
+      const estate = await loadEstateContext(supabase, user.id).catch((error) => {
+        console.error("Failed to load estate context:", error);
+        return null;
+      });
+      if (estate) chatPrompt.push({ role: "system", content: estateContextPrompt(estate) });
+    }
+
+    // Estimated from the prompt actually sent for this mode
+    const prompt = requestMode === "extract" ? extractionMessages(messages) : [...chatPrompt, ...messages];
+    const promptTokens = estimateTokens(prompt.map((m) => m.content).join("\n"));
+    const quota = await consumeQuota(supabase, requestMode, promptTokens);
+    if (!quota.allowed) {
+      console.log(`Chat quota exceeded for user ${user.id}: ${quota.reason}`);
+      return quotaErrorResponse(quota);
+    }
+
+    // Only the service role may record usage, so users can't rewrite their own counts
+    const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const recordUsage: UsageRecorder = async (prompt, completion) => {
+      const { error } = await admin.rpc("record_chat_usage", {
+        p_event_id: quota.event_id,
+        p_prompt_tokens: prompt,
+        p_completion_tokens: completion,
       });
+      if (error) throw error;
+    };
+
+    if (requestMode === "extract") {
+      return await extractRecords(provider, prompt, promptTokens, recordUsage);
     }
 
-    return new Response(response.body, {
+    const response = await provider.streamChat(prompt);
+
+    if (!response.ok) {
+      return await gatewayErrorResponse(response);
+    }
+
+    return new Response(meterStream(response.body!, promptTokens, recordUsage), {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
     console.error("Chat error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return jsonError(error instanceof Error ? error.message : "Unknown error", 500, "internal_error");
   }
 });
@@ -0,0 +1,234 @@
+export interface ProviderMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ProviderMessage[];
+  tools?: unknown[];
+  toolChoice?: unknown;
+}
+
+// Providers return OpenAI-shaped responses: an SSE body of chat.completion.chunk
+// events for streamChat, and a chat.completion JSON body for complete.
+export interface LLMProvider {
+  name: string;
+  streamChat(messages: ProviderMessage[]): Promise<Response>;
+  complete(request: CompletionRequest): Promise<Response>;
+}
+
+const timeoutResponse = () =>
+  new Response(JSON.stringify({ error: "Upstream request timed out" }), {
+    status: 504,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Any backend that speaks the OpenAI chat completions API (the Lovable gateway,
+// OpenAI, OpenRouter, a local Ollama or vLLM server, ...)
+class OpenAICompatibleProvider implements LLMProvider {
+  name = "openai";
+
+  constructor(
+    private apiUrl: string,
+    private apiKey: string | undefined,
+    private model: string,
+    private timeoutMs: number,
+  ) {}
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const controller = new AbortController();
+    // Bounds the wait for response headers and then each wait for the next chunk of the
+    // body, so a stalled upstream can't hold the request open; a stream that keeps
+    // sending may run longer
+    let timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    };
+
+    let response: Response;
+    try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+      response = await fetch(`${this.apiUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model: this.model, ...body }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      clearTimeout(timer);
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return timeoutResponse();
+      }
+      throw error;
+    }
+
+    if (!response.body) {
+      clearTimeout(timer);
+      return response;
+    }
+
+    // Aborting fails the read in progress, so the caller sees the stall as a body error
+    restartTimer();
+    const idleTimeout = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, stream) {
+        restartTimer();
+        stream.enqueue(chunk);
+      },
+      flush() {
+        clearTimeout(timer);
+      },
+    });
+
+    return new Response(response.body.pipeThrough(idleTimeout), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  streamChat(messages: ProviderMessage[]): Promise<Response> {
+    return this.post({
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  }
+
+  complete({ messages, tools, toolChoice }: CompletionRequest): Promise<Response> {
+    return this.post({
+      messages,
+      ...(tools ? { tools } : {}),
+      ...(toolChoice ? { tool_choice: toolChoice } : {}),
+    });
+  }
+}
+
+const DEFAULT_SCRIPT = [
+  "Hello, I'm your estate planning assistant. To get started, could you tell me your full legal name?",
+  "Thank you. Which assets would you like to include in your will?",
+  "Got it. Who would you like to receive those assets, and in what shares?",
+  "Thank you for sharing that. Is there anything else you'd like to add before I summarize?",
+];
+
+const DEFAULT_EXTRACTION = { assets: [], recipients: [], asset_allocations: [] };
+
+// Deterministic provider for local runs and automated tests. Replies are picked by
+// the number of user turns so far; nothing leaves the machine.
+class ScriptedProvider implements LLMProvider {
+  name = "scripted";
+
+  constructor(
+    private script: string[],
+    private extraction: unknown,
+  ) {}
+
+  private reply(messages: ProviderMessage[]) {
+    const userTurns = messages.filter((m) => m.role === "user").length;
+    return this.script[Math.min(userTurns, this.script.length - 1)];
+  }
+
+  private usage(messages: ProviderMessage[], completion: string) {
+    const promptChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+    return {
+      prompt_tokens: Math.ceil(promptChars / 4),
+      completion_tokens: Math.ceil(completion.length / 4),
+      total_tokens: Math.ceil(promptChars / 4) + Math.ceil(completion.length / 4),
+    };
+  }
+
+  streamChat(messages: ProviderMessage[]): Promise<Response> {
+    const text = this.reply(messages);
+    const words = text.split(/(?<= )/);
+    const encoder = new TextEncoder();
+    const event = (payload: unknown) => encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
+    const usage = this.usage(messages, text);
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const word of words) {
+          controller.enqueue(event({ object: "chat.completion.chunk", choices: [{ index: 0, delta: { content: word } }] }));
+        }
+        controller.enqueue(event({ object: "chat.completion.chunk", choices: [], usage }));
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      },
+    });
+
+    return Promise.resolve(new Response(body, { headers: { "Content-Type": "text/event-stream" } }));
+  }
+
+  complete({ messages, tools }: CompletionRequest): Promise<Response> {
+    const message = tools?.length
+      ? {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_scripted",
+              type: "function",
+              function: {
+                name: (tools[0] as { function: { name: string } }).function.name,
+                arguments: JSON.stringify(this.extraction),
+              },
+            },
+          ],
+        }
+      : { role: "assistant", content: this.reply(messages) };
+
+    const content = message.content ?? JSON.stringify(this.extraction);
+    return Promise.resolve(
+      new Response(
+        JSON.stringify({
+          object: "chat.completion",
+          choices: [{ index: 0, message, finish_reason: tools?.length ? "tool_calls" : "stop" }],
+          usage: this.usage(messages, content),
+        }),
+        { headers: { "Content-Type": "application/json" } },
+      ),
+    );
+  }
+}
+
+const parseJsonEnv = <T>(name: string, fallback: T): T => {
+  const raw = Deno.env.get(name);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
+};
+
+export function getLLMProvider(): LLMProvider {
+  const provider = Deno.env.get("LLM_PROVIDER") || "openai";
+
+  switch (provider) {
+    case "scripted": {
+      const script = parseJsonEnv<string[]>("LLM_SCRIPT", DEFAULT_SCRIPT);
+      if (!Array.isArray(script) || script.length === 0) {
+        throw new Error("LLM_SCRIPT must be a non-empty JSON array of strings");
+      }
+      return new ScriptedProvider(script, parseJsonEnv("LLM_SCRIPT_EXTRACTION", DEFAULT_EXTRACTION));
+    }
+    case "openai": {
+      const apiUrl = Deno.env.get("LLM_API_URL") || "https://ai.gateway.lovable.dev/v1";
+      const apiKey = Deno.env.get("LLM_API_KEY") || Deno.env.get("LOVABLE_API_KEY");
+      // Local OpenAI-compatible servers usually need no key; hosted gateways do
+      if (!apiKey && !Deno.env.get("LLM_API_URL")) {
+        throw new Error("LLM_API_KEY (or LOVABLE_API_KEY) is not configured");
+      }
+      return new OpenAICompatibleProvider(
+        apiUrl,
+        apiKey,
+        Deno.env.get("LLM_MODEL") || "google/gemini-3-flash-preview",
+        Number(Deno.env.get("LLM_TIMEOUT_MS")) || 60000,
+      );
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,316 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Tamper-evident seals for finalized wills:
+//   seal   - hash the will text, transcript, recording and asset documents, and append a
+//            seal to the will's hash chain
+//   verify - check the chain is unbroken, re-hash everything listed in the first seal and
+//            report anything added since, so re-sealing after a change doesn't hide it
+// Reads run as the owner so RLS (and storage policies) scope them. Owners can't write
+// seals themselves; they are inserted here with the service role.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const STORAGE_BUCKET = "asset-documents";
+
+interface SealRequest {
+  action: "seal" | "verify";
+  willId: string;
+}
+
+type ItemKind = "content" | "transcript" | "recording" | "asset_document";
+
+interface ManifestItem {
+  kind: ItemKind;
+  label: string;
+  path?: string;
+  assetId?: string;
+  sha256: string;
+  size: number;
+}
+
+interface Manifest {
+  version: 1;
+  willId: string;
+  title: string;
+  sealedAt: string;
+  items: ManifestItem[];
+}
+
+interface SealRow {
+  id: string;
+  sequence_number: number;
+  manifest: string;
+  previous_hash: string | null;
+  seal_hash: string;
+  created_at: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const toHex = (digest: ArrayBuffer) =>
+  Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+
+const hashBytes = async (bytes: Uint8Array) => toHex(await crypto.subtle.digest("SHA-256", bytes));
+
+// Must match the check in the chain_will_seal trigger
+const sealHash = (previousHash: string | null, manifest: string) =>
+  hashBytes(new TextEncoder().encode(`${previousHash ?? ""}\n${manifest}`));
+
+const hashText = async (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  return { sha256: await hashBytes(bytes), size: bytes.length };
+};
+
+// Returns null when the object is gone or unreadable
+const hashObject = async (supabase: SupabaseClient, path: string) => {
+  const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(path);
+  if (error || !data) return null;
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  return { sha256: await hashBytes(bytes), size: bytes.length };
+};
+
+// Same asset scope as the will package: this will's assets plus unassigned ones
+const loadDocuments = async (supabase: SupabaseClient, willId: string) => {
+  const { data: documents, error } = await supabase
+    .from("asset_documents")
+    .select("id, name, storage_path, asset:assets!inner(id, name, will_id)")
+    .or(`will_id.is.null,will_id.eq.${willId}`, { referencedTable: "assets" })
+    .order("uploaded_at");
+
+  if (error) throw error;
+  return (documents || []).map((document) => ({
+    document,
+    asset: document.asset as unknown as { id: string; name: string },
+  }));
+};
+
+const collectItems = async (supabase: SupabaseClient, will: Record<string, string | null>) => {
+  const items: ManifestItem[] = [];
+
+  if (will.content) {
+    items.push({ kind: "content", label: "Will text", ...(await hashText(will.content)) });
+  }
+  if (will.transcript) {
+    items.push({ kind: "transcript", label: "Transcript", ...(await hashText(will.transcript)) });
+  }
+
+  const recording = will.type === "video" ? will.video_url : will.type === "audio" ? will.audio_url : null;
+  if (recording) {
+    const hashed = await hashObject(supabase, recording);
+    if (!hashed) throw new Error(`Recording could not be read: ${recording}`);
+    items.push({ kind: "recording", label: will.type === "video" ? "Video recording" : "Audio recording", path: recording, ...hashed });
+  }
+
+  for (const { document, asset } of await loadDocuments(supabase, will.id!)) {
+    const hashed = await hashObject(supabase, document.storage_path);
+    if (!hashed) throw new Error(`Document ${document.name} for ${asset.name} could not be read`);
+    items.push({
+      kind: "asset_document",
+      label: `${asset.name}: ${document.name}`,
+      path: document.storage_path,
+      assetId: asset.id,
+      ...hashed,
+    });
+  }
+
+  return items;
+};
+
+const loadWill = (supabase: SupabaseClient, willId: string) =>
+  supabase
+    .from("wills")
+    .select("id, title, type, status, content, transcript, audio_url, video_url")
+    .eq("id", willId)
+    .maybeSingle();
+
+const loadSeals = (supabase: SupabaseClient, willId: string) =>
+  supabase
+    .from("will_seals")
+    .select("id, sequence_number, manifest, previous_hash, seal_hash, created_at")
+    .eq("will_id", willId)
+    .order("sequence_number");
+
+const handleSeal = async (supabase: SupabaseClient, admin: SupabaseClient, userId: string, willId: string) => {
+  const { data: will, error: willError } = await loadWill(supabase, willId);
+  if (willError) throw willError;
+  if (!will) {
+    return jsonResponse({ error: "Will not found" }, 404);
+  }
+  if (will.status !== "completed") {
+    return jsonResponse({ error: "Only a finalized will can be sealed" }, 409);
+  }
+
+  const { data: seals, error: sealsError } = await loadSeals(supabase, willId);
+  if (sealsError) throw sealsError;
+
+  const manifest: Manifest = {
+    version: 1,
+    willId,
+    title: will.title,
+    sealedAt: new Date().toISOString(),
+    items: await collectItems(supabase, will),
+  };
+  const manifestText = JSON.stringify(manifest);
+  const previousHash = seals?.length ? seals[seals.length - 1].seal_hash : null;
+  const hash = await sealHash(previousHash, manifestText);
+
+  // The will was loaded through RLS above, so it is the caller's own
+  const { data: seal, error: insertError } = await admin
+    .from("will_seals")
+    .insert({
+      will_id: willId,
+      user_id: userId,
+      manifest: manifestText,
+      previous_hash: previousHash,
+      seal_hash: hash,
+    })
+    .select("id, sequence_number, seal_hash, created_at")
+    .single();
+
+  if (insertError) throw insertError;
+
+  console.log(`Sealed will ${willId} (#${seal.sequence_number}, ${manifest.items.length} items)`);
+  return jsonResponse({ success: true, seal, items: manifest.items });
+};
+
+const handleVerify = async (supabase: SupabaseClient, willId: string) => {
+  const { data: will, error: willError } = await loadWill(supabase, willId);
+  if (willError) throw willError;
+  if (!will) {
+    return jsonResponse({ error: "Will not found" }, 404);
+  }
+
+  const { data: seals, error: sealsError } = await loadSeals(supabase, willId);
+  if (sealsError) throw sealsError;
+  if (!seals?.length) {
+    return jsonResponse({ sealed: false, chainValid: false, seals: [], items: [] });
+  }
+
+  // Chain: every seal links to the one before it and its hash still matches its manifest
+  let chainValid = true;
+  let previous: string | null = null;
+  for (const seal of seals as SealRow[]) {
+    if (seal.previous_hash !== previous || (await sealHash(seal.previous_hash, seal.manifest)) !== seal.seal_hash) {
+      chainValid = false;
+    }
+    previous = seal.seal_hash;
+  }
+
+  // Items: re-hash what the first seal recorded against what is stored now. Later seals
+  // only extend the chain; comparing against them would accept whatever was re-sealed.
+  const manifest = JSON.parse((seals[0] as SealRow).manifest) as Manifest;
+  const items = [];
+  for (const item of manifest.items) {
+    const current =
+      item.kind === "content"
+        ? will.content !== null && (await hashText(will.content))
+        : item.kind === "transcript"
+          ? will.transcript !== null && (await hashText(will.transcript))
+          : await hashObject(supabase, item.path!);
+
+    items.push({
+      ...item,
+      currentSha256: current ? current.sha256 : null,
+      status: !current ? "missing" : current.sha256 === item.sha256 ? "ok" : "mismatch",
+    });
+  }
+
+  // Text and documents that were added after sealing are changes too
+  for (const kind of ["content", "transcript"] as const) {
+    if (will[kind] && !manifest.items.some((item) => item.kind === kind)) {
+      const current = await hashText(will[kind]);
+      items.push({
+        kind,
+        label: kind === "content" ? "Will text" : "Transcript",
+        sha256: null,
+        size: current.size,
+        currentSha256: current.sha256,
+        status: "added",
+      });
+    }
+  }
+  for (const { document, asset } of await loadDocuments(supabase, willId)) {
+    if (manifest.items.some((item) => item.kind === "asset_document" && item.path === document.storage_path)) continue;
+    const current = await hashObject(supabase, document.storage_path);
+    items.push({
+      kind: "asset_document",
+      label: `${asset.name}: ${document.name}`,
+      path: document.storage_path,
+      assetId: asset.id,
+      sha256: null,
+      size: current?.size ?? 0,
+      currentSha256: current ? current.sha256 : null,
+      status: "added",
+    });
+  }
+
+  const intact = chainValid && items.every((item) => item.status === "ok");
+  console.log(`Verified will ${willId}: ${intact ? "intact" : "changed"}`);
+
+  return jsonResponse({
+    sealed: true,
+    intact,
+    chainValid,
+    verifiedAt: new Date().toISOString(),
+    seals: (seals as SealRow[]).map(({ id, sequence_number, seal_hash, created_at }) => ({
+      id,
+      sequence_number,
+      seal_hash,
+      created_at,
+    })),
+    items,
+  });
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "No authorization header" }, 401);
+    }
+
+    // Create Supabase client with user's auth so RLS applies to every query
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { action, willId }: SealRequest = await req.json();
+    if (!willId) {
+      return jsonResponse({ error: "willId is required" }, 400);
+    }
+
+    if (action === "seal") {
+      const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+      return await handleSeal(supabase, admin, user.id, willId);
+    }
+    if (action === "verify") return await handleVerify(supabase, willId);
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in will-seal function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+};
+
+serve(handler);
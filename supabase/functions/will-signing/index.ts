@@ -0,0 +1,627 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Signing ceremony for a will:
+//   invite   - the owner signs and invites witnesses (authenticated)
+//   cancel   - the owner withdraws outstanding invitations (authenticated)
+//   view     - a witness opens their link and gets a read-only copy of the will (token)
+//   sign     - a witness signs (token)
+//   finalize - the owner completes the will once everyone has signed (authenticated)
+// Witnesses have no account, so token actions use the service role and are scoped to
+// the single will the token was issued for. Document hashes are always recomputed here
+// from the will as stored; a hash sent by a client is only compared against that.
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_WITNESSES = 5;
+const DEFAULT_CURRENCY = "USD";
+const MAX_SIGNATURE_LENGTH = 100000;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface SignatureInput {
+  type: "typed" | "drawn";
+  data: string;
+}
+
+interface InviteRequest {
+  action: "invite";
+  willId: string;
+  documentHash: string;
+  signature: SignatureInput;
+  witnesses: { fullName: string; email: string }[];
+}
+
+interface CancelRequest {
+  action: "cancel";
+  willId: string;
+}
+
+interface ViewRequest {
+  action: "view";
+  token: string;
+}
+
+interface SignRequest {
+  action: "sign";
+  token: string;
+  fullName: string;
+  documentHash: string;
+  signature: SignatureInput;
+}
+
+interface FinalizeRequest {
+  action: "finalize";
+  willId: string;
+}
+
+interface HashRequest {
+  action: "hash";
+  willId: string;
+}
+
+type SigningRequest = InviteRequest | CancelRequest | ViewRequest | SignRequest | FinalizeRequest | HashRequest;
+
+interface PackageAllocation {
+  asset_id: string;
+  recipient_id: string;
+  allocation_kind: string | null;
+  allocation_percentage: number | null;
+  fixed_amount: number | null;
+  lapse_rule: string | null;
+  contingents: { recipient_id: string; position: number }[] | null;
+}
+
+// The parts of a will its signers attest to, loaded the same way as loadWillPackage in the app
+interface SigningPackage {
+  owner: string | null;
+  will: { id: string; title: string; type: string; status: string; content: string | null; transcript: string | null; updated_at: string };
+  assets: {
+    id: string;
+    name: string;
+    category: string;
+    estimated_value: number | null;
+    currency: string | null;
+    description: string | null;
+    ownership_percentage: number | null;
+    co_owners: string | null;
+    right_of_survivorship: boolean | null;
+  }[];
+  recipients: { id: string; full_name: string; email: null; relationship: string | null }[];
+  allocations: PackageAllocation[];
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const isValidSignature = (signature: SignatureInput | undefined): signature is SignatureInput =>
+  !!signature &&
+  (signature.type === "typed" || signature.type === "drawn") &&
+  typeof signature.data === "string" &&
+  signature.data.trim().length > 0 &&
+  signature.data.length <= MAX_SIGNATURE_LENGTH;
+
+const isValidName = (name: unknown): name is string =>
+  typeof name === "string" && name.trim().length > 0 && name.trim().length <= 100;
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const loadPackage = async (admin: SupabaseClient, userId: string, willId: string): Promise<SigningPackage> => {
+  const [willRes, assetsRes, recipientsRes, profileRes] = await Promise.all([
+    admin
+      .from("wills")
+      .select("id, title, type, status, content, transcript, updated_at")
+      .eq("id", willId)
+      .single(),
+    admin
+      .from("assets")
+      .select(
+        "id, will_id, name, category, estimated_value, currency, description, ownership_percentage, co_owners, right_of_survivorship",
+      )
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false }),
+    admin
+      .from("recipients")
+      .select("id, full_name, relationship")
+      .eq("user_id", userId)
+      .order("full_name"),
+    admin.from("profiles").select("full_name").eq("user_id", userId).maybeSingle(),
+  ]);
+
+  if (willRes.error) throw willRes.error;
+  if (assetsRes.error) throw assetsRes.error;
+  if (recipientsRes.error) throw recipientsRes.error;
+
+  const will = willRes.data;
+  // Finalizing ties the unassigned assets to the will, so afterwards only its own count
+  const willAssets = (assetsRes.data || []).filter(
+    (a) => a.will_id === will.id || (!a.will_id && will.status !== "completed"),
+  );
+  // Same choice as the owner's review page: the will's own residuary estate, else the unassigned one
+  const residuary =
+    willAssets.find((a) => a.category === "residuary" && a.will_id === will.id) ||
+    willAssets.find((a) => a.category === "residuary");
+  const assets = willAssets.filter((a) => a.category !== "residuary" || a === residuary);
+
+  const { data: allocations, error: allocationsError } = await admin
+    .from("asset_allocations")
+    .select(
+      "asset_id, recipient_id, allocation_kind, allocation_percentage, fixed_amount, lapse_rule, contingents:allocation_contingents(recipient_id, position)",
+    )
+    .in("asset_id", assets.map((a) => a.id));
+  if (allocationsError) throw allocationsError;
+
+  return {
+    owner: profileRes.data?.full_name || null,
+    will,
+    assets: assets.map(({ will_id: _willId, ...asset }) => asset),
+    recipients: (recipientsRes.data || []).map((r) => ({ ...r, email: null })),
+    allocations: allocations || [],
+  };
+};
+
+const byId = <T extends { id: string }>(a: T, b: T) => a.id.localeCompare(b.id);
+
+// SHA-256 over a canonical JSON form of the package, so the same will content always
+// produces the same hash regardless of load order. This is the only place the hash is
+// computed; the app asks for it through the "hash" and "view" actions. Lifecycle fields
+// (status) and contact details are left out, and only recipients the will gives something
+// to (or names as a contingent) are included.
+const hashPackage = (pkg: SigningPackage) => {
+  const assetIds = new Set(pkg.assets.map((a) => a.id));
+  const allocations = pkg.allocations.filter((a) => assetIds.has(a.asset_id));
+  const named = new Set(allocations.flatMap((a) => [a.recipient_id, ...(a.contingents || []).map((c) => c.recipient_id)]));
+  const numberOrNull = (value: number | null) => (value === null || value === undefined ? null : Number(value));
+
+  const canonical = {
+    version: 1,
+    owner: pkg.owner,
+    will: {
+      id: pkg.will.id,
+      title: pkg.will.title,
+      type: pkg.will.type,
+      content: pkg.will.content,
+      transcript: pkg.will.transcript,
+    },
+    assets: [...pkg.assets].sort(byId).map((a) => [
+      a.id,
+      a.name,
+      a.category,
+      numberOrNull(a.estimated_value),
+      a.currency || DEFAULT_CURRENCY,
+      a.description,
+      Number(a.ownership_percentage ?? 100),
+      a.co_owners || null,
+      !!a.right_of_survivorship,
+    ]),
+    recipients: pkg.recipients
+      .filter((r) => named.has(r.id))
+      .sort(byId)
+      .map((r) => [r.id, r.full_name, r.relationship]),
+    allocations: allocations
+      .map((a) => [
+        a.asset_id,
+        a.recipient_id,
+        a.allocation_kind || "percentage",
+        numberOrNull(a.allocation_percentage),
+        numberOrNull(a.fixed_amount),
+        a.lapse_rule || "redistribute",
+        [...(a.contingents || [])].sort((x, y) => x.position - y.position).map((c) => c.recipient_id),
+      ])
+      .sort((a, b) => `${a[0]}:${a[1]}`.localeCompare(`${b[0]}:${b[1]}`)),
+  };
+
+  return sha256(JSON.stringify(canonical));
+};
+
+const STALE_WILL = "The will has changed since it was signed. Review it again and sign the current version.";
+
+const newToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const requestMetadata = (req: Request) => ({
+  ip_address:
+    req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    req.headers.get("cf-connecting-ip") ||
+    req.headers.get("x-real-ip") ||
+    null,
+  user_agent: req.headers.get("user-agent")?.slice(0, 500) || null,
+});
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const adminClient = () =>
+  createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+const sendInvitation = async (
+  witness: { full_name: string; email: string },
+  link: string,
+  ownerName: string,
+  willTitle: string,
+) => {
+  try {
+    const emailResponse = await resend.emails.send({
+      from: "LegacyVault <onboarding@resend.dev>",
+      to: [witness.email],
+      subject: `${ownerName} has asked you to witness their will`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 40px 20px; }
+            .header { text-align: center; margin-bottom: 30px; }
+            .logo { font-size: 28px; font-weight: bold; color: #1a1a2e; }
+            .gold { color: #c9a227; }
+            .card { background: #f8f9fa; border-radius: 12px; padding: 30px; margin: 20px 0; }
+            .button { display: inline-block; background: linear-gradient(135deg, #c9a227, #d4af37); color: #1a1a2e; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; }
+            .footer { text-align: center; margin-top: 40px; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">Legacy<span class="gold">Vault</span></div>
+            </div>
+
+            <h1>Dear ${escapeHtml(witness.full_name)},</h1>
+
+            <p><strong>${escapeHtml(ownerName)}</strong> has signed their will "<strong>${escapeHtml(willTitle)}</strong>" and has asked you to act as a witness.</p>
+
+            <div class="card" style="text-align: center;">
+              <p style="margin-top: 0;">Review the will and add your signature using your personal link:</p>
+              <a class="button" href="${link}">Review &amp; Sign</a>
+            </div>
+
+            <p>This link is unique to you. Please do not forward it.</p>
+
+            <div class="footer">
+              <p>This is an automated notification from LegacyVault.</p>
+              <p>© ${new Date().getFullYear()} LegacyVault. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    console.log(`Witness invitation sent to ${witness.email}:`, emailResponse);
+    return true;
+  } catch (error) {
+    console.error(`Failed to send witness invitation to ${witness.email}:`, error);
+    return false;
+  }
+};
+
+const handleInvite = async (req: Request, supabase: SupabaseClient, userId: string, body: InviteRequest) => {
+  const { willId, documentHash, signature, witnesses } = body;
+  if (!willId || typeof documentHash !== "string" || !/^[0-9a-f]{64}$/.test(documentHash)) {
+    return jsonResponse({ error: "willId and documentHash are required" }, 400);
+  }
+  if (!isValidSignature(signature)) {
+    return jsonResponse({ error: "A signature is required" }, 400);
+  }
+  if (!Array.isArray(witnesses) || witnesses.length === 0 || witnesses.length > MAX_WITNESSES) {
+    return jsonResponse({ error: `Invite between 1 and ${MAX_WITNESSES} witnesses` }, 400);
+  }
+  if (witnesses.some((w) => !isValidName(w.fullName) || typeof w.email !== "string" || !EMAIL.test(w.email.trim()))) {
+    return jsonResponse({ error: "Every witness needs a name and a valid email address" }, 400);
+  }
+
+  // Ownership is checked through RLS before anything is written with the service role
+  const { data: will, error: willError } = await supabase
+    .from("wills")
+    .select("id, title, status")
+    .eq("id", willId)
+    .maybeSingle();
+
+  if (willError) throw willError;
+  if (!will) {
+    return jsonResponse({ error: "Will not found" }, 404);
+  }
+  if (will.status === "completed") {
+    return jsonResponse({ error: "This will has already been finalized" }, 409);
+  }
+
+  const admin = adminClient();
+
+  const pkg = await loadPackage(admin, userId, willId);
+  if ((await hashPackage(pkg)) !== documentHash) {
+    return jsonResponse({ error: STALE_WILL }, 409);
+  }
+  const ownerName = pkg.owner || "A LegacyVault user";
+
+  // Starting again withdraws earlier invitations; their signatures stay on record but
+  // attest an older version, so they no longer count towards finalizing
+  const { error: revokeError } = await admin
+    .from("will_witnesses")
+    .update({ status: "revoked" })
+    .eq("will_id", willId)
+    .neq("status", "revoked");
+  if (revokeError) throw revokeError;
+
+  const { error: signatureError } = await admin.from("will_signatures").insert({
+    will_id: willId,
+    user_id: userId,
+    role: "testator",
+    signer_name: ownerName,
+    signature_type: signature.type,
+    signature_data: signature.data,
+    document_hash: documentHash,
+    ...requestMetadata(req),
+  });
+  if (signatureError) throw signatureError;
+
+  const invitations = await Promise.all(
+    witnesses.map(async (w) => {
+      const token = newToken();
+      return {
+        token,
+        row: {
+          will_id: willId,
+          user_id: userId,
+          full_name: w.fullName.trim(),
+          email: w.email.trim().toLowerCase(),
+          token_hash: await sha256(token),
+          document_hash: documentHash,
+        },
+      };
+    }),
+  );
+
+  const { error: witnessError } = await admin.from("will_witnesses").insert(invitations.map((i) => i.row));
+  if (witnessError) throw witnessError;
+
+  if (will.status !== "review") {
+    const { error: statusError } = await supabase.from("wills").update({ status: "review" }).eq("id", willId);
+    if (statusError) throw statusError;
+  }
+
+  const siteUrl = Deno.env.get("SITE_URL") || req.headers.get("origin") || "";
+  const results = await Promise.all(
+    invitations.map((i) => sendInvitation(i.row, `${siteUrl}/witness/${i.token}`, ownerName, will.title)),
+  );
+  const sent = results.filter(Boolean).length;
+
+  console.log(`Signing started for will ${willId}: ${sent} of ${results.length} invitations sent`);
+  return jsonResponse({ success: true, sent, total: results.length });
+};
+
+const handleCancel = async (supabase: SupabaseClient, body: CancelRequest) => {
+  const { data: will, error: willError } = await supabase
+    .from("wills")
+    .select("id, status")
+    .eq("id", body.willId)
+    .maybeSingle();
+
+  if (willError) throw willError;
+  if (!will) {
+    return jsonResponse({ error: "Will not found" }, 404);
+  }
+  if (will.status === "completed") {
+    return jsonResponse({ error: "This will has already been finalized" }, 409);
+  }
+
+  const { error: revokeError } = await adminClient()
+    .from("will_witnesses")
+    .update({ status: "revoked" })
+    .eq("will_id", will.id)
+    .neq("status", "revoked");
+  if (revokeError) throw revokeError;
+
+  if (will.status === "review") {
+    const { error: statusError } = await supabase.from("wills").update({ status: "in_progress" }).eq("id", will.id);
+    if (statusError) throw statusError;
+  }
+
+  return jsonResponse({ success: true });
+};
+
+// Resolves a witness token to its invitation; revoked invitations and finished
+// ceremonies no longer open
+const findWitness = async (admin: SupabaseClient, token: string) => {
+  if (typeof token !== "string" || token.length < 20 || token.length > 100) return null;
+
+  const { data, error } = await admin
+    .from("will_witnesses")
+    .select("id, will_id, user_id, full_name, status, document_hash, viewed_at, signed_at")
+    .eq("token_hash", await sha256(token))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && data.status !== "revoked" ? data : null;
+};
+
+const handleView = async (admin: SupabaseClient, body: ViewRequest) => {
+  const witness = await findWitness(admin, body.token);
+  if (!witness) {
+    return jsonResponse({ error: "This signing link is no longer valid" }, 404);
+  }
+
+  const pkg = await loadPackage(admin, witness.user_id, witness.will_id);
+
+  if (!witness.viewed_at) {
+    await admin.from("will_witnesses").update({ viewed_at: new Date().toISOString() }).eq("id", witness.id);
+  }
+
+  return jsonResponse({
+    witness: { fullName: witness.full_name, status: witness.status, signedAt: witness.signed_at },
+    documentHash: witness.document_hash,
+    currentHash: await hashPackage(pkg),
+    package: pkg,
+  });
+};
+
+const handleSign = async (req: Request, admin: SupabaseClient, body: SignRequest) => {
+  const witness = await findWitness(admin, body.token);
+  if (!witness) {
+    return jsonResponse({ error: "This signing link is no longer valid" }, 404);
+  }
+  if (witness.status === "signed") {
+    return jsonResponse({ error: "You have already signed this will" }, 409);
+  }
+  if (!isValidName(body.fullName) || !isValidSignature(body.signature)) {
+    return jsonResponse({ error: "Your name and signature are required" }, 400);
+  }
+  // The witness sends the hash of the copy they reviewed; both it and the will as it is
+  // stored now must still be what the owner signed
+  const currentHash = await hashPackage(await loadPackage(admin, witness.user_id, witness.will_id));
+  if (body.documentHash !== witness.document_hash || currentHash !== witness.document_hash) {
+    return jsonResponse({ error: "The will has changed since you were invited. Ask the owner to send a new link." }, 409);
+  }
+
+  const signedAt = new Date().toISOString();
+  const { error: signatureError } = await admin.from("will_signatures").insert({
+    will_id: witness.will_id,
+    user_id: witness.user_id,
+    witness_id: witness.id,
+    role: "witness",
+    signer_name: body.fullName.trim(),
+    signature_type: body.signature.type,
+    signature_data: body.signature.data,
+    document_hash: witness.document_hash,
+    signed_at: signedAt,
+    ...requestMetadata(req),
+  });
+  if (signatureError) throw signatureError;
+
+  const { error: witnessError } = await admin
+    .from("will_witnesses")
+    .update({ status: "signed", signed_at: signedAt })
+    .eq("id", witness.id)
+    .eq("status", "pending");
+  if (witnessError) throw witnessError;
+
+  console.log(`Witness ${witness.id} signed will ${witness.will_id}`);
+  return jsonResponse({ success: true, signedAt });
+};
+
+// Completes the will once the owner and every witness have signed the will as it is now.
+// The database only accepts this from the service role, and checks the signatures again.
+// Sealing is left to the caller, once this has succeeded.
+const handleHash = async (supabase: SupabaseClient, userId: string, body: HashRequest) => {
+  const { data: will, error: willError } = await supabase
+    .from("wills")
+    .select("id")
+    .eq("id", body.willId)
+    .maybeSingle();
+
+  if (willError) throw willError;
+  if (!will) {
+    return jsonResponse({ error: "Will not found" }, 404);
+  }
+
+  const documentHash = await hashPackage(await loadPackage(adminClient(), userId, will.id));
+  return jsonResponse({ documentHash });
+};
+
+const handleFinalize = async (supabase: SupabaseClient, userId: string, body: FinalizeRequest) => {
+  const { data: will, error: willError } = await supabase
+    .from("wills")
+    .select("id, status")
+    .eq("id", body.willId)
+    .maybeSingle();
+
+  if (willError) throw willError;
+  if (!will) {
+    return jsonResponse({ error: "Will not found" }, 404);
+  }
+  if (will.status === "completed") {
+    return jsonResponse({ error: "This will has already been finalized" }, 409);
+  }
+
+  const admin = adminClient();
+  const documentHash = await hashPackage(await loadPackage(admin, userId, will.id));
+
+  const [signaturesRes, witnessesRes] = await Promise.all([
+    admin
+      .from("will_signatures")
+      .select("document_hash")
+      .eq("will_id", will.id)
+      .eq("role", "testator")
+      .order("signed_at", { ascending: false })
+      .limit(1),
+    admin.from("will_witnesses").select("status, document_hash").eq("will_id", will.id).neq("status", "revoked"),
+  ]);
+  if (signaturesRes.error) throw signaturesRes.error;
+  if (witnessesRes.error) throw witnessesRes.error;
+
+  const witnesses = witnessesRes.data || [];
+  if (signaturesRes.data?.[0]?.document_hash !== documentHash || witnesses.some((w) => w.document_hash !== documentHash)) {
+    return jsonResponse({ error: STALE_WILL }, 409);
+  }
+  if (witnesses.length === 0 || witnesses.some((w) => w.status !== "signed")) {
+    return jsonResponse({ error: "Every invited witness must sign before the will can be finalized" }, 409);
+  }
+
+  // Completes the will and ties the owner's unassigned assets to it in one transaction
+  const { error: finalizeError } = await admin.rpc("finalize_will", {
+    p_will_id: will.id,
+    p_document_hash: documentHash,
+  });
+  if (finalizeError) throw finalizeError;
+
+  console.log(`Will ${will.id} finalized`);
+  return jsonResponse({ success: true, documentHash });
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: SigningRequest = await req.json();
+
+    if (body.action === "view") return await handleView(adminClient(), body);
+    if (body.action === "sign") return await handleSign(req, adminClient(), body);
+    if (body.action !== "invite" && body.action !== "cancel" && body.action !== "finalize" && body.action !== "hash") {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "No authorization header" }, 401);
+    }
+
+    // Create Supabase client with user's auth so RLS applies to every query
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    if (body.action === "invite") return await handleInvite(req, supabase, user.id, body);
+    if (body.action === "finalize") return await handleFinalize(supabase, user.id, body);
+    if (body.action === "hash") return await handleHash(supabase, user.id, body);
+    return await handleCancel(supabase, body);
+  } catch (error: unknown) {
+    console.error("Error in will-signing function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+};
+
+serve(handler);
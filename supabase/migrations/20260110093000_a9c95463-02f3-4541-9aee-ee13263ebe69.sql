@@ -0,0 +1,49 @@
+-- Create enum for transcription job status
+CREATE TYPE public.transcription_status AS ENUM ('pending', 'processing', 'completed', 'failed');
+
+-- Create will transcriptions table (one row per transcription job)
+CREATE TABLE public.will_transcriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  will_id UUID NOT NULL REFERENCES public.wills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  media_path TEXT NOT NULL,
+  status public.transcription_status NOT NULL DEFAULT 'pending',
+  provider TEXT,
+  language TEXT,
+  duration_seconds DECIMAL(10, 2),
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  transcript TEXT,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.will_transcriptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for will_transcriptions
+CREATE POLICY "Users can view their own transcriptions" ON public.will_transcriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create transcriptions for their wills" ON public.will_transcriptions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.wills WHERE wills.id = will_transcriptions.will_id AND wills.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own transcriptions" ON public.will_transcriptions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transcriptions" ON public.will_transcriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Trigger for updated_at timestamps
+CREATE TRIGGER update_will_transcriptions_updated_at
+  BEFORE UPDATE ON public.will_transcriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_will_transcriptions_will_id ON public.will_transcriptions(will_id);
+CREATE INDEX idx_will_transcriptions_user_id ON public.will_transcriptions(user_id);
@@ -0,0 +1,40 @@
+-- Create will chat messages table (one row per conversation turn)
+CREATE TABLE public.will_chat_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  will_id UUID NOT NULL REFERENCES public.wills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL DEFAULT '' CHECK (char_length(content) <= 20000),
+  position INTEGER NOT NULL CHECK (position >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(will_id, position)
+);
+
+-- Enable RLS
+ALTER TABLE public.will_chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for will_chat_messages (mirror the wills policies)
+CREATE POLICY "Users can view their own chat messages" ON public.will_chat_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chat messages" ON public.will_chat_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.wills WHERE wills.id = will_chat_messages.will_id AND wills.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own chat messages" ON public.will_chat_messages
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat messages" ON public.will_chat_messages
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Trigger for updated_at timestamps
+CREATE TRIGGER update_will_chat_messages_updated_at
+  BEFORE UPDATE ON public.will_chat_messages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_will_chat_messages_will_id ON public.will_chat_messages(will_id, position);
+CREATE INDEX idx_will_chat_messages_user_id ON public.will_chat_messages(user_id);
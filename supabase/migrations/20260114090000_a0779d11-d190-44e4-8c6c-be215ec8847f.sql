@@ -0,0 +1,120 @@
+-- Per-user budgets for the will-chat edge function (rows are optional; defaults apply)
+CREATE TABLE public.chat_usage_limits (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_requests_per_hour INTEGER NOT NULL DEFAULT 60 CHECK (max_requests_per_hour >= 0),
+  max_tokens_per_day INTEGER NOT NULL DEFAULT 200000 CHECK (max_tokens_per_day >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per will-chat request, used to enforce the budgets above
+CREATE TABLE public.chat_usage_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL DEFAULT 'chat',
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; writes only happen through the SECURITY DEFINER functions below
+ALTER TABLE public.chat_usage_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat limits" ON public.chat_usage_limits
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own chat usage" ON public.chat_usage_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_chat_usage_limits_updated_at
+  BEFORE UPDATE ON public.chat_usage_limits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_chat_usage_events_user_id_created_at ON public.chat_usage_events(user_id, created_at);
+
+-- Checks the caller's budgets and, if allowed, records a new usage event.
+-- Returns { allowed, event_id } or { allowed: false, reason, limit, retry_after }.
+CREATE OR REPLACE FUNCTION public.consume_chat_quota(p_mode TEXT, p_prompt_tokens INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_max_requests INTEGER := 60;
+  v_max_tokens INTEGER := 200000;
+  v_request_count INTEGER;
+  v_token_count BIGINT;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+  v_event_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Serialize concurrent requests from the same user
+  PERFORM pg_advisory_xact_lock(hashtext('chat_quota:' || v_user_id::text));
+
+  SELECT max_requests_per_hour, max_tokens_per_day
+    INTO v_max_requests, v_max_tokens
+    FROM public.chat_usage_limits
+    WHERE user_id = v_user_id;
+
+  v_max_requests := COALESCE(v_max_requests, 60);
+  v_max_tokens := COALESCE(v_max_tokens, 200000);
+
+  SELECT count(*), min(created_at)
+    INTO v_request_count, v_oldest
+    FROM public.chat_usage_events
+    WHERE user_id = v_user_id AND created_at > now() - interval '1 hour';
+
+  IF v_request_count >= v_max_requests THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'requests',
+      'limit', v_max_requests,
+      'retry_after', GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + interval '1 hour' - now()))))::INTEGER
+    );
+  END IF;
+
+  SELECT COALESCE(sum(prompt_tokens + completion_tokens), 0), min(created_at)
+    INTO v_token_count, v_oldest
+    FROM public.chat_usage_events
+    WHERE user_id = v_user_id AND created_at > now() - interval '1 day';
+
+  IF v_token_count + GREATEST(p_prompt_tokens, 0) > v_max_tokens THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'tokens',
+      'limit', v_max_tokens,
+      'retry_after', GREATEST(1, CEIL(EXTRACT(EPOCH FROM (COALESCE(v_oldest, now()) + interval '1 day' - now()))))::INTEGER
+    );
+  END IF;
+
+  INSERT INTO public.chat_usage_events (user_id, mode, prompt_tokens)
+  VALUES (v_user_id, COALESCE(p_mode, 'chat'), GREATEST(p_prompt_tokens, 0))
+  RETURNING id INTO v_event_id;
+
+  RETURN jsonb_build_object('allowed', true, 'event_id', v_event_id);
+END;
+$$;
+
+-- Records the actual token usage once a request has finished
+CREATE OR REPLACE FUNCTION public.record_chat_usage(p_event_id UUID, p_prompt_tokens INTEGER, p_completion_tokens INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_usage_events
+  SET prompt_tokens = GREATEST(p_prompt_tokens, 0),
+      completion_tokens = GREATEST(p_completion_tokens, 0)
+  WHERE id = p_event_id AND user_id = auth.uid();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_chat_quota(TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.record_chat_usage(UUID, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.consume_chat_quota(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_chat_usage(UUID, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,117 @@
+-- Create will versions table (an immutable snapshot per content, transcript, media or status change)
+CREATE TABLE public.will_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  will_id UUID NOT NULL REFERENCES public.wills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  title TEXT NOT NULL,
+  type public.will_type NOT NULL,
+  status public.will_status NOT NULL,
+  content TEXT,
+  transcript TEXT,
+  audio_url TEXT,
+  video_url TEXT,
+  restored_from UUID REFERENCES public.will_versions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(will_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.will_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the trigger below and never edited, so users only get read access
+CREATE POLICY "Users can view their own will versions" ON public.will_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Snapshot a will whenever something a reader would care about changes
+CREATE OR REPLACE FUNCTION public.record_will_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restored_from UUID := NULLIF(current_setting('app.restored_from_version', true), '')::UUID;
+  v_next INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.transcript IS NOT DISTINCT FROM OLD.transcript
+    AND NEW.audio_url IS NOT DISTINCT FROM OLD.audio_url
+    AND NEW.video_url IS NOT DISTINCT FROM OLD.video_url
+    AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next
+  FROM public.will_versions
+  WHERE will_id = NEW.id;
+
+  INSERT INTO public.will_versions (
+    will_id, user_id, version_number, title, type, status,
+    content, transcript, audio_url, video_url, restored_from
+  ) VALUES (
+    NEW.id, NEW.user_id, v_next, NEW.title, NEW.type, NEW.status,
+    NEW.content, NEW.transcript, NEW.audio_url, NEW.video_url, v_restored_from
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_wills_version
+  AFTER INSERT OR UPDATE ON public.wills
+  FOR EACH ROW EXECUTE FUNCTION public.record_will_version();
+
+-- Copy an earlier version back onto its will. Runs as the caller, so RLS decides
+-- which versions and wills are reachable; the trigger records the result as a new version.
+CREATE OR REPLACE FUNCTION public.restore_will_version(p_version_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.will_versions;
+  v_latest UUID;
+BEGIN
+  SELECT * INTO v_version FROM public.will_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Will version not found';
+  END IF;
+
+  PERFORM set_config('app.restored_from_version', p_version_id::TEXT, true);
+
+  UPDATE public.wills
+  SET title = v_version.title,
+      content = v_version.content,
+      transcript = v_version.transcript,
+      audio_url = v_version.audio_url,
+      video_url = v_version.video_url
+  WHERE id = v_version.will_id;
+
+  PERFORM set_config('app.restored_from_version', '', true);
+
+  SELECT id INTO v_latest
+  FROM public.will_versions
+  WHERE will_id = v_version.will_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  RETURN v_latest;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.restore_will_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_will_version(UUID) TO authenticated;
+
+-- Give existing wills a starting point
+INSERT INTO public.will_versions (
+  will_id, user_id, version_number, title, type, status,
+  content, transcript, audio_url, video_url, created_at
+)
+SELECT id, user_id, 1, title, type, status, content, transcript, audio_url, video_url, updated_at
+FROM public.wills;
+
+-- Indexes
+CREATE INDEX idx_will_versions_will_id ON public.will_versions(will_id, version_number DESC);
+CREATE INDEX idx_will_versions_user_id ON public.will_versions(user_id);
@@ -0,0 +1,66 @@
+-- Let users keep several wills and mark one of them as their primary will
+ALTER TABLE public.wills ADD COLUMN is_primary BOOLEAN NOT NULL DEFAULT false;
+
+-- The most recently updated will becomes primary for users who already have wills
+UPDATE public.wills w
+SET is_primary = true
+WHERE w.id = (
+  SELECT latest.id FROM public.wills latest
+  WHERE latest.user_id = w.user_id
+  ORDER BY latest.updated_at DESC
+  LIMIT 1
+);
+
+-- Assets that predate will_id being populated belong to their owner's primary will
+UPDATE public.assets a
+SET will_id = w.id
+FROM public.wills w
+WHERE a.will_id IS NULL
+  AND w.user_id = a.user_id
+  AND w.is_primary;
+
+-- At most one primary will per user
+CREATE UNIQUE INDEX idx_wills_primary_per_user ON public.wills(user_id) WHERE is_primary;
+
+-- A user's first will is primary without them having to choose
+CREATE OR REPLACE FUNCTION public.default_primary_will()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.wills WHERE user_id = NEW.user_id AND is_primary) THEN
+    NEW.is_primary := true;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_default_primary_will
+  BEFORE INSERT ON public.wills
+  FOR EACH ROW EXECUTE FUNCTION public.default_primary_will();
+
+-- Swap the primary flag in one transaction; the old primary is cleared first because
+-- the unique index is checked row by row
+CREATE OR REPLACE FUNCTION public.set_primary_will(p_will_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.wills WHERE id = p_will_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Will not found';
+  END IF;
+
+  UPDATE public.wills
+  SET is_primary = false
+  WHERE user_id = auth.uid() AND is_primary AND id <> p_will_id;
+
+  UPDATE public.wills
+  SET is_primary = true
+  WHERE id = p_will_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_primary_will(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_primary_will(UUID) TO authenticated;
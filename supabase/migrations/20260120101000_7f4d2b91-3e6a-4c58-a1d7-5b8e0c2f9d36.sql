@@ -0,0 +1,135 @@
+-- Enforce the will lifecycle in the database:
+--   draft -> in_progress | review
+--   in_progress -> review | completed
+--   review -> in_progress | completed
+-- A completed will is final; later changes are recorded as amendments (codicils).
+CREATE OR REPLACE FUNCTION public.enforce_will_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'in_progress') THEN
+      RAISE EXCEPTION 'A new will must start as draft or in_progress, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'completed' THEN
+    -- Only the primary flag may change once a will is finalized
+    IF (NEW.user_id, NEW.title, NEW.type, NEW.status, NEW.content, NEW.audio_url, NEW.video_url, NEW.transcript, NEW.notes)
+      IS DISTINCT FROM
+      (OLD.user_id, OLD.title, OLD.type, OLD.status, OLD.content, OLD.audio_url, OLD.video_url, OLD.transcript, OLD.notes) THEN
+      RAISE EXCEPTION 'This will has been finalized and can no longer be changed; add an amendment instead'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('in_progress', 'review'))
+    OR (OLD.status = 'in_progress' AND NEW.status IN ('review', 'completed'))
+    OR (OLD.status = 'review' AND NEW.status IN ('in_progress', 'completed'))
+  ) THEN
+    RAISE EXCEPTION 'A will cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_wills_status
+  BEFORE INSERT OR UPDATE ON public.wills
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_will_status();
+
+-- Create will amendments table (codicils to a finalized will)
+CREATE TABLE public.will_amendments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  will_id UUID NOT NULL REFERENCES public.wills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sequence_number INTEGER NOT NULL DEFAULT 1 CHECK (sequence_number > 0), -- assigned by trigger
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 20000),
+  reason TEXT CHECK (char_length(reason) <= 1000),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'completed')),
+  finalized_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(will_id, sequence_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.will_amendments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for will_amendments
+CREATE POLICY "Users can view their own will amendments" ON public.will_amendments
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own will amendments" ON public.will_amendments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.wills WHERE wills.id = will_amendments.will_id AND wills.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own will amendments" ON public.will_amendments
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own draft will amendments" ON public.will_amendments
+  FOR DELETE USING (auth.uid() = user_id AND status = 'draft');
+
+-- Amendments attach to finalized wills only, are numbered in order, and are
+-- frozen once they are finalized themselves
+CREATE OR REPLACE FUNCTION public.enforce_will_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.wills WHERE id = NEW.will_id AND status = 'completed') THEN
+      RAISE EXCEPTION 'Amendments can only be added to a finalized will'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT COALESCE(MAX(sequence_number), 0) + 1 INTO NEW.sequence_number
+    FROM public.will_amendments
+    WHERE will_id = NEW.will_id;
+
+    NEW.status := 'draft';
+    NEW.finalized_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'completed' THEN
+    RAISE EXCEPTION 'This amendment has been finalized and can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.will_id IS DISTINCT FROM OLD.will_id OR NEW.sequence_number IS DISTINCT FROM OLD.sequence_number THEN
+    RAISE EXCEPTION 'An amendment cannot be moved to another will'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    NEW.finalized_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_will_amendments
+  BEFORE INSERT OR UPDATE ON public.will_amendments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_will_amendment();
+
+-- Trigger for updated_at timestamps
+CREATE TRIGGER update_will_amendments_updated_at
+  BEFORE UPDATE ON public.will_amendments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_will_amendments_will_id ON public.will_amendments(will_id, sequence_number);
+CREATE INDEX idx_will_amendments_user_id ON public.will_amendments(user_id);
@@ -0,0 +1,85 @@
+-- Witnesses invited to sign a will. Each witness gets an emailed link carrying a
+-- random token; only its SHA-256 hash is stored here.
+CREATE TABLE public.will_witnesses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  will_id UUID NOT NULL REFERENCES public.wills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL CHECK (char_length(full_name) BETWEEN 1 AND 100),
+  email TEXT NOT NULL CHECK (char_length(email) BETWEEN 3 AND 255),
+  token_hash TEXT NOT NULL UNIQUE,
+  document_hash TEXT NOT NULL, -- hash of the will package the witness is asked to attest
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'signed', 'revoked')),
+  viewed_at TIMESTAMP WITH TIME ZONE,
+  signed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Every signature made on a will, by its owner or a witness. Rows are written by the
+-- will-signing edge function only, so the recorded IP and user agent come from the
+-- request rather than from the client.
+CREATE TABLE public.will_signatures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  will_id UUID NOT NULL REFERENCES public.wills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- owner of the will
+  witness_id UUID REFERENCES public.will_witnesses(id) ON DELETE SET NULL,
+  role TEXT NOT NULL CHECK (role IN ('testator', 'witness')),
+  signer_name TEXT NOT NULL CHECK (char_length(signer_name) BETWEEN 1 AND 100),
+  signature_type TEXT NOT NULL CHECK (signature_type IN ('typed', 'drawn')),
+  signature_data TEXT NOT NULL CHECK (char_length(signature_data) BETWEEN 1 AND 100000),
+  document_hash TEXT NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  signed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.will_witnesses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.will_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read the ceremony; all writes go through the will-signing function
+CREATE POLICY "Users can view their own will witnesses" ON public.will_witnesses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own will signatures" ON public.will_signatures
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- A will can only be finalized once its owner and every invited witness have signed
+CREATE OR REPLACE FUNCTION public.require_will_signatures()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.will_signatures WHERE will_id = NEW.id AND role = 'testator') THEN
+      RAISE EXCEPTION 'The will must be signed before it can be finalized'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.will_witnesses WHERE will_id = NEW.id AND status = 'signed')
+      OR EXISTS (SELECT 1 FROM public.will_witnesses WHERE will_id = NEW.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Every invited witness must sign before the will can be finalized'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_wills_signatures
+  BEFORE UPDATE ON public.wills
+  FOR EACH ROW EXECUTE FUNCTION public.require_will_signatures();
+
+-- Trigger for updated_at timestamps
+CREATE TRIGGER update_will_witnesses_updated_at
+  BEFORE UPDATE ON public.will_witnesses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_will_witnesses_will_id ON public.will_witnesses(will_id);
+CREATE INDEX idx_will_witnesses_user_id ON public.will_witnesses(user_id);
+CREATE INDEX idx_will_signatures_will_id ON public.will_signatures(will_id, signed_at);
+CREATE INDEX idx_will_signatures_user_id ON public.will_signatures(user_id);
@@ -0,0 +1,92 @@
+-- Tamper-evident seals for finalized wills. Each seal stores a manifest of SHA-256
+-- hashes (will content, transcript, recording, asset documents) and is chained to the
+-- previous seal of the same will:
+--   seal_hash = sha256(coalesce(previous_hash, '') || E'\n' || manifest)
+-- The manifest is kept as the exact text that was hashed so the chain can be re-verified.
+CREATE TABLE public.will_seals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  will_id UUID NOT NULL REFERENCES public.wills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sequence_number INTEGER NOT NULL DEFAULT 1 CHECK (sequence_number > 0), -- assigned by trigger
+  manifest TEXT NOT NULL,
+  previous_hash TEXT,
+  seal_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(will_id, sequence_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.will_seals ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: there are no update or delete policies
+CREATE POLICY "Users can view their own will seals" ON public.will_seals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own will seals" ON public.will_seals
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.wills WHERE wills.id = will_seals.will_id AND wills.user_id = auth.uid())
+  );
+
+-- Seals attach to finalized wills only and must extend the chain from its current head
+CREATE OR REPLACE FUNCTION public.chain_will_seal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  head RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.wills WHERE id = NEW.will_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Only a finalized will can be sealed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialize concurrent seals of the same will so the chain cannot fork
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.will_id::text));
+
+  SELECT sequence_number, seal_hash INTO head
+  FROM public.will_seals
+  WHERE will_id = NEW.will_id
+  ORDER BY sequence_number DESC
+  LIMIT 1;
+
+  IF NEW.previous_hash IS DISTINCT FROM head.seal_hash THEN
+    RAISE EXCEPTION 'Seal does not extend the current chain for this will'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.seal_hash IS DISTINCT FROM
+    encode(sha256(convert_to(COALESCE(NEW.previous_hash, '') || E'\n' || NEW.manifest, 'UTF8')), 'hex') THEN
+    RAISE EXCEPTION 'Seal hash does not match its manifest'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.sequence_number := COALESCE(head.sequence_number, 0) + 1;
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_will_seals
+  BEFORE INSERT ON public.will_seals
+  FOR EACH ROW EXECUTE FUNCTION public.chain_will_seal();
+
+-- Existing seals can never be changed or removed, whoever is asking
+CREATE OR REPLACE FUNCTION public.prevent_will_seal_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Will seals are append-only'
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+CREATE TRIGGER prevent_will_seals_changes
+  BEFORE UPDATE OR DELETE ON public.will_seals
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_will_seal_changes();
+
+-- Indexes
+CREATE INDEX idx_will_seals_user_id ON public.will_seals(user_id);
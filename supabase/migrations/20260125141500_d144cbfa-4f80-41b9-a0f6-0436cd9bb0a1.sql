@@ -0,0 +1,58 @@
+-- Any number of documents per asset (deeds, statements, policies), replacing the
+-- single assets.documents_url path. Files stay in the asset-documents bucket.
+CREATE TABLE public.asset_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 255),
+  description TEXT CHECK (char_length(description) <= 500),
+  mime_type TEXT,
+  size_bytes BIGINT CHECK (size_bytes >= 0),
+  storage_path TEXT NOT NULL UNIQUE,
+  uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.asset_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own asset documents" ON public.asset_documents
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own asset documents" ON public.asset_documents
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.assets WHERE assets.id = asset_documents.asset_id AND assets.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own asset documents" ON public.asset_documents
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own asset documents" ON public.asset_documents
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_asset_documents_updated_at
+  BEFORE UPDATE ON public.asset_documents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_asset_documents_asset_id ON public.asset_documents(asset_id);
+CREATE INDEX idx_asset_documents_user_id ON public.asset_documents(user_id);
+
+-- Carry over existing single documents, taking type and size from the stored object
+INSERT INTO public.asset_documents (asset_id, user_id, name, mime_type, size_bytes, storage_path, uploaded_at)
+SELECT
+  a.id,
+  a.user_id,
+  regexp_replace(a.documents_url, '^.*/', ''),
+  o.metadata->>'mimetype',
+  (o.metadata->>'size')::BIGINT,
+  a.documents_url,
+  COALESCE(o.created_at, a.updated_at)
+FROM public.assets a
+LEFT JOIN storage.objects o
+  ON o.bucket_id = 'asset-documents' AND o.name = a.documents_url
+WHERE a.documents_url IS NOT NULL AND a.documents_url <> '';
+
+ALTER TABLE public.assets DROP COLUMN documents_url;
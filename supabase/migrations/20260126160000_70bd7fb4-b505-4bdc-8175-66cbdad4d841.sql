@@ -0,0 +1,49 @@
+-- Multi-currency estates: every asset keeps its own currency, totals are converted to the
+-- owner's reporting currency using their own exchange rates.
+
+-- Assets always carry an ISO 4217 code (the column already defaulted to USD)
+UPDATE public.assets SET currency = 'USD' WHERE currency IS NULL OR currency !~ '^[A-Z]{3}$';
+
+ALTER TABLE public.assets
+  ALTER COLUMN currency SET NOT NULL,
+  ADD CONSTRAINT assets_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.profiles
+  ADD COLUMN reporting_currency TEXT NOT NULL DEFAULT 'USD' CHECK (reporting_currency ~ '^[A-Z]{3}$');
+
+-- One row per currency pair: 1 unit of base_currency = rate units of quote_currency.
+-- Rates are maintained by the user (edited by hand or imported from CSV).
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(20, 10) NOT NULL CHECK (rate > 0),
+  as_of DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, base_currency, quote_currency),
+  CHECK (base_currency <> quote_currency)
+);
+
+-- Enable RLS
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates" ON public.exchange_rates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates" ON public.exchange_rates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates" ON public.exchange_rates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates" ON public.exchange_rates
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_exchange_rates_user_id ON public.exchange_rates(user_id);
@@ -0,0 +1,5 @@
+-- Category-specific asset fields (VIN, property address, policy number, ...). The shape
+-- of each category is defined and validated in the app; the database only requires an object.
+ALTER TABLE public.assets
+  ADD COLUMN details JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(details) = 'object' AND pg_column_size(details) <= 16384);
@@ -0,0 +1,158 @@
+-- Digital-asset vault. Secrets are encrypted in the browser (AES-GCM) and only ciphertext
+-- and wrapped keys are stored here:
+--   vault key      - random, wrapped with a key derived from the owner's vault passphrase
+--   item key       - random per item, wrapped with the vault key and with each granted
+--                    recipient key
+--   recipient key  - random per recipient, wrapped with the vault key (so the owner can
+--                    grant more items later) and with a key derived from the recipient's
+--                    access code, which the owner hands over outside the app
+-- Recipients can fetch their wrapped keys only after release: they request it with their
+-- access code, the owner is emailed, and access opens once the owner's waiting period
+-- passes without the request being cancelled.
+
+CREATE TABLE public.vaults (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  kdf_salt TEXT NOT NULL,
+  kdf_iterations INTEGER NOT NULL CHECK (kdf_iterations >= 100000),
+  wrapped_vault_key TEXT NOT NULL,
+  release_delay_days INTEGER NOT NULL DEFAULT 14 CHECK (release_delay_days BETWEEN 1 AND 365),
+  release_requested_at TIMESTAMP WITH TIME ZONE,
+  release_requested_by UUID REFERENCES public.recipients(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.vault_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.vaults(user_id) ON DELETE CASCADE,
+  asset_id UUID REFERENCES public.assets(id) ON DELETE SET NULL,
+  item_type TEXT NOT NULL DEFAULT 'login'
+    CHECK (item_type IN ('login', 'recovery_codes', 'seed_location', 'two_factor', 'note')),
+  ciphertext TEXT NOT NULL CHECK (char_length(ciphertext) <= 65536),
+  wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.vault_recipient_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.vaults(user_id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL UNIQUE REFERENCES public.recipients(id) ON DELETE CASCADE,
+  access_code_hash TEXT NOT NULL UNIQUE,
+  kdf_salt TEXT NOT NULL,
+  kdf_iterations INTEGER NOT NULL CHECK (kdf_iterations >= 100000),
+  wrapped_by_code TEXT NOT NULL,
+  wrapped_by_vault TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.vault_item_grants (
+  vault_item_id UUID NOT NULL REFERENCES public.vault_items(id) ON DELETE CASCADE,
+  recipient_key_id UUID NOT NULL REFERENCES public.vault_recipient_keys(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.vaults(user_id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (vault_item_id, recipient_key_id)
+);
+
+-- Enable RLS; recipients never query these tables directly, the vault-access function does
+ALTER TABLE public.vaults ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vault_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vault_recipient_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vault_item_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own vault" ON public.vaults
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own vault" ON public.vaults
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own vault" ON public.vaults
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own vault" ON public.vaults
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own vault items" ON public.vault_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own vault items" ON public.vault_items
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (asset_id IS NULL OR EXISTS (SELECT 1 FROM public.assets WHERE assets.id = vault_items.asset_id AND assets.user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can update their own vault items" ON public.vault_items
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (asset_id IS NULL OR EXISTS (SELECT 1 FROM public.assets WHERE assets.id = vault_items.asset_id AND assets.user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can delete their own vault items" ON public.vault_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own vault recipient keys" ON public.vault_recipient_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own vault recipient keys" ON public.vault_recipient_keys
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.recipients WHERE recipients.id = vault_recipient_keys.recipient_id AND recipients.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own vault recipient keys" ON public.vault_recipient_keys
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own vault grants" ON public.vault_item_grants
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own vault grants" ON public.vault_item_grants
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.vault_items WHERE vault_items.id = vault_item_grants.vault_item_id AND vault_items.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.vault_recipient_keys k WHERE k.id = vault_item_grants.recipient_key_id AND k.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own vault grants" ON public.vault_item_grants
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Only the vault-access function (service role) may start a release; owners can only cancel one
+CREATE OR REPLACE FUNCTION public.guard_vault_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role'
+    AND NEW.release_requested_at IS NOT NULL
+    AND NEW.release_requested_at IS DISTINCT FROM OLD.release_requested_at THEN
+    RAISE EXCEPTION 'Vault release can only be requested by a recipient'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.release_requested_at IS NULL THEN
+    NEW.release_requested_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_vaults_release
+  BEFORE UPDATE ON public.vaults
+  FOR EACH ROW EXECUTE FUNCTION public.guard_vault_release();
+
+CREATE TRIGGER update_vaults_updated_at
+  BEFORE UPDATE ON public.vaults
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_vault_items_updated_at
+  BEFORE UPDATE ON public.vault_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_vault_items_user_id ON public.vault_items(user_id);
+CREATE INDEX idx_vault_items_asset_id ON public.vault_items(asset_id);
+CREATE INDEX idx_vault_recipient_keys_user_id ON public.vault_recipient_keys(user_id);
+CREATE INDEX idx_vault_item_grants_recipient_key_id ON public.vault_item_grants(recipient_key_id);
+CREATE INDEX idx_vault_item_grants_user_id ON public.vault_item_grants(user_id);
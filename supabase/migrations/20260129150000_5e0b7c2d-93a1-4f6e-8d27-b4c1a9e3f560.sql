@@ -0,0 +1,47 @@
+-- Debts that reduce what beneficiaries receive. A liability can be secured against one
+-- of the owner's assets (a mortgage against a property, a loan against a vehicle); the
+-- rest are paid from the estate as a whole before distribution.
+CREATE TABLE public.liabilities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('mortgage', 'car_loan', 'credit_card', 'personal_loan', 'student_loan', 'tax', 'other')),
+  amount NUMERIC(15, 2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  lender TEXT,
+  notes TEXT,
+  secured_asset_id UUID REFERENCES public.assets(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.liabilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own liabilities" ON public.liabilities
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own liabilities" ON public.liabilities
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (secured_asset_id IS NULL OR EXISTS (SELECT 1 FROM public.assets WHERE assets.id = liabilities.secured_asset_id AND assets.user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can update their own liabilities" ON public.liabilities
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (secured_asset_id IS NULL OR EXISTS (SELECT 1 FROM public.assets WHERE assets.id = liabilities.secured_asset_id AND assets.user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can delete their own liabilities" ON public.liabilities
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_liabilities_updated_at
+  BEFORE UPDATE ON public.liabilities
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes
+CREATE INDEX idx_liabilities_user_id ON public.liabilities(user_id);
+CREATE INDEX idx_liabilities_secured_asset_id ON public.liabilities(secured_asset_id);
@@ -0,0 +1,4 @@
+-- The residuary estate is stored as a pseudo-asset so its shares can live in
+-- asset_allocations. Added on its own because a new enum value can't be used in the
+-- transaction that adds it.
+ALTER TYPE public.asset_category ADD VALUE IF NOT EXISTS 'residuary';
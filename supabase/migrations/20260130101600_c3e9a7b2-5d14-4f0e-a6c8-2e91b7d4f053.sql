@@ -0,0 +1,64 @@
+-- Allocation kinds. Besides a percentage of an asset, a recipient can be left a fixed
+-- amount from it (in the asset's currency), the whole item, or a share of the residuary
+-- estate: whatever is left once debts and every other gift are settled.
+ALTER TABLE public.asset_allocations
+  ADD COLUMN allocation_kind TEXT NOT NULL DEFAULT 'percentage'
+    CHECK (allocation_kind IN ('percentage', 'fixed_amount', 'whole_item', 'residuary')),
+  ADD COLUMN fixed_amount NUMERIC(15, 2) CHECK (fixed_amount > 0),
+  ALTER COLUMN allocation_percentage DROP NOT NULL,
+  ADD CONSTRAINT asset_allocations_kind_values_check CHECK (
+    CASE allocation_kind
+      WHEN 'fixed_amount' THEN fixed_amount IS NOT NULL AND allocation_percentage IS NULL
+      WHEN 'whole_item' THEN fixed_amount IS NULL AND allocation_percentage IS NULL
+      ELSE allocation_percentage IS NOT NULL AND fixed_amount IS NULL
+    END
+  );
+
+-- One residuary estate per will (and one for assets not yet tied to a will); it has no
+-- value of its own
+CREATE UNIQUE INDEX idx_assets_residuary_per_will
+  ON public.assets(user_id, COALESCE(will_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE category = 'residuary';
+
+ALTER TABLE public.assets
+  ADD CONSTRAINT assets_residuary_value_check CHECK (category <> 'residuary' OR estimated_value IS NULL);
+
+-- Residuary shares only make sense on the residuary estate, and percentages or whole
+-- items only on real assets. A whole-item gift leaves nothing for anyone else.
+CREATE OR REPLACE FUNCTION public.validate_asset_allocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.asset_category;
+BEGIN
+  SELECT category INTO v_category FROM public.assets WHERE id = NEW.asset_id;
+
+  IF v_category = 'residuary' AND NEW.allocation_kind NOT IN ('residuary', 'fixed_amount') THEN
+    RAISE EXCEPTION 'The residuary estate can only be left as residuary shares or fixed amounts'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_category <> 'residuary' AND NEW.allocation_kind = 'residuary' THEN
+    RAISE EXCEPTION 'Residuary shares can only be allocated from the residuary estate'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.asset_allocations
+    WHERE asset_id = NEW.asset_id
+      AND id <> NEW.id
+      AND (NEW.allocation_kind = 'whole_item' OR allocation_kind = 'whole_item')
+  ) THEN
+    RAISE EXCEPTION 'An asset left as a whole item cannot have other allocations'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_asset_allocations
+  BEFORE INSERT OR UPDATE ON public.asset_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.validate_asset_allocation();
@@ -0,0 +1,75 @@
+-- Contingent beneficiaries. If a recipient dies before the owner, their allocation passes
+-- to the first of its contingent recipients who survives, in order. If none do, the lapse
+-- rule decides: 'redistribute' shares it among the asset's other recipients, 'per_stirpes'
+-- passes it to the recipient's own descendants.
+ALTER TABLE public.asset_allocations
+  ADD COLUMN lapse_rule TEXT NOT NULL DEFAULT 'redistribute'
+    CHECK (lapse_rule IN ('redistribute', 'per_stirpes'));
+
+CREATE TABLE public.allocation_contingents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  allocation_id UUID NOT NULL REFERENCES public.asset_allocations(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES public.recipients(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(allocation_id, recipient_id),
+  UNIQUE(allocation_id, position)
+);
+
+-- Enable RLS
+ALTER TABLE public.allocation_contingents ENABLE ROW LEVEL SECURITY;
+
+-- Contingents belong to allocations on the user's own assets, name one of the user's own
+-- recipients, and can't be the allocation's primary recipient
+CREATE POLICY "Users can view contingents for their allocations" ON public.allocation_contingents
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.asset_allocations
+      JOIN public.assets ON assets.id = asset_allocations.asset_id
+      WHERE asset_allocations.id = allocation_contingents.allocation_id AND assets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create contingents for their allocations" ON public.allocation_contingents
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.asset_allocations
+      JOIN public.assets ON assets.id = asset_allocations.asset_id
+      WHERE asset_allocations.id = allocation_contingents.allocation_id
+        AND assets.user_id = auth.uid()
+        AND asset_allocations.recipient_id <> allocation_contingents.recipient_id
+    )
+    AND EXISTS (SELECT 1 FROM public.recipients WHERE recipients.id = allocation_contingents.recipient_id AND recipients.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update contingents for their allocations" ON public.allocation_contingents
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.asset_allocations
+      JOIN public.assets ON assets.id = asset_allocations.asset_id
+      WHERE asset_allocations.id = allocation_contingents.allocation_id AND assets.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.asset_allocations
+      JOIN public.assets ON assets.id = asset_allocations.asset_id
+      WHERE asset_allocations.id = allocation_contingents.allocation_id
+        AND assets.user_id = auth.uid()
+        AND asset_allocations.recipient_id <> allocation_contingents.recipient_id
+    )
+    AND EXISTS (SELECT 1 FROM public.recipients WHERE recipients.id = allocation_contingents.recipient_id AND recipients.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete contingents for their allocations" ON public.allocation_contingents
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.asset_allocations
+      JOIN public.assets ON assets.id = asset_allocations.asset_id
+      WHERE asset_allocations.id = allocation_contingents.allocation_id AND assets.user_id = auth.uid()
+    )
+  );
+
+-- Indexes
+CREATE INDEX idx_allocation_contingents_allocation_id ON public.allocation_contingents(allocation_id);
+CREATE INDEX idx_allocation_contingents_recipient_id ON public.allocation_contingents(recipient_id);
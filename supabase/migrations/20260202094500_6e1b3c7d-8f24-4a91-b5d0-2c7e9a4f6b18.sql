@@ -0,0 +1,4 @@
+-- A personal message from the owner to each recipient, kept with their details and
+-- shown on the recipient's summary page. It is not part of the will's signed content.
+ALTER TABLE public.recipients
+  ADD COLUMN personal_message TEXT CHECK (char_length(personal_message) <= 5000);
@@ -0,0 +1,22 @@
+-- Usage is recorded by the will-chat function with the service role, and only once per
+-- event: letting signed-in users call record_chat_usage meant they could reset the token
+-- counts on their own events and get around the daily budget.
+ALTER TABLE public.chat_usage_events ADD COLUMN recorded_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.record_chat_usage(p_event_id UUID, p_prompt_tokens INTEGER, p_completion_tokens INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Counts only go up from the estimate taken when the event was created
+  UPDATE public.chat_usage_events
+  SET prompt_tokens = GREATEST(prompt_tokens, p_prompt_tokens),
+      completion_tokens = GREATEST(completion_tokens, p_completion_tokens),
+      recorded_at = now()
+  WHERE id = p_event_id AND recorded_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_chat_usage(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_chat_usage(UUID, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,48 @@
+-- The hash of the will package a finalized will was signed against. It is computed by the
+-- will-signing function from the will as stored, never taken from the client, and the will
+-- can only be finalized when the owner's latest signature and every witness's signature
+-- attest that same hash: a will edited after it was signed can't be finalized.
+ALTER TABLE public.wills ADD COLUMN document_hash TEXT;
+
+CREATE OR REPLACE FUNCTION public.require_will_signatures()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role'
+    AND (NEW.document_hash IS DISTINCT FROM OLD.document_hash
+      OR (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')) THEN
+    RAISE EXCEPTION 'Wills can only be finalized through the signing ceremony'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    IF NEW.document_hash IS NULL OR NEW.document_hash IS DISTINCT FROM (
+      SELECT document_hash FROM public.will_signatures
+      WHERE will_id = NEW.id AND role = 'testator'
+      ORDER BY signed_at DESC
+      LIMIT 1
+    ) THEN
+      RAISE EXCEPTION 'The will must be signed in its current form before it can be finalized'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.will_witnesses WHERE will_id = NEW.id AND status = 'signed')
+      OR EXISTS (SELECT 1 FROM public.will_witnesses WHERE will_id = NEW.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Every invited witness must sign before the will can be finalized'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.will_witnesses
+      WHERE will_id = NEW.id AND status = 'signed' AND document_hash IS DISTINCT FROM NEW.document_hash
+    ) THEN
+      RAISE EXCEPTION 'Every witness must have signed the will in its current form'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Seals are written by the will-seal function with the service role only, so an owner
+-- can't append a seal of their own making to the chain
+DROP POLICY "Users can create their own will seals" ON public.will_seals;
@@ -0,0 +1,36 @@
+-- Finalizes a will in one transaction: marks it completed with the hash its signatures
+-- attest (checked by require_will_signatures) and ties the owner's unassigned assets to it,
+-- so a failure part way can't leave a completed will without its assets. Only one residuary
+-- estate can belong to a will, so the unassigned one is claimed only if the will has none.
+-- Called by the will-signing function, which computes the hash, with the service role.
+CREATE OR REPLACE FUNCTION public.finalize_will(p_will_id UUID, p_document_hash TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  UPDATE public.wills
+  SET status = 'completed', document_hash = p_document_hash
+  WHERE id = p_will_id
+  RETURNING user_id INTO v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Will not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.assets
+  SET will_id = p_will_id
+  WHERE user_id = v_user_id AND will_id IS NULL AND category <> 'residuary';
+
+  IF NOT EXISTS (SELECT 1 FROM public.assets WHERE will_id = p_will_id AND category = 'residuary') THEN
+    UPDATE public.assets
+    SET will_id = p_will_id
+    WHERE user_id = v_user_id AND will_id IS NULL AND category = 'residuary';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.finalize_will(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finalize_will(UUID, TEXT) TO service_role;
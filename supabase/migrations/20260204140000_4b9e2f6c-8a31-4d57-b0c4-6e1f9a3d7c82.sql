@@ -0,0 +1,316 @@
+-- A finalized will is final in full, not just its own row: the assets it distributes,
+-- their allocations and contingents, the recipients those name, and the debts secured on
+-- those assets can no longer be changed, and the will itself can no longer be deleted.
+-- Later changes are recorded as amendments. The guards apply to the owner's own writes;
+-- the service role (which finalize_will runs as, to tie unassigned assets to the will)
+-- is trusted.
+DROP POLICY "Users can delete their own wills" ON public.wills;
+
+CREATE POLICY "Users can delete their own wills" ON public.wills
+  FOR DELETE USING (auth.uid() = user_id AND status <> 'completed');
+
+CREATE OR REPLACE FUNCTION public.is_will_completed(p_will_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.wills WHERE id = p_will_id AND status = 'completed');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_asset_in_completed_will(p_asset_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.assets
+    JOIN public.wills ON wills.id = assets.will_id
+    WHERE assets.id = p_asset_id AND wills.status = 'completed'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_completed_will_assets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' AND (
+    (TG_OP <> 'INSERT' AND public.is_will_completed(OLD.will_id))
+    OR (TG_OP <> 'DELETE' AND public.is_will_completed(NEW.will_id))
+  ) THEN
+    RAISE EXCEPTION 'This asset belongs to a finalized will and can no longer be changed; add an amendment instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_completed_will_assets
+  BEFORE INSERT OR UPDATE OR DELETE ON public.assets
+  FOR EACH ROW EXECUTE FUNCTION public.protect_completed_will_assets();
+
+CREATE OR REPLACE FUNCTION public.protect_completed_will_allocations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' AND (
+    (TG_OP <> 'INSERT' AND public.is_asset_in_completed_will(OLD.asset_id))
+    OR (TG_OP <> 'DELETE' AND public.is_asset_in_completed_will(NEW.asset_id))
+  ) THEN
+    RAISE EXCEPTION 'This asset belongs to a finalized will and its allocations can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_completed_will_allocations
+  BEFORE INSERT OR UPDATE OR DELETE ON public.asset_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.protect_completed_will_allocations();
+
+CREATE OR REPLACE FUNCTION public.protect_completed_will_contingents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' AND EXISTS (
+    SELECT 1 FROM public.asset_allocations
+    WHERE id IN (OLD.allocation_id, NEW.allocation_id) AND public.is_asset_in_completed_will(asset_id)
+  ) THEN
+    RAISE EXCEPTION 'This asset belongs to a finalized will and its allocations can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_completed_will_contingents
+  BEFORE INSERT OR UPDATE OR DELETE ON public.allocation_contingents
+  FOR EACH ROW EXECUTE FUNCTION public.protect_completed_will_contingents();
+
+-- A recipient named in a finalized will keeps the name and relationship it was signed
+-- with; contact details can still be kept up to date for notifying them
+CREATE OR REPLACE FUNCTION public.protect_completed_will_recipients()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated'
+    AND (TG_OP = 'DELETE'
+      OR (NEW.user_id, NEW.full_name, NEW.relationship) IS DISTINCT FROM (OLD.user_id, OLD.full_name, OLD.relationship))
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.asset_allocations
+        WHERE recipient_id = OLD.id AND public.is_asset_in_completed_will(asset_id)
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.allocation_contingents
+        JOIN public.asset_allocations ON asset_allocations.id = allocation_contingents.allocation_id
+        WHERE allocation_contingents.recipient_id = OLD.id AND public.is_asset_in_completed_will(asset_allocations.asset_id)
+      )
+    ) THEN
+    RAISE EXCEPTION 'This recipient is named in a finalized will and can no longer be renamed or removed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_completed_will_recipients
+  BEFORE UPDATE OR DELETE ON public.recipients
+  FOR EACH ROW EXECUTE FUNCTION public.protect_completed_will_recipients();
+
+CREATE OR REPLACE FUNCTION public.protect_completed_will_liabilities()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' AND (
+    (TG_OP <> 'INSERT' AND public.is_asset_in_completed_will(OLD.secured_asset_id))
+    OR (TG_OP <> 'DELETE' AND public.is_asset_in_completed_will(NEW.secured_asset_id))
+  ) THEN
+    RAISE EXCEPTION 'This debt is secured on an asset of a finalized will and can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_completed_will_liabilities
+  BEFORE INSERT OR UPDATE OR DELETE ON public.liabilities
+  FOR EACH ROW EXECUTE FUNCTION public.protect_completed_will_liabilities();
+
+-- Replacing the function keeps its grants
+CREATE OR REPLACE FUNCTION public.save_asset_allocations(p_asset_id UUID, p_allocations JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_asset public.assets;
+  v_residuary BOOLEAN;
+  v_entry JSONB;
+  v_index INTEGER;
+  v_kind TEXT;
+  v_percentage NUMERIC;
+  v_fixed NUMERIC;
+  v_contingents JSONB;
+  v_share_total NUMERIC := 0;
+  v_fixed_total NUMERIC := 0;
+  v_has_shares BOOLEAN := false;
+  v_has_whole_item BOOLEAN := false;
+  v_recipients UUID[] := '{}';
+  v_allocation_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Locking the asset serializes concurrent saves for it
+  SELECT * INTO v_asset FROM public.assets WHERE id = p_asset_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'asset_not_found', 'message', 'This asset no longer exists');
+  END IF;
+  IF public.is_will_completed(v_asset.will_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'will_completed', 'message', 'This asset belongs to a finalized will and can no longer be changed');
+  END IF;
+  v_residuary := v_asset.category = 'residuary';
+
+  IF jsonb_typeof(p_allocations) IS DISTINCT FROM 'array' OR jsonb_array_length(p_allocations) > 100 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'The allocations could not be read');
+  END IF;
+
+  FOR v_entry, v_index IN
+    SELECT value, (ordinality - 1)::INTEGER FROM jsonb_array_elements(p_allocations) WITH ORDINALITY
+  LOOP
+    IF jsonb_typeof(v_entry) IS DISTINCT FROM 'object' THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'The allocations could not be read', 'index', v_index);
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.recipients WHERE id::TEXT = v_entry->>'recipient_id' AND user_id = v_user_id
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'unknown_recipient', 'message', 'Choose one of your recipients', 'index', v_index);
+    END IF;
+
+    IF (v_entry->>'recipient_id')::UUID = ANY (v_recipients) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'duplicate_recipient', 'message', 'Each recipient can only be listed once', 'index', v_index);
+    END IF;
+    v_recipients := v_recipients || (v_entry->>'recipient_id')::UUID;
+
+    v_kind := v_entry->>'allocation_kind';
+    IF v_kind IS NULL OR v_kind NOT IN ('percentage', 'fixed_amount', 'whole_item', 'residuary') THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'Choose how this recipient is left the asset', 'index', v_index);
+    END IF;
+
+    IF v_residuary AND v_kind NOT IN ('residuary', 'fixed_amount') THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_kind', 'message', 'The residuary estate can only be left as shares or fixed amounts', 'index', v_index);
+    END IF;
+    IF NOT v_residuary AND v_kind = 'residuary' THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_kind', 'message', 'Residuary shares can only be given from the residuary estate', 'index', v_index);
+    END IF;
+
+    IF v_kind IN ('percentage', 'residuary') THEN
+      IF jsonb_typeof(v_entry->'allocation_percentage') IS DISTINCT FROM 'number' THEN
+        RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'Enter a percentage', 'index', v_index);
+      END IF;
+      v_percentage := (v_entry->>'allocation_percentage')::NUMERIC;
+      IF v_percentage <= 0 OR v_percentage > 100 THEN
+        RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'Shares must be more than 0% and at most 100%', 'index', v_index);
+      END IF;
+      v_share_total := v_share_total + v_percentage;
+      v_has_shares := true;
+    ELSIF v_kind = 'fixed_amount' THEN
+      IF jsonb_typeof(v_entry->'fixed_amount') IS DISTINCT FROM 'number' THEN
+        RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'Enter an amount', 'index', v_index);
+      END IF;
+      v_fixed := (v_entry->>'fixed_amount')::NUMERIC;
+      IF v_fixed <= 0 OR v_fixed > 999999999999 THEN
+        RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'Amounts must be more than 0', 'index', v_index);
+      END IF;
+      v_fixed_total := v_fixed_total + v_fixed;
+    ELSE
+      v_has_whole_item := true;
+    END IF;
+
+    IF char_length(v_entry->>'notes') > 1000 THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'Notes must be less than 1000 characters', 'index', v_index);
+    END IF;
+
+    IF COALESCE(v_entry->>'lapse_rule', 'redistribute') NOT IN ('redistribute', 'per_stirpes') THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_allocation', 'message', 'Choose what happens if this recipient dies first', 'index', v_index);
+    END IF;
+
+    v_contingents := COALESCE(v_entry->'contingent_recipient_ids', '[]'::JSONB);
+    IF jsonb_typeof(v_contingents) IS DISTINCT FROM 'array' OR jsonb_array_length(v_contingents) > 5 THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_contingent', 'message', 'List at most 5 contingent recipients', 'index', v_index);
+    END IF;
+    IF (SELECT count(DISTINCT value) FROM jsonb_array_elements_text(v_contingents)) <> jsonb_array_length(v_contingents) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_contingent', 'message', 'Each contingent recipient can only be listed once per allocation', 'index', v_index);
+    END IF;
+    IF v_contingents ? (v_entry->>'recipient_id') THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'invalid_contingent', 'message', 'A recipient can''t be their own contingent recipient', 'index', v_index);
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(v_contingents) AS c(id)
+      WHERE NOT EXISTS (SELECT 1 FROM public.recipients WHERE recipients.id::TEXT = c.id AND recipients.user_id = v_user_id)
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'unknown_recipient', 'message', 'Contingent recipients must be your own recipients', 'index', v_index);
+    END IF;
+  END LOOP;
+
+  IF v_has_whole_item AND jsonb_array_length(p_allocations) > 1 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'whole_item_not_alone', 'message', 'An asset left as a whole item can only go to one recipient');
+  END IF;
+
+  IF v_has_shares AND abs(v_share_total - 100) > 0.001 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'shares_not_100', 'message', 'Percentage shares must total 100%');
+  END IF;
+
+  IF NOT v_residuary AND v_asset.estimated_value IS NOT NULL AND v_asset.estimated_value > 0
+    AND v_fixed_total > v_asset.estimated_value * v_asset.ownership_percentage / 100 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'fixed_exceeds_value', 'message', 'Fixed amounts add up to more than your share of the asset is worth');
+  END IF;
+
+  -- Contingents cascade with the allocations they belong to
+  DELETE FROM public.asset_allocations WHERE asset_id = p_asset_id;
+
+  FOR v_entry IN SELECT value FROM jsonb_array_elements(p_allocations) LOOP
+    v_kind := v_entry->>'allocation_kind';
+
+    INSERT INTO public.asset_allocations (
+      asset_id, recipient_id, allocation_kind, allocation_percentage, fixed_amount, lapse_rule, notes
+    )
+    VALUES (
+      p_asset_id,
+      (v_entry->>'recipient_id')::UUID,
+      v_kind,
+      CASE WHEN v_kind IN ('percentage', 'residuary') THEN (v_entry->>'allocation_percentage')::NUMERIC END,
+      CASE WHEN v_kind = 'fixed_amount' THEN (v_entry->>'fixed_amount')::NUMERIC END,
+      COALESCE(v_entry->>'lapse_rule', 'redistribute'),
+      NULLIF(btrim(v_entry->>'notes'), '')
+    )
+    RETURNING id INTO v_allocation_id;
+
+    INSERT INTO public.allocation_contingents (allocation_id, recipient_id, position)
+    SELECT v_allocation_id, c.id::UUID, c.position::INTEGER
+    FROM jsonb_array_elements_text(COALESCE(v_entry->'contingent_recipient_ids', '[]'::JSONB)) WITH ORDINALITY AS c(id, position);
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
@@ -0,0 +1,27 @@
+-- save_asset_allocations keeps fixed amounts within the owner's share of an asset, but
+-- lowering the share afterwards could leave them giving away more than the owner holds.
+-- Changing the share now checks the asset's fixed amounts again.
+CREATE OR REPLACE FUNCTION public.check_asset_fixed_allocations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.category <> 'residuary' AND NEW.estimated_value IS NOT NULL AND NEW.estimated_value > 0
+    AND (
+      SELECT COALESCE(SUM(fixed_amount), 0) FROM public.asset_allocations
+      WHERE asset_id = NEW.id AND allocation_kind = 'fixed_amount'
+    ) > NEW.estimated_value * NEW.ownership_percentage / 100 THEN
+    RAISE EXCEPTION 'Fixed amounts left from this asset add up to more than your share of it is worth'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_asset_fixed_allocations
+  BEFORE UPDATE OF ownership_percentage ON public.assets
+  FOR EACH ROW
+  WHEN (NEW.ownership_percentage IS DISTINCT FROM OLD.ownership_percentage)
+  EXECUTE FUNCTION public.check_asset_fixed_allocations();